@@ -1,6 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
-    generateSummary,
+    streamSummary,
     generateBulletPoints,
     calculateATSScore,
     calculateJDMatch,
@@ -10,6 +10,8 @@ import {
     makeStronger,
     shortenText,
     humanizeText,
+    rewriteTexts,
+    isAbortError,
     detectOverusedWords,
     scanQuantifiedMetrics,
     type ResumeData,
@@ -17,6 +19,17 @@ import {
     type ATSScore,
     type SummaryStyle,
 } from '~/lib/ai-features';
+import type { RewriteMode } from '~/lib/public-api';
+import type { ResumeChange } from '~/lib/resume-changes';
+import ResumeChangeReview from './ResumeChangeReview';
+
+const ROLE_REWRITE_OPTIONS: Array<{ mode: RewriteMode; label: string }> = [
+    { mode: 'stronger', label: '💪 Make all stronger' },
+    { mode: 'quantify', label: '📊 Add metrics to all' },
+    { mode: 'shorten', label: '✂️ Shorten all' },
+    { mode: 'humanize', label: '🤝 Humanize all' },
+    { mode: 'improve', label: '✏️ Improve all' },
+];
 
 interface AIFeaturesProps {
     resumeData: ResumeData;
@@ -41,18 +54,77 @@ export default function AIFeatures({
     const [summaryStyle, setSummaryStyle] = useState<SummaryStyle>('classic');
     const [overusedWords, setOverusedWords] = useState<Array<{ word: string; count: number; suggestions: string[] }>>([]);
     const [metricsScan, setMetricsScan] = useState<{ hasMetrics: boolean; metricCount: number; bulletsWithoutMetrics: number; suggestions: string[] } | null>(null);
+    const summaryAbortRef = useRef<AbortController | null>(null);
+    // The summary from before streaming started, put back when generation is cancelled or fails
+    const summaryBeforeStreamRef = useRef<string | null>(null);
+    // Bullets, cover letter and rewrites share the `isGenerating` slot, so a new one cancels the last
+    const requestAbortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => {
+            summaryAbortRef.current?.abort();
+            requestAbortRef.current?.abort();
+        };
+    }, []);
+
+    const startRequest = (): AbortController => {
+        requestAbortRef.current?.abort();
+        const controller = new AbortController();
+        requestAbortRef.current = controller;
+        return controller;
+    };
+
+    const finishRequest = (controller: AbortController) => {
+        if (requestAbortRef.current === controller) {
+            requestAbortRef.current = null;
+            setIsGenerating(null);
+        }
+    };
+
+    const handleCancelSummary = () => {
+        summaryAbortRef.current?.abort();
+    };
 
     const handleGenerateSummary = async (style: SummaryStyle = summaryStyle) => {
+        // A new style replaces any summary that is still streaming, but the one to restore stays
+        // the summary from before the first of them
+        if (!summaryAbortRef.current) {
+            summaryBeforeStreamRef.current = resumeData.summary;
+        }
+        summaryAbortRef.current?.abort();
+        const controller = new AbortController();
+        summaryAbortRef.current = controller;
+
+        const restoreSummary = () => {
+            if (summaryAbortRef.current === controller && summaryBeforeStreamRef.current !== null) {
+                onSummaryUpdate(summaryBeforeStreamRef.current);
+            }
+        };
+
         setIsGenerating('summary');
+        let streamed = '';
         try {
-            const summary = await generateSummary(resumeData, style);
+            const summary = await streamSummary(resumeData, style, (token) => {
+                streamed += token;
+                onSummaryUpdate(streamed);
+            }, controller.signal);
             if (summary) {
                 onSummaryUpdate(summary);
+            } else {
+                restoreSummary();
             }
         } catch (error) {
-            console.error('Error generating summary:', error);
+            if (!isAbortError(error)) {
+                console.error('Error generating summary:', error);
+            }
+            // Cancelled or failed: drop the partial text (a newer style's stream is left alone)
+            restoreSummary();
         } finally {
-            setIsGenerating(null);
+            if (summaryAbortRef.current === controller) {
+                summaryAbortRef.current = null;
+                summaryBeforeStreamRef.current = null;
+                setIsGenerating(null);
+            }
         }
     };
 
@@ -60,20 +132,24 @@ export default function AIFeatures({
         const exp = resumeData.experience[expIndex];
         if (!exp) return;
 
+        const controller = startRequest();
         setIsGenerating(`bullets-${expIndex}`);
         try {
             const bullets = await generateBulletPoints(
                 exp.position,
                 exp.company,
-                exp.description.filter(d => d.trim())
+                exp.description.filter(d => d.trim()),
+                controller.signal
             );
             if (bullets.length > 0) {
                 onBulletsUpdate(expIndex, bullets);
             }
         } catch (error) {
-            console.error('Error generating bullets:', error);
+            if (!isAbortError(error)) {
+                console.error('Error generating bullets:', error);
+            }
         } finally {
-            setIsGenerating(null);
+            finishRequest(controller);
         }
     };
 
@@ -135,47 +211,56 @@ export default function AIFeatures({
             return;
         }
 
+        const controller = startRequest();
         setIsGenerating('cover-letter');
         try {
             const letter = await generateCoverLetter(resumeData, {
                 title: '',
                 description: jobDescription,
-            });
+            }, controller.signal);
             if (letter) {
                 setCoverLetter(letter);
             }
         } catch (error) {
-            console.error('Error generating cover letter:', error);
+            if (!isAbortError(error)) {
+                console.error('Error generating cover letter:', error);
+            }
         } finally {
-            setIsGenerating(null);
+            finishRequest(controller);
         }
     };
 
     const handleImproveText = async (text: string, expIndex: number, descIndex: number) => {
+        const controller = startRequest();
         setIsGenerating(`improve-${expIndex}-${descIndex}`);
         try {
-            const improved = await improveText(text);
+            const improved = await improveText(text, controller.signal);
             if (improved) {
                 onDescriptionUpdate(expIndex, descIndex, improved);
             }
         } catch (error) {
-            console.error('Error improving text:', error);
+            if (!isAbortError(error)) {
+                console.error('Error improving text:', error);
+            }
         } finally {
-            setIsGenerating(null);
+            finishRequest(controller);
         }
     };
 
     const handleQuantify = async (text: string, expIndex: number, descIndex: number) => {
+        const controller = startRequest();
         setIsGenerating(`quantify-${expIndex}-${descIndex}`);
         try {
-            const quantified = await quantifyAchievement(text);
+            const quantified = await quantifyAchievement(text, controller.signal);
             if (quantified) {
                 onDescriptionUpdate(expIndex, descIndex, quantified);
             }
         } catch (error) {
-            console.error('Error quantifying achievement:', error);
+            if (!isAbortError(error)) {
+                console.error('Error quantifying achievement:', error);
+            }
         } finally {
-            setIsGenerating(null);
+            finishRequest(controller);
         }
     };
 
@@ -369,13 +454,21 @@ export default function AIFeatures({
                                 Storytelling
                             </button>
                         </div>
-                        <button
-                            onClick={() => handleGenerateSummary()}
-                            disabled={isGenerating === 'summary'}
-                            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
-                        >
-                            {isGenerating === 'summary' ? 'Generating Summary...' : '✨ Generate Professional Summary'}
-                        </button>
+                        {isGenerating === 'summary' ? (
+                            <button
+                                onClick={handleCancelSummary}
+                                className="w-full px-4 py-2 bg-gray-600 text-white rounded-lg text-sm font-medium hover:bg-gray-700"
+                            >
+                                ⏹️ Cancel Summary
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => handleGenerateSummary()}
+                                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+                            >
+                                ✨ Generate Professional Summary
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -397,35 +490,46 @@ export function AIBulletButtons({
     isGenerating: boolean;
 }) {
     const [isProcessing, setIsProcessing] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // The bullet may be removed while a rewrite is running; don't write the result back then
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
 
     const handleAction = async (action: 'improve' | 'quantify' | 'stronger' | 'shorten' | 'humanize') => {
         if (!text || isProcessing) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsProcessing(true);
         try {
             let result = text;
             switch (action) {
                 case 'improve':
-                    result = await improveText(text);
+                    result = await improveText(text, controller.signal);
                     break;
                 case 'quantify':
-                    result = await quantifyAchievement(text);
+                    result = await quantifyAchievement(text, controller.signal);
                     break;
                 case 'stronger':
-                    result = await makeStronger(text);
+                    result = await makeStronger(text, controller.signal);
                     break;
                 case 'shorten':
-                    result = await shortenText(text);
+                    result = await shortenText(text, controller.signal);
                     break;
                 case 'humanize':
-                    result = await humanizeText(text);
+                    result = await humanizeText(text, controller.signal);
                     break;
             }
             if (result && result !== text) {
                 onUpdate(result);
             }
         } catch (error) {
-            console.error(`Error in ${action}:`, error);
+            if (!isAbortError(error)) {
+                console.error(`Error in ${action}:`, error);
+            }
         } finally {
+            abortRef.current = null;
             setIsProcessing(false);
         }
     };
@@ -477,3 +581,126 @@ export function AIBulletButtons({
 }
 
 
+
+/**
+ * Rewrites every bullet of one role with a single batch request
+ * The rewrites are shown for review and only accepted ones are written back; failed bullets
+ * keep their text and the count is shown under the button. Bullets edited while the batch ran
+ * or the review was open keep the user's text.
+ */
+export function AIRoleBulletsButton({
+    expIndex,
+    bullets,
+    onUpdate,
+}: {
+    expIndex: number;
+    bullets: string[];
+    onUpdate: (descIndex: number, text: string) => void;
+}) {
+    const [mode, setMode] = useState<RewriteMode>('stronger');
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [failed, setFailed] = useState<string | null>(null);
+    const [proposed, setProposed] = useState<ResumeChange[] | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // The role may be removed while the batch is running; don't write the results back then
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const targets = bullets
+        .map((text, descIndex) => ({ text, descIndex }))
+        .filter(({ text }) => text.trim());
+
+    const handleApply = (accepted: ResumeChange[]) => {
+        let stale = 0;
+        accepted.forEach(change => {
+            const { target } = change;
+            if (target.kind !== 'bullet') return;
+            if (target.expIndex !== expIndex || bullets[target.descIndex] !== change.before) {
+                stale++;
+                return;
+            }
+            onUpdate(target.descIndex, change.after);
+        });
+        setProposed(null);
+        if (stale > 0) {
+            setFailed(`${stale} of ${accepted.length} rewrites were not applied because the bullet changed after it was sent`);
+        }
+    };
+
+    const handleRewriteAll = async () => {
+        if (targets.length === 0 || isProcessing) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsProcessing(true);
+        setFailed(null);
+        try {
+            const results = await rewriteTexts(targets.map(({ text }) => text), mode, controller.signal);
+            const errors: string[] = [];
+            const changes: ResumeChange[] = [];
+            results.forEach((result, index) => {
+                const { text, descIndex } = targets[index];
+                if (!result.ok) {
+                    errors.push(result.error);
+                } else if (result.text !== text) {
+                    changes.push({
+                        id: `bullet-${descIndex}`,
+                        target: { kind: 'bullet', expIndex, descIndex },
+                        label: `Bullet ${descIndex + 1}`,
+                        before: text,
+                        after: result.text,
+                        warnings: result.warnings,
+                    });
+                }
+            });
+            setProposed(changes.length > 0 ? changes : null);
+            if (errors.length > 0) {
+                setFailed(`${errors.length} of ${results.length} bullets could not be rewritten: ${errors[0]}`);
+            }
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error(`Error in batch ${mode}:`, error);
+            }
+        } finally {
+            abortRef.current = null;
+            setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className="mb-2">
+            <div className="flex items-center gap-1.5">
+                <select
+                    value={mode}
+                    onChange={(e) => setMode(e.target.value as RewriteMode)}
+                    disabled={isProcessing}
+                    className="px-2 py-1 border border-gray-300 rounded text-xs"
+                >
+                    {ROLE_REWRITE_OPTIONS.map(option => (
+                        <option key={option.mode} value={option.mode}>{option.label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleRewriteAll}
+                    disabled={isProcessing || targets.length === 0}
+                    className="px-3 py-1 bg-indigo-600 text-white rounded text-xs font-medium hover:bg-indigo-700 disabled:opacity-50"
+                    title="Rewrite every bullet in this role"
+                >
+                    {isProcessing ? `Rewriting ${targets.length} bullets...` : 'Apply to all bullets'}
+                </button>
+            </div>
+            {failed && <p className="text-xs text-red-600 mt-1">{failed}</p>}
+            {proposed && (
+                <div className="mt-2">
+                    <ResumeChangeReview
+                        title="Review rewritten bullets"
+                        changes={proposed}
+                        onApply={handleApply}
+                        onCancel={() => setProposed(null)}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { formatModelTarget, type AIRoutingState } from "~/lib/ai-routing";
+
+const formatOverrides = (state: AIRoutingState) => JSON.stringify(state.overrides, null, 2);
+
+const AIRoutingEditor = () => {
+    const [state, setState] = useState<AIRoutingState | null>(null);
+    const [draft, setDraft] = useState('');
+    const [adminToken, setAdminToken] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [saveErrors, setSaveErrors] = useState<string[]>([]);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        const controller = new AbortController();
+
+        fetch('/api/ai-routing', { signal: controller.signal })
+            .then(async response => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+                setState(data as AIRoutingState);
+                setDraft(formatOverrides(data));
+            })
+            .catch(fetchError => {
+                if (fetchError?.name === 'AbortError') return;
+                console.error('❌ Error fetching AI routing:', fetchError);
+                setError(fetchError.message || 'Failed to load AI routing');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, []);
+
+    const handleSave = async () => {
+        setSaveErrors([]);
+        setSaved(false);
+
+        let overrides: unknown;
+        try {
+            overrides = JSON.parse(draft);
+        } catch (parseError: any) {
+            setSaveErrors([`Not valid JSON: ${parseError.message}`]);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const response = await fetch('/api/ai-routing', {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${adminToken}`,
+                },
+                body: JSON.stringify(overrides),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                setSaveErrors(data.errors ?? [data.error || `Request failed with status ${response.status}`]);
+                return;
+            }
+            setState(data as AIRoutingState);
+            setDraft(formatOverrides(data));
+            setSaved(true);
+        } catch (saveError: any) {
+            console.error('❌ Error saving AI routing:', saveError);
+            setSaveErrors([saveError.message || 'Failed to save AI routing']);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return <p className="text-gray-600">Loading AI routing...</p>;
+    if (error) return <p className="text-red-600">{error}</p>;
+    if (!state) return null;
+
+    return (
+        <div className="space-y-8">
+            <p className="text-sm text-gray-600">
+                Each request uses its prompt template's route, then its feature's route, then <strong>default</strong>.
+                Targets are tried in order until one succeeds.
+            </p>
+
+            {state.problems.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-300 rounded-xl p-4">
+                    <p className="font-semibold text-yellow-800 mb-2">Configuration problems</p>
+                    <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1">
+                        {state.problems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Effective Routes</h3>
+                <table className="w-full text-left text-sm">
+                    <thead>
+                        <tr className="border-b-2 border-gray-200">
+                            <th className="p-2 font-semibold">Route</th>
+                            <th className="p-2 font-semibold">Models (primary → fallbacks)</th>
+                            <th className="p-2 font-semibold">Temperature</th>
+                            <th className="p-2 font-semibold">Max Tokens</th>
+                            <th className="p-2 font-semibold">Settings From</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {state.routes.map(route => (
+                            <tr key={route.name} className="border-b border-gray-100 hover:bg-gray-50">
+                                <td className="p-2 font-medium">{route.name}</td>
+                                <td className="p-2 font-mono text-xs">{route.targets.map(formatModelTarget).join(' → ')}</td>
+                                <td className="p-2">{route.temperature}</td>
+                                <td className="p-2">{route.maxTokens.toLocaleString()}</td>
+                                <td className="p-2 text-gray-500">{route.route}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Overrides</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                    Saved to <code>{state.file}</code> on the server. Each route only replaces the fields it sets.
+                </p>
+                <textarea
+                    value={draft}
+                    onChange={event => {
+                        setDraft(event.target.value);
+                        setSaved(false);
+                    }}
+                    spellCheck={false}
+                    rows={16}
+                    className="w-full font-mono text-sm border border-gray-300 rounded-lg p-3"
+                />
+
+                {state.editable ? (
+                    <div className="flex items-center gap-3 mt-3">
+                        <input
+                            type="password"
+                            value={adminToken}
+                            onChange={event => setAdminToken(event.target.value)}
+                            placeholder="Admin token"
+                            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        />
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || !adminToken}
+                            className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white font-semibold px-4 py-2 rounded-lg transition-colors"
+                        >
+                            {saving ? 'Saving...' : 'Save Routing'}
+                        </button>
+                        {saved && <span className="text-green-700 text-sm">Saved</span>}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500 mt-3">Set ADMIN_TOKEN on the server to edit the routing from here.</p>
+                )}
+
+                {saveErrors.length > 0 && (
+                    <ul className="list-disc list-inside text-sm text-red-600 mt-3 space-y-1">
+                        {saveErrors.map(saveError => <li key={saveError}>{saveError}</li>)}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AIRoutingEditor;
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import type { AIUsageBucket, AIUsageResponse, AIUsageSummary } from "~/lib/ai-usage";
+
+const RANGE_OPTIONS = [7, 14, 30];
+
+const errorRate = (bucket: AIUsageBucket) => bucket.calls > 0 ? (bucket.errors / bucket.calls) * 100 : 0;
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatCost = (tokens: number, costPer1kTokens?: number) =>
+    costPer1kTokens === undefined ? null : `$${((tokens / 1000) * costPer1kTokens).toFixed(2)}`;
+
+const StatCard = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+    <div className="bg-gray-50 rounded-xl p-4">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-2xl font-bold text-gray-900">{value}</p>
+        {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+);
+
+/**
+ * Calls per day as stacked bars: provider calls, cache hits and failures
+ */
+const DailyCallsChart = ({ summary }: { summary: AIUsageSummary }) => {
+    const maxCalls = Math.max(1, ...summary.days.map(day => day.calls));
+
+    return (
+        <div>
+            <div className="flex items-end gap-1 h-48 border-b border-gray-200">
+                {summary.days.map(day => {
+                    const providerOk = day.calls - day.cached - day.errors;
+                    return (
+                        <div
+                            key={day.date}
+                            className="flex-1 flex flex-col justify-end h-full"
+                            title={`${day.date}: ${day.calls} calls, ${day.cached} cached, ${day.errors} errors, avg ${day.avgLatencyMs} ms`}
+                        >
+                            <div className="bg-red-400" style={{ height: `${(day.errors / maxCalls) * 100}%` }} />
+                            <div className="bg-green-300" style={{ height: `${(day.cached / maxCalls) * 100}%` }} />
+                            <div className="bg-blue-500 rounded-t-sm" style={{ height: `${(Math.max(0, providerOk) / maxCalls) * 100}%` }} />
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{summary.days[0]?.date}</span>
+                <span>{summary.days[summary.days.length - 1]?.date}</span>
+            </div>
+            <div className="flex gap-4 text-xs text-gray-600 mt-2">
+                <span><span className="inline-block w-3 h-3 bg-blue-500 mr-1 align-middle" />Provider calls</span>
+                <span><span className="inline-block w-3 h-3 bg-green-300 mr-1 align-middle" />Cache hits</span>
+                <span><span className="inline-block w-3 h-3 bg-red-400 mr-1 align-middle" />Errors</span>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Daily error rate as a line; days without calls are drawn at 0%
+ */
+const ErrorRateChart = ({ summary }: { summary: AIUsageSummary }) => {
+    const rates = summary.days.map(errorRate);
+    const maxRate = Math.max(10, ...rates);
+    const width = 100;
+    const height = 40;
+    const step = rates.length > 1 ? width / (rates.length - 1) : 0;
+    const points = rates.map((rate, index) => `${index * step},${height - (rate / maxRate) * height}`).join(' ');
+
+    return (
+        <div>
+            <svg viewBox={`0 -2 ${width} ${height + 4}`} preserveAspectRatio="none" className="w-full h-40">
+                <line x1="0" y1={height} x2={width} y2={height} stroke="#e5e7eb" strokeWidth="0.5" />
+                <polyline points={points} fill="none" stroke="#ef4444" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                {rates.map((rate, index) => (
+                    <circle key={summary.days[index].date} cx={index * step} cy={height - (rate / maxRate) * height} r="0.8" fill="#ef4444">
+                        <title>{`${summary.days[index].date}: ${rate.toFixed(1)}% (${summary.days[index].errors}/${summary.days[index].calls})`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{summary.days[0]?.date}</span>
+                <span>peak {Math.max(...rates).toFixed(1)}%</span>
+                <span>{summary.days[summary.days.length - 1]?.date}</span>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Calls per feature (or template) as horizontal bars, with a details table
+ */
+const BreakdownTable = ({ rows, label, costPer1kTokens }: {
+    rows: Array<AIUsageBucket & { name: string }>;
+    label: string;
+    costPer1kTokens?: number;
+}) => {
+    const maxCalls = Math.max(1, ...rows.map(row => row.calls));
+
+    if (rows.length === 0) {
+        return <p className="text-gray-500 text-sm">No calls recorded</p>;
+    }
+
+    return (
+        <table className="w-full text-left text-sm">
+            <thead>
+                <tr className="border-b-2 border-gray-200">
+                    <th className="p-2 font-semibold">{label}</th>
+                    <th className="p-2 font-semibold w-1/3">Calls</th>
+                    <th className="p-2 font-semibold">Error Rate</th>
+                    <th className="p-2 font-semibold">Cached</th>
+                    <th className="p-2 font-semibold">Avg Latency</th>
+                    <th className="p-2 font-semibold">Prompt / Completion</th>
+                    <th className="p-2 font-semibold">Est. Tokens</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.name} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="p-2 font-medium">{row.name}</td>
+                        <td className="p-2">
+                            <div className="flex items-center gap-2">
+                                <div className="bg-blue-500 h-3 rounded" style={{ width: `${(row.calls / maxCalls) * 100}%` }} />
+                                <span>{formatNumber(row.calls)}</span>
+                            </div>
+                        </td>
+                        <td className={`p-2 ${errorRate(row) > 10 ? 'text-red-600 font-semibold' : ''}`}>{errorRate(row).toFixed(1)}%</td>
+                        <td className="p-2">{formatNumber(row.cached)}</td>
+                        <td className="p-2">{formatNumber(row.avgLatencyMs)} ms</td>
+                        <td className="p-2">{formatNumber(row.promptChars)} / {formatNumber(row.completionChars)} chars</td>
+                        <td className="p-2">
+                            {formatNumber(row.estimatedTokens)}
+                            {formatCost(row.estimatedTokens, costPer1kTokens) && (
+                                <span className="text-gray-500"> ({formatCost(row.estimatedTokens, costPer1kTokens)})</span>
+                            )}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const AIUsageDashboard = () => {
+    const [days, setDays] = useState(14);
+    const [usage, setUsage] = useState<AIUsageResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        setError('');
+
+        fetch(`/api/ai-usage?days=${days}`, { signal: controller.signal })
+            .then(async response => {
+                const data = await response.json();
+                if (!response.ok) throw new Error(data.error || `Request failed with status ${response.status}`);
+                setUsage(data as AIUsageResponse);
+            })
+            .catch(fetchError => {
+                if (fetchError?.name === 'AbortError') return;
+                console.error('❌ Error fetching AI usage:', fetchError);
+                setError(fetchError.message || 'Failed to load AI usage');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+
+        return () => controller.abort();
+    }, [days]);
+
+    const summary = usage?.summary;
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                    Every AI call made by the server, recorded by the <strong>{usage?.sink ?? '…'}</strong> telemetry sink
+                </p>
+                <div className="flex gap-2">
+                    {RANGE_OPTIONS.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setDays(option)}
+                            className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors ${days === option ? 'bg-blue-600 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'}`}
+                        >
+                            {option} days
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {loading && <p className="text-gray-600">Loading AI usage...</p>}
+            {!loading && error && <p className="text-red-600">{error}</p>}
+            {!loading && !error && usage && !summary && (
+                <p className="text-gray-600">
+                    {usage.sink
+                        ? `The ${usage.sink} sink can't be read back. Set AI_TELEMETRY=file or AI_TELEMETRY=firestore to see charts here.`
+                        : 'AI telemetry is turned off (AI_TELEMETRY=off).'}
+                </p>
+            )}
+
+            {!loading && !error && summary && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <StatCard label="AI Calls" value={formatNumber(summary.totals.calls)} hint={`since ${summary.since.slice(0, 10)}`} />
+                        <StatCard label="Error Rate" value={`${errorRate(summary.totals).toFixed(1)}%`} hint={`${summary.totals.errors} failed, ${summary.totals.cancelled} cancelled`} />
+                        <StatCard label="Avg Latency" value={`${formatNumber(summary.totals.avgLatencyMs)} ms`} hint="provider calls only" />
+                        <StatCard
+                            label="Cache Hit Rate"
+                            value={`${summary.totals.calls > 0 ? ((summary.totals.cached / summary.totals.calls) * 100).toFixed(1) : '0.0'}%`}
+                        />
+                        <StatCard
+                            label="Est. Tokens"
+                            value={formatNumber(summary.totals.estimatedTokens)}
+                            hint={formatCost(summary.totals.estimatedTokens, summary.costPer1kTokens) ?? 'set AI_COST_PER_1K_TOKENS for cost'}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900 mb-3">Calls per Day</h3>
+                            <DailyCallsChart summary={summary} />
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900 mb-3">Error Rate Trend</h3>
+                            <ErrorRateChart summary={summary} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-3">Per Feature</h3>
+                        <BreakdownTable
+                            label="Feature"
+                            rows={summary.features.map(({ feature, ...bucket }) => ({ name: feature, ...bucket }))}
+                            costPer1kTokens={summary.costPer1kTokens}
+                        />
+                    </div>
+
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-3">Per Prompt Template</h3>
+                        <BreakdownTable
+                            label="Template"
+                            rows={summary.templates.map(({ template, ...bucket }) => ({ name: template, ...bucket }))}
+                            costPer1kTokens={summary.costPer1kTokens}
+                        />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AIUsageDashboard;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     calculateATSScore,
     calculateJDMatch,
@@ -7,12 +7,15 @@ import {
     detectOverusedWords,
     scanQuantifiedMetrics,
     fixMyResume,
+    isAbortError,
     type ParsedResumeData,
     type JobDescription,
     type ATSScore,
     type OverusedWord,
     type QuantifiedMetrics,
 } from '~/lib/ai-features';
+import { applyResumeChanges, type ResumeChange } from '~/lib/resume-changes';
+import ResumeChangeReview from './ResumeChangeReview';
 import jsPDF from 'jspdf';
 
 interface EnhancedATSProps {
@@ -24,6 +27,14 @@ interface EnhancedATSProps {
 const EnhancedATS: React.FC<EnhancedATSProps> = ({ resumeData, jobDescription, onResumeUpdate }) => {
     const [isFixing, setIsFixing] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
+    const [proposedChanges, setProposedChanges] = useState<ResumeChange[] | null>(null);
+    const [fixNote, setFixNote] = useState<string | null>(null);
+    const fixAbortRef = useRef<AbortController | null>(null);
+
+    // Don't apply a "Fix My Resume" result after the panel has gone away
+    useEffect(() => {
+        return () => fixAbortRef.current?.abort();
+    }, []);
 
     // Calculate all scores
     const atsScore = calculateATSScore(resumeData);
@@ -72,16 +83,41 @@ const EnhancedATS: React.FC<EnhancedATSProps> = ({ resumeData, jobDescription, o
     };
 
     const handleFixMyResume = async () => {
+        fixAbortRef.current?.abort();
+        const controller = new AbortController();
+        fixAbortRef.current = controller;
         setIsFixing(true);
         try {
-            const fixedResume = await fixMyResume(resumeData, jobDescription, atsScore, keywordMatch);
-            onResumeUpdate?.(fixedResume);
-            alert('Resume optimized! Missing keywords added and weak bullets improved.');
+            const { changes, bulletsFailed } = await fixMyResume(resumeData, jobDescription, atsScore, keywordMatch, controller.signal);
+            if (changes.length === 0) {
+                alert(bulletsFailed > 0
+                    ? `No changes to suggest right now; ${bulletsFailed} bullets could not be improved. Please try again.`
+                    : 'No changes to suggest. Your resume already covers the basics.');
+                return;
+            }
+            setProposedChanges(changes);
+            setFixNote(bulletsFailed > 0
+                ? `${bulletsFailed} bullets could not be improved right now and are not listed.`
+                : null);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Error fixing resume:', error);
             alert('Error optimizing resume. Please try again.');
         } finally {
-            setIsFixing(false);
+            if (fixAbortRef.current === controller) {
+                fixAbortRef.current = null;
+                setIsFixing(false);
+            }
+        }
+    };
+
+    const handleApplyChanges = (accepted: ResumeChange[]) => {
+        const { resume, stale } = applyResumeChanges(resumeData, accepted);
+        onResumeUpdate?.(resume);
+        setProposedChanges(null);
+        setFixNote(null);
+        if (stale.length > 0) {
+            alert(`${stale.length} of ${accepted.length} changes were not applied because the text changed after they were suggested: ${stale.map(change => change.label).join('; ')}`);
         }
     };
 
@@ -275,6 +311,22 @@ const EnhancedATS: React.FC<EnhancedATSProps> = ({ resumeData, jobDescription, o
                 </div>
             </div>
 
+            {/* Fix My Resume review: nothing is applied until the user accepts it */}
+            {proposedChanges && (
+                <div className="space-y-2">
+                    {fixNote && <p className="text-sm text-amber-700">{fixNote}</p>}
+                    <ResumeChangeReview
+                        title="Review suggested fixes"
+                        changes={proposedChanges}
+                        onApply={handleApplyChanges}
+                        onCancel={() => {
+                            setProposedChanges(null);
+                            setFixNote(null);
+                        }}
+                    />
+                </div>
+            )}
+
             {/* Missing Skills Alert */}
             {missingSkills.length > 0 && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-6">
@@ -25,11 +25,16 @@ const FileUploader = ({ onFileSelect, accept = ".pdf", hasError = false }: FileU
         extensions.forEach(ext => {
             if (ext === 'pdf') {
                 acceptObj['application/pdf'] = ['.pdf'];
-            } else if (ext === 'docx' || ext === 'doc') {
+            } else if (ext === 'docx') {
                 acceptObj['application/vnd.openxmlformats-officedocument.wordprocessingml.document'] = ['.docx'];
+            } else if (ext === 'doc') {
                 acceptObj['application/msword'] = ['.doc'];
             } else if (ext === 'txt') {
                 acceptObj['text/plain'] = ['.txt'];
+            } else if (ext === 'png') {
+                acceptObj['image/png'] = ['.png'];
+            } else if (ext === 'jpg' || ext === 'jpeg') {
+                acceptObj['image/jpeg'] = ['.jpg', '.jpeg'];
             }
         });
         
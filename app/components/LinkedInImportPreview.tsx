@@ -0,0 +1,114 @@
+import type { LinkedInImport } from "~/lib/linkedin-import";
+
+interface LinkedInImportPreviewProps {
+    data: LinkedInImport;
+    onReplace: () => void;
+    onMerge: () => void;
+    onCancel: () => void;
+}
+
+const MAX_SKILLS_SHOWN = 20;
+
+function Section({ title, count, children }: { title: string; count: number; children: React.ReactNode }) {
+    if (count === 0) return null;
+    return (
+        <div>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">{title} ({count})</h4>
+            {children}
+        </div>
+    );
+}
+
+/**
+ * What a LinkedIn data export will put into the builder, shown before anything changes
+ * The user replaces the form with it, merges it into what is already there, or cancels.
+ */
+const LinkedInImportPreview = ({ data, onReplace, onMerge, onCancel }: LinkedInImportPreviewProps) => {
+    const { resume, headline, files } = data;
+    const { personalInfo } = resume;
+    const skills = [...resume.skills.technical, ...resume.skills.soft];
+    const contact = [personalInfo.email, personalInfo.phone, personalInfo.location, personalInfo.portfolio].filter(Boolean);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+            <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+                <div className="p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900">Import from LinkedIn</h3>
+                    <p className="text-xs text-gray-500 mt-1">Read from {files.join(', ')}</p>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <p className="text-xl font-bold text-gray-900">{personalInfo.fullName || 'No name in the export'}</p>
+                        {headline && <p className="text-sm text-gray-700">{headline}</p>}
+                        {contact.length > 0 && <p className="text-xs text-gray-500 mt-1">{contact.join(' · ')}</p>}
+                    </div>
+
+                    <Section title="Experience" count={resume.experience.length}>
+                        <ul className="space-y-1">
+                            {resume.experience.map((position, index) => (
+                                <li key={index} className="text-sm text-gray-800">
+                                    <span className="font-medium">{position.position}</span>
+                                    {position.company && <span> at {position.company}</span>}
+                                    <span className="text-gray-500">
+                                        {' '}· {[position.startDate, position.endDate].filter(Boolean).join(' – ')}
+                                        {position.description.length > 0 && ` · ${position.description.length} bullet${position.description.length === 1 ? '' : 's'}`}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </Section>
+
+                    <Section title="Education" count={resume.education.length}>
+                        <ul className="space-y-1">
+                            {resume.education.map((education, index) => (
+                                <li key={index} className="text-sm text-gray-800">
+                                    {[education.degree, education.school].filter(Boolean).join(', ')}
+                                    {education.graduationDate && <span className="text-gray-500"> · {education.graduationDate}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </Section>
+
+                    <Section title="Skills" count={skills.length}>
+                        <div className="flex flex-wrap gap-1">
+                            {skills.slice(0, MAX_SKILLS_SHOWN).map(skill => (
+                                <span key={skill} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full">{skill}</span>
+                            ))}
+                            {skills.length > MAX_SKILLS_SHOWN && (
+                                <span className="px-2 py-0.5 text-xs text-gray-500">+{skills.length - MAX_SKILLS_SHOWN} more</span>
+                            )}
+                        </div>
+                    </Section>
+
+                    <Section title="Projects" count={resume.projects.length}>
+                        <p className="text-sm text-gray-800">{resume.projects.map(project => project.name).join(', ')}</p>
+                    </Section>
+
+                    <Section title="Certifications" count={resume.certifications.length}>
+                        <p className="text-sm text-gray-800">{resume.certifications.map(certification => certification.name).join(', ')}</p>
+                    </Section>
+
+                    <Section title="Honors & awards" count={resume.achievements.length}>
+                        <p className="text-sm text-gray-800">{resume.achievements.map(achievement => achievement.name).join(', ')}</p>
+                    </Section>
+                </div>
+
+                <div className="p-6 border-t border-gray-200 flex flex-wrap items-center justify-end gap-2">
+                    <p className="text-xs text-gray-500 mr-auto">Merging keeps what you've entered and adds what's missing.</p>
+                    <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-gray-700 rounded-full hover:bg-gray-100">
+                        Cancel
+                    </button>
+                    <button onClick={onMerge} className="px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-full hover:bg-gray-50">
+                        Merge into form
+                    </button>
+                    <button onClick={onReplace} className="primary-button w-fit">
+                        Replace form
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LinkedInImportPreview;
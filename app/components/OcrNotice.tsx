@@ -0,0 +1,33 @@
+import { describeOcrWarnings, LOW_OCR_CONFIDENCE, type OcrResult } from "~/lib/ocr";
+
+/**
+ * Warning shown when a resume had to be read with OCR, with the confidence of each page
+ */
+const OcrNotice = ({ ocr }: { ocr: OcrResult }) => {
+    const warnings = describeOcrWarnings(ocr);
+
+    return (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 space-y-2">
+            <p className="text-sm font-semibold text-yellow-800">⚠️ Scanned resume: read with text recognition ({ocr.confidence}% confidence)</p>
+            <ul className="list-disc pl-5 space-y-1">
+                {warnings.map(warning => (
+                    <li key={warning} className="text-sm text-yellow-800">{warning}</li>
+                ))}
+            </ul>
+            {ocr.pages.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                    {ocr.pages.map(page => (
+                        <span
+                            key={page.page}
+                            className={`px-2 py-0.5 text-xs rounded-full ${page.confidence < LOW_OCR_CONFIDENCE ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}
+                        >
+                            Page {page.page}: {page.confidence}%
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OcrNotice;
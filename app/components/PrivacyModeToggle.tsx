@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { isPrivacyModeEnabled, setPrivacyMode } from "~/lib/pii-redaction";
+
+/**
+ * Checkbox for privacy mode, saved in this browser
+ * When on, names, emails, phone numbers, URLs and street addresses are replaced by placeholders
+ * before any text is sent to the AI provider, and restored in the reply
+ */
+const PrivacyModeToggle = () => {
+    const [enabled, setEnabled] = useState(false);
+
+    // localStorage is only available after hydration
+    useEffect(() => {
+        setEnabled(isPrivacyModeEnabled());
+    }, []);
+
+    const handleChange = (checked: boolean) => {
+        setPrivacyMode(checked);
+        setEnabled(checked);
+    };
+
+    return (
+        <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => handleChange(e.target.checked)}
+                className="mt-0.5"
+            />
+            <span>
+                <span className="font-semibold">🔒 Privacy mode</span>
+                {' '}— mask my name, email, phone, links and address before sending my resume to the AI
+            </span>
+        </label>
+    );
+};
+
+export default PrivacyModeToggle;
@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { findPlaceholders, splitOnPlaceholders } from "~/lib/fact-guard";
+import { hasUnfilledPlaceholders, type ResumeChange } from "~/lib/resume-changes";
+import { diffWords } from "~/lib/text-diff";
+
+type Decision = 'pending' | 'accepted' | 'rejected';
+
+interface ResumeChangeReviewProps {
+    title: string;
+    changes: ResumeChange[];
+    onApply: (accepted: ResumeChange[]) => void; // Accepted changes, with the user's edits
+    onCancel: () => void;
+}
+
+/**
+ * Word diff of one proposed change; placeholders the user still has to fill are highlighted
+ */
+function ChangeDiff({ before, after }: { before: string; after: string }) {
+    const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+    return (
+        <p className="text-sm text-gray-800 leading-relaxed">
+            {segments.map((segment, index) => {
+                if (segment.type === 'removed') {
+                    return <del key={index} className="bg-red-100 text-red-700">{segment.text}</del>;
+                }
+                if (segment.type === 'added') {
+                    return (
+                        <ins key={index} className="bg-green-100 text-green-800 no-underline">
+                            {splitOnPlaceholders(segment.text).map((part, partIndex) => partIndex % 2 === 1
+                                ? <mark key={partIndex} className="bg-amber-200 text-amber-900 font-semibold">{part}</mark>
+                                : part)}
+                        </ins>
+                    );
+                }
+                return <span key={index}>{segment.text}</span>;
+            })}
+        </p>
+    );
+}
+
+/**
+ * Accept or reject AI-proposed resume changes one at a time before any of them is applied
+ * Accepted changes can be edited; placeholders such as `[X%]` must be replaced with real
+ * figures before they can be applied
+ */
+const ResumeChangeReview = ({ title, changes, onApply, onCancel }: ResumeChangeReviewProps) => {
+    const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+    const [edits, setEdits] = useState<Record<string, string>>({});
+
+    const withEdits = changes.map(change => ({ ...change, after: edits[change.id] ?? change.after }));
+    const accepted = withEdits.filter(change => decisions[change.id] === 'accepted');
+    const unfilled = accepted.filter(hasUnfilledPlaceholders).length;
+
+    const decide = (id: string, decision: Decision) => setDecisions(prev => ({ ...prev, [id]: decision }));
+    const decideAll = (decision: Decision) =>
+        setDecisions(Object.fromEntries(changes.map(change => [change.id, decision])));
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-2xl p-6 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <h3 className="text-xl font-bold">{title}</h3>
+                    <p className="text-sm text-gray-600">
+                        Review each change. Nothing is applied to your resume until you accept it.
+                    </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <button onClick={() => decideAll('accepted')} className="px-3 py-1 text-xs font-medium rounded border border-green-300 text-green-700 hover:bg-green-50">
+                        Accept all
+                    </button>
+                    <button onClick={() => decideAll('rejected')} className="px-3 py-1 text-xs font-medium rounded border border-gray-300 text-gray-700 hover:bg-gray-50">
+                        Reject all
+                    </button>
+                </div>
+            </div>
+
+            {withEdits.map(change => {
+                const decision = decisions[change.id] ?? 'pending';
+                return (
+                    <div
+                        key={change.id}
+                        className={`rounded-lg border p-3 space-y-2 ${decision === 'accepted' ? 'border-green-300 bg-green-50/40' : decision === 'rejected' ? 'border-gray-200 opacity-60' : 'border-gray-200'}`}
+                    >
+                        <div className="flex items-center justify-between gap-3">
+                            <p className="text-xs font-semibold text-gray-500 uppercase">{change.label}</p>
+                            <div className="flex gap-1.5">
+                                <button
+                                    onClick={() => decide(change.id, 'accepted')}
+                                    className={`px-2.5 py-1 rounded text-xs font-medium border ${decision === 'accepted' ? 'bg-green-600 text-white border-green-600' : 'border-green-300 text-green-700 hover:bg-green-50'}`}
+                                >
+                                    ✓ Accept
+                                </button>
+                                <button
+                                    onClick={() => decide(change.id, 'rejected')}
+                                    className={`px-2.5 py-1 rounded text-xs font-medium border ${decision === 'rejected' ? 'bg-gray-600 text-white border-gray-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    ✕ Reject
+                                </button>
+                            </div>
+                        </div>
+
+                        <ChangeDiff before={change.before} after={change.after} />
+
+                        {change.warnings.map(warning => (
+                            <p key={warning} className="text-xs text-amber-700">⚠️ {warning}</p>
+                        ))}
+
+                        {decision === 'accepted' && (
+                            <div>
+                                <textarea
+                                    value={change.after}
+                                    onChange={(e) => setEdits(prev => ({ ...prev, [change.id]: e.target.value }))}
+                                    rows={2}
+                                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                                />
+                                {hasUnfilledPlaceholders(change) && (
+                                    <p className="text-xs text-red-600">
+                                        Replace {findPlaceholders(change.after).join(', ')} with your real figures, or reword the sentence.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            <div className="flex items-center justify-end gap-3">
+                {unfilled > 0 && (
+                    <p className="text-xs text-red-600 mr-auto">
+                        {unfilled} accepted {unfilled === 1 ? 'change still has' : 'changes still have'} placeholders to fill in
+                    </p>
+                )}
+                <button onClick={onCancel} className="px-4 py-2 text-sm font-medium rounded-lg border border-gray-300 hover:bg-gray-50">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onApply(accepted)}
+                    disabled={accepted.length === 0 || unfilled > 0}
+                    className="primary-button px-4 py-2 text-sm disabled:opacity-50"
+                >
+                    Apply {accepted.length} {accepted.length === 1 ? 'change' : 'changes'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ResumeChangeReview;
@@ -32,6 +32,11 @@ const Summary = ({ feedback }: { feedback: Feedback }) => {
                     <p className="text-sm text-gray-500">
                         This score is calculated based on the variables listed below.
                     </p>
+                    {feedback.privacyMode && (
+                        <p className="text-sm text-green-700">
+                            🔒 Privacy mode: your name, contact details and address were masked before the resume was sent to the AI.
+                        </p>
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,18 @@
+/**
+ * Admin authentication for server routes: `Authorization: Bearer <ADMIN_TOKEN>`
+ * Admins can edit the AI routing and, on /api/ai, pick the provider and model or send raw prompts.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Constant-time check of the request's bearer token; always false when ADMIN_TOKEN is not set
+ */
+export function isAdminRequest(request: Request): boolean {
+    const adminToken = process.env.ADMIN_TOKEN;
+    if (!adminToken) return false;
+
+    const presented = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const hash = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(hash(presented), hash(adminToken));
+}
@@ -0,0 +1,85 @@
+/**
+ * Runs /api/ai/batch rewrites through the AI gateway with bounded concurrency
+ * Each item goes through the same routing, fallbacks, cache and telemetry as a single
+ * /api/ai request; a failed item is reported in its slot and doesn't stop the others.
+ */
+
+import { REWRITE_PROMPTS, type AIBatchItemResult } from './ai-batch';
+import { AIProviderError } from './ai-errors';
+import { resolvePrompt, respondWithAI, type ResolvedPrompt } from './ai-gateway.server';
+import { readIntEnv } from './env.server';
+import type { RewriteMode } from './public-api';
+
+/**
+ * Map `items` with at most `concurrency` workers in flight; results keep the input order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const run = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, run));
+    return results;
+}
+
+/** One batch item: the /api/ai body it stands for and its rendered prompt */
+export interface RewriteBatchItem {
+    body: any;
+    resolved: ResolvedPrompt;
+}
+
+/**
+ * Render every item with the operation's template, so the prompts can be checked before anything is sent
+ */
+export function prepareRewriteBatch(operation: RewriteMode, items: string[], noCache: boolean = false): RewriteBatchItem[] {
+    return items.map(text => {
+        const body = { ...REWRITE_PROMPTS[operation](text), noCache };
+        return { body, resolved: resolvePrompt(body) };
+    });
+}
+
+async function rewriteItem({ body, resolved }: RewriteBatchItem, signal: AbortSignal): Promise<AIBatchItemResult> {
+    if (signal.aborted) {
+        return { ok: false, error: 'The batch was cancelled', code: 'ABORTED' };
+    }
+
+    try {
+        const response = await respondWithAI(body, resolved, signal);
+        const data = await response.json();
+        const rewritten = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+        if (!rewritten) {
+            return { ok: false, error: 'The AI returned an empty reply', code: 'UPSTREAM_ERROR' };
+        }
+        return { ok: true, text: rewritten };
+    } catch (error: any) {
+        return {
+            ok: false,
+            error: error?.message || 'Internal server error',
+            code: error instanceof AIProviderError ? error.code : undefined,
+        };
+    }
+}
+
+/**
+ * Send the prepared items, AI_BATCH_CONCURRENCY (default 3) at a time
+ */
+export async function runRewriteBatch(
+    operation: RewriteMode,
+    items: RewriteBatchItem[],
+    signal: AbortSignal
+): Promise<AIBatchItemResult[]> {
+    const concurrency = readIntEnv('AI_BATCH_CONCURRENCY', 3);
+    console.log(`📦 Batch ${operation}: ${items.length} items, ${concurrency} at a time`);
+
+    return mapWithConcurrency(items, concurrency, item => rewriteItem(item, signal));
+}
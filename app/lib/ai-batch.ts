@@ -0,0 +1,41 @@
+/**
+ * Batched rewrites: one /api/ai/batch request runs the same rewrite over many texts
+ * The server works through the items a few at a time (AI_BATCH_CONCURRENCY) and reports a
+ * result or an error for each one, so a whole role or resume can be rewritten without firing
+ * one request per bullet.
+ */
+
+import type { AIErrorCode } from './ai-errors';
+import { promptRequest, type PromptRequest } from './prompts';
+import { REWRITE_MODES, type RewriteMode } from './public-api';
+
+/** Most items accepted in one batch request; the client helper splits longer lists */
+export const AI_BATCH_MAX_ITEMS = 25;
+
+export interface AIBatchRequest {
+    operation: RewriteMode;
+    items: string[];
+}
+
+export type AIBatchItemResult =
+    | { ok: true; text: string }
+    | { ok: false; error: string; code?: AIErrorCode };
+
+export interface AIBatchResponse {
+    operation: RewriteMode;
+    results: AIBatchItemResult[]; // Same order as the request's items
+    failed: number;
+}
+
+/** Template request for each rewrite operation */
+export const REWRITE_PROMPTS: Record<RewriteMode, (text: string) => PromptRequest> = {
+    improve: text => promptRequest('improve-text', { text }),
+    quantify: achievement => promptRequest('quantify-achievement', { achievement }),
+    stronger: text => promptRequest('make-stronger', { text }),
+    shorten: text => promptRequest('shorten-text', { text }),
+    humanize: text => promptRequest('humanize-text', { text }),
+};
+
+export function isRewriteMode(value: unknown): value is RewriteMode {
+    return typeof value === 'string' && (REWRITE_MODES as readonly string[]).includes(value);
+}
@@ -0,0 +1,89 @@
+/**
+ * Server-side cache for /api/ai replies
+ * Keyed by a hash of provider, model, prompt and sampling options so repeated
+ * analyses and rewrite clicks don't cost another provider call.
+ *
+ * Configuration (env):
+ *   AI_CACHE              memory (default) | file | off
+ *   AI_CACHE_TTL_SECONDS  how long a reply stays valid (default 86400)
+ *   AI_CACHE_MAX_ENTRIES  least recently used entries are evicted past this (default 500)
+ *   AI_CACHE_FILE         JSON file used by the file store (default .cache/ai-cache.json)
+ */
+
+import { createHash } from 'node:crypto';
+import { createStore, type MemoryStore } from './ai-store.server';
+import { readIntEnv } from './env.server';
+import type { AICandidatesResponse, AIGenerateRequest, AIProvider } from './ai-providers.server';
+
+/** Reported to the client in the X-AI-Cache response header */
+export type AICacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_CACHE_FILE = '.cache/ai-cache.json';
+
+let store: MemoryStore<AICandidatesResponse> | null | undefined;
+
+/**
+ * The configured store, created on first use; null when caching is turned off
+ */
+function getStore(): MemoryStore<AICandidatesResponse> | null {
+    if (store !== undefined) return store;
+
+    const mode = (process.env.AI_CACHE || 'memory').toLowerCase();
+    const maxEntries = readIntEnv('AI_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES);
+
+    if (mode === 'off' || mode === 'false' || mode === '0') {
+        store = null;
+    } else {
+        store = createStore(mode === 'file' ? 'file' : 'memory', maxEntries, process.env.AI_CACHE_FILE || DEFAULT_CACHE_FILE);
+    }
+
+    return store;
+}
+
+/**
+ * Hash everything that changes the reply: provider, model, prompt and sampling options
+ */
+export function getAICacheKey(provider: AIProvider, request: AIGenerateRequest): string {
+    return createHash('sha256')
+        .update(JSON.stringify([
+            provider.name,
+            request.model || provider.defaultModel,
+            request.temperature ?? null,
+            request.maxTokens ?? null,
+            request.prompt,
+        ]))
+        .digest('hex');
+}
+
+/**
+ * Serve a reply from the cache, or generate it and store the result
+ * `bypass` skips the lookup but still refreshes the cached entry
+ */
+export async function generateWithCache(
+    provider: AIProvider,
+    request: AIGenerateRequest,
+    bypass: boolean = false
+): Promise<{ result: AICandidatesResponse; cacheStatus: AICacheStatus }> {
+    const cache = getStore();
+    if (!cache) {
+        return { result: await provider.generate(request), cacheStatus: 'BYPASS' };
+    }
+
+    const key = getAICacheKey(provider, request);
+
+    if (!bypass) {
+        const cached = cache.get(key);
+        if (cached) {
+            console.log(`⚡ AI cache hit (${key.substring(0, 12)})`);
+            return { result: cached.value, cacheStatus: 'HIT' };
+        }
+    }
+
+    const result = await provider.generate(request);
+    const ttlSeconds = readIntEnv('AI_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS);
+    cache.set(key, { value: result, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    return { result, cacheStatus: bypass ? 'BYPASS' : 'MISS' };
+}
@@ -0,0 +1,221 @@
+/**
+ * Client helper for the /api/ai proxy
+ * Shared by gemini.ts and ai-features.ts so the backend can be switched
+ * server-side (AI_PROVIDER) without touching the callers
+ */
+
+import type { AIBatchRequest, AIBatchResponse } from './ai-batch';
+import { getAIErrorMessage } from './ai-errors';
+import { privacyRedactor, type PIIRedactor } from './pii-redaction';
+import type { PromptRequest } from './prompts';
+import { readSSEEvents } from './sse';
+
+/** Feature buckets for the server's daily quotas */
+export const AI_FEATURES = ['parse', 'analyze', 'rewrite', 'cover-letter'] as const;
+export type AIFeature = typeof AI_FEATURES[number];
+
+export interface AIRequestOptions {
+    model?: string; // Defaults to the route's models; only honoured for admins and in-process callers
+    provider?: string; // Overrides the route's providers; only honoured for admins and in-process callers
+    temperature?: number; // Defaults to the route's; only honoured for admins and in-process callers
+    maxTokens?: number; // Defaults to the route's; only honoured for admins and in-process callers
+    noCache?: boolean; // Skip the server-side reply cache and fetch a fresh answer
+    feature?: AIFeature; // Quota bucket of a raw prompt (default: rewrite); templates set their own
+    signal?: AbortSignal; // Abort to cancel the request; the server then cancels the upstream call
+    redactor?: PIIRedactor; // Masks personal details in the prompt and restores them in the reply; defaults to privacy mode's
+}
+
+/**
+ * Error thrown by the client helpers; `code` is the server's AIErrorCode when it sent one
+ */
+export class AIRequestError extends Error {
+    code?: string;
+    status?: number;
+    retryAfter?: number; // Seconds
+
+    constructor(message: string, code?: string, status?: number, retryAfter?: number) {
+        super(message);
+        this.name = 'AIRequestError';
+        this.code = code;
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * True for the error fetch (and the AI helpers) reject with when their signal is aborted
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Turn an /api/ai error payload into an AIRequestError with a user-facing message
+ */
+function toAIRequestError(errorData: any, status?: number): AIRequestError {
+    const serverMessage = errorData?.error || 'Unknown error';
+    console.error('AI API error:', { status, code: errorData?.code, error: serverMessage });
+    return new AIRequestError(
+        getAIErrorMessage(errorData?.code, serverMessage, errorData?.retryAfter),
+        errorData?.code,
+        status,
+        errorData?.retryAfter
+    );
+}
+
+/**
+ * Sends an /api/ai request body and resolves with the HTTP response (JSON or server-sent events)
+ */
+export type AITransport = (body: Record<string, unknown>, signal?: AbortSignal) => Promise<Response>;
+
+const fetchTransport: AITransport = (body, signal) => fetch('/api/ai', {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+});
+
+let transport: AITransport = fetchTransport;
+
+/**
+ * Replace how AI requests are sent; server code uses this to call the providers in-process
+ * instead of fetching its own /api/ai route (see ai-gateway.server.ts)
+ */
+export function setAITransport(next: AITransport): void {
+    transport = next;
+}
+
+/**
+ * Request body fields for a raw prompt or a registry template (rendered on the server)
+ */
+function toPromptBody(prompt: string | PromptRequest): Record<string, unknown> {
+    return typeof prompt === 'string' ? { prompt } : { ...prompt };
+}
+
+/**
+ * Call the AI API through the server-side proxy
+ * Uses server proxy to avoid CORS issues and keep API keys on the server
+ * Resolves with the Gemini-style `candidates` response; template requests also
+ * get `promptTemplate` ({ id, version, source }) naming the template that was used
+ * Rejects with an AbortError when `options.signal` is aborted
+ */
+export async function callGeminiAPI(prompt: string | PromptRequest, options: AIRequestOptions = {}): Promise<any> {
+    const { signal, redactor = privacyRedactor(), ...requestOptions } = options;
+
+    console.log('🤖 Calling AI via /api/ai');
+    const response = await transport({
+        ...toPromptBody(redactor ? redactor.redactPrompt(prompt) : prompt),
+        ...requestOptions,
+    }, signal);
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw toAIRequestError(errorData, response.status);
+    }
+
+    const data = await response.json();
+    return redactor ? restoreCandidates(data, redactor) : data;
+}
+
+/**
+ * Put the real values back into every text part of a `candidates` reply
+ */
+function restoreCandidates(data: any, redactor: PIIRedactor): any {
+    if (!Array.isArray(data?.candidates)) return data;
+    return {
+        ...data,
+        candidates: data.candidates.map((candidate: any) => ({
+            ...candidate,
+            content: {
+                ...candidate?.content,
+                parts: (candidate?.content?.parts ?? []).map((part: any) =>
+                    typeof part?.text === 'string' ? { ...part, text: redactor.restore(part.text) } : part
+                ),
+            },
+        })),
+    };
+}
+
+/**
+ * Run one rewrite over many texts with a single /api/ai/batch request
+ * Resolves with a result or an error per item (in order); rejects when the whole batch is refused,
+ * e.g. by the rate limit, and with an AbortError when `signal` is aborted
+ */
+export async function callAIBatch(
+    request: AIBatchRequest,
+    signal?: AbortSignal,
+    redactor: PIIRedactor | undefined = privacyRedactor()
+): Promise<AIBatchResponse> {
+    console.log(`🤖 Calling AI batch via /api/ai/batch (${request.items.length} items)`);
+    const response = await fetch('/api/ai/batch', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(redactor ? { ...request, items: request.items.map(redactor.redact) } : request),
+        signal,
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw toAIRequestError(errorData, response.status);
+    }
+
+    const data: AIBatchResponse = await response.json();
+    if (!redactor) return data;
+    return {
+        ...data,
+        results: data.results.map(result => (result.ok ? { ...result, text: redactor.restore(result.text) } : result)),
+    };
+}
+
+export interface AIStreamOptions extends AIRequestOptions {
+    onToken: (token: string) => void; // Called for every text chunk as it arrives
+}
+
+/**
+ * Stream an AI reply from /api/ai as server-sent events
+ * Resolves with the full text once the stream completes; rejects with an AbortError if cancelled
+ */
+export async function streamGeminiAPI(prompt: string | PromptRequest, options: AIStreamOptions): Promise<string> {
+    const { onToken, signal, redactor = privacyRedactor(), ...requestOptions } = options;
+
+    console.log('🤖 Streaming AI via /api/ai');
+    const response = await transport({
+        ...toPromptBody(redactor ? redactor.redactPrompt(prompt) : prompt),
+        ...requestOptions,
+        stream: true,
+    }, signal);
+
+    if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw toAIRequestError(errorData, response.status);
+    }
+
+    // Placeholders can be split across chunks, so restoring holds back an unfinished one
+    const restorer = redactor?.createStreamRestorer();
+    let fullText = '';
+    const emit = (text: string) => {
+        if (!text) return;
+        fullText += text;
+        onToken(text);
+    };
+
+    for await (const { event, data } of readSSEEvents(response.body)) {
+        const payload = JSON.parse(data);
+        if (event === 'error') {
+            throw toAIRequestError({ ...payload, error: payload.error || 'Streaming failed' });
+        }
+        if (event === 'done') {
+            break;
+        }
+        if (payload.text) {
+            emit(restorer ? restorer.push(payload.text) : payload.text);
+        }
+    }
+    if (restorer) emit(restorer.flush());
+
+    return fullText.trim();
+}
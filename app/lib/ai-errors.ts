@@ -0,0 +1,82 @@
+/**
+ * Typed AI error codes shared by the server providers and the client helpers
+ * The server reports `code` (and `retryAfter` when known) in every /api/ai error,
+ * so the client can show an accurate message without string-matching the provider's text
+ */
+
+export type AIErrorCode =
+    | 'RATE_LIMITED' // Provider returned 429 after all retries, or the client hit the per-minute limit
+    | 'QUOTA_EXCEEDED' // Client used up today's quota for a feature
+    | 'PROMPT_TOO_LARGE' // Prompt is longer than AI_MAX_PROMPT_CHARS
+    | 'MODEL_LOADING' // Model is cold-starting (Hugging Face 503 "loading")
+    | 'TIMEOUT' // No response within AI_REQUEST_TIMEOUT_MS
+    | 'NETWORK_ERROR' // Connection refused/reset, DNS failure, ...
+    | 'UPSTREAM_ERROR' // Provider kept returning 5xx
+    | 'CIRCUIT_OPEN' // Provider is failing repeatedly; requests fail fast for a cooldown
+    | 'ABORTED' // The client cancelled the request or disconnected
+    | 'LEAKED_KEY'
+    | 'UNKNOWN_PROVIDER'
+    | 'UNKNOWN_PROMPT' // No prompt template with the requested id
+    | 'INVALID_PROMPT_VARIABLES' // A template placeholder had no value
+    | 'UNAUTHORIZED' // Missing or unknown API key on the public /api/v1 API
+    | 'INVALID_REQUEST' // Missing or unreadable input, e.g. a PDF without extractable text
+    | 'ANALYSIS_FAILED'; // The AI produced no usable parse or feedback for the resume
+
+/**
+ * Error raised by a provider; `status`, `code` and `retryAfter` are passed through to the client
+ */
+export class AIProviderError extends Error {
+    status: number;
+    code?: AIErrorCode;
+    retryAfter?: number; // Seconds until a retry is worthwhile
+
+    constructor(message: string, status: number = 500, code?: AIErrorCode, retryAfter?: number) {
+        super(message);
+        this.name = 'AIProviderError';
+        this.status = status;
+        this.code = code;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * User-facing message for an error code; falls back to the server's message
+ */
+export function getAIErrorMessage(code: string | undefined, fallback: string, retryAfter?: number): string {
+    const wait = retryAfter ? `in ${formatDuration(retryAfter)}` : 'in a moment';
+
+    switch (code) {
+        case 'RATE_LIMITED':
+            return `Too many AI requests right now. Please try again ${wait}.`;
+        case 'QUOTA_EXCEEDED':
+            return `You've reached today's limit for this AI feature. It resets ${wait}.`;
+        case 'PROMPT_TOO_LARGE':
+            return 'This text is too long for the AI to process. Please shorten it and try again.';
+        case 'MODEL_LOADING':
+            return `The AI model is starting up. Please try again ${wait}.`;
+        case 'TIMEOUT':
+            return 'The AI service took too long to respond. Please try again.';
+        case 'NETWORK_ERROR':
+            return 'Could not reach the AI service. Please check your connection and try again.';
+        case 'UPSTREAM_ERROR':
+            return 'The AI service is having problems. Please try again shortly.';
+        case 'CIRCUIT_OPEN':
+            return `The AI service is temporarily unavailable. Please try again ${wait}.`;
+        case 'ABORTED':
+            return 'The AI request was cancelled.';
+        default:
+            return fallback;
+    }
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds >= 3600) {
+        const hours = Math.ceil(seconds / 3600);
+        return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    if (seconds >= 60) {
+        const minutes = Math.ceil(seconds / 60);
+        return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+    }
+    return `${Math.ceil(seconds)} seconds`;
+}
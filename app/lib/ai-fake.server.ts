@@ -0,0 +1,265 @@
+/**
+ * Offline fixtures for the fake AI provider
+ * Picks the reply by the request's prompt template (or its feature for raw prompts) and answers
+ * with the shape the caller parses (ParsedResumeData JSON, Feedback JSON, bullet arrays or plain
+ * text), so the full upload → analyze → resume flow works without network access.
+ * Resume parses run the rule-based parser over the resume in the prompt.
+ */
+
+import type { AIFeature } from './ai-client';
+import type { AIGenerateRequest } from './ai-providers.server';
+import type { ParsedResumeData } from './gemini';
+import type { PromptId } from './prompts';
+import { parseResumeText } from './resume-text-parser';
+
+export type FakePromptKind =
+    | 'parse'
+    | 'analyze'
+    | 'bullets'
+    | 'summary'
+    | 'cover-letter'
+    | 'rewrite'
+    | 'text';
+
+const SAMPLE_RESUME: ParsedResumeData = {
+    personalInfo: {
+        fullName: 'Alex Morgan',
+        email: 'alex.morgan@example.com',
+        phone: '+1 (555) 010-2030',
+        location: 'Austin, TX',
+        linkedin: 'linkedin.com/in/alexmorgan',
+        portfolio: 'alexmorgan.dev',
+    },
+    summary: 'Software engineer with 6 years of experience building web applications in TypeScript and React, focused on reliable delivery and measurable product impact.',
+    experience: [
+        {
+            company: 'Northwind Labs',
+            position: 'Senior Software Engineer',
+            startDate: 'Mar 2021',
+            endDate: 'Present',
+            location: 'Austin, TX',
+            current: true,
+            description: [
+                'Led migration of the billing frontend to React, cutting page load time by 35%.',
+                'Designed a shared component library adopted by 4 product teams.',
+            ],
+        },
+        {
+            company: 'Contoso Digital',
+            position: 'Software Engineer',
+            startDate: 'Jun 2018',
+            endDate: 'Feb 2021',
+            location: 'Remote',
+            current: false,
+            description: [
+                'Built REST APIs in Node.js serving 2M requests per day.',
+                'Introduced automated end-to-end tests, reducing release regressions by 40%.',
+            ],
+        },
+    ],
+    education: [
+        {
+            degree: 'Bachelor of Science in Computer Science',
+            school: 'University of Texas at Austin',
+            gpa: '3.7',
+            graduationDate: 'May 2018',
+        },
+    ],
+    skills: {
+        technical: ['TypeScript', 'JavaScript', 'React', 'Node.js', 'PostgreSQL', 'AWS', 'Docker', 'Git'],
+        soft: ['Communication', 'Mentoring', 'Problem Solving'],
+    },
+    projects: [
+        {
+            name: 'Open Source Form Builder',
+            description: 'Drag-and-drop form builder written in React with 1.2k GitHub stars.',
+        },
+    ],
+    certifications: [{ name: 'AWS Certified Developer - Associate' }],
+    achievements: [{ name: 'Engineering Excellence Award 2023' }],
+};
+
+const SAMPLE_FEEDBACK: Feedback = {
+    overallScore: 74,
+    ATS: {
+        score: 78,
+        tips: [
+            { type: 'good', tip: 'Standard section headings are easy to parse' },
+            { type: 'good', tip: 'Contact details are complete' },
+            { type: 'improve', tip: 'Add more keywords from the job description' },
+        ],
+    },
+    toneAndStyle: {
+        score: 80,
+        tips: [
+            { type: 'good', tip: 'Confident, active voice', explanation: 'Most bullets start with strong action verbs such as "Led" and "Designed".' },
+            { type: 'improve', tip: 'Reduce repeated phrasing', explanation: 'Several bullets use similar wording; vary verbs to keep the reader engaged.' },
+        ],
+    },
+    content: {
+        score: 72,
+        tips: [
+            { type: 'good', tip: 'Quantified achievements', explanation: 'Metrics such as percentages and request volumes make the impact concrete.' },
+            { type: 'improve', tip: 'Expand on recent role', explanation: 'Add one or two more bullets describing scope and outcomes in the current position.' },
+        ],
+    },
+    structure: {
+        score: 76,
+        tips: [
+            { type: 'good', tip: 'Logical section order', explanation: 'Summary, experience, education and skills follow the order recruiters expect.' },
+            { type: 'improve', tip: 'Keep to one page', explanation: 'Trim older roles to fit the resume on a single page.' },
+        ],
+    },
+    skills: {
+        score: 68,
+        tips: [
+            { type: 'good', tip: 'Relevant core stack', explanation: 'The listed technologies match common requirements for this role.' },
+            { type: 'improve', tip: 'List missing tools', explanation: 'Mention tools from the job description you have used, such as CI/CD or cloud services.' },
+        ],
+    },
+};
+
+const SAMPLE_SUMMARIES: Record<string, string> = {
+    classic: 'Experienced professional with a track record of delivering high-quality results, combining strong technical skills with clear communication to drive measurable improvements.',
+    bold: 'Results-driven professional who consistently exceeds targets, leading high-impact initiatives and turning complex problems into measurable business wins.',
+    storytelling: 'What started as a curiosity for solving problems grew into a career of building products people rely on, always pairing technical depth with a focus on real-world impact.',
+};
+
+const BULLET_VERBS = ['Delivered', 'Led', 'Improved', 'Built', 'Streamlined'];
+
+const TEMPLATE_KINDS: Record<PromptId, FakePromptKind> = {
+    'resume-parse': 'parse',
+    'ats-analysis': 'analyze',
+    'summary-classic': 'summary',
+    'summary-bold': 'summary',
+    'summary-storytelling': 'summary',
+    'summary-keywords': 'rewrite',
+    'bullets': 'bullets',
+    'cover-letter': 'cover-letter',
+    'improve-text': 'rewrite',
+    'quantify-achievement': 'rewrite',
+    'make-stronger': 'rewrite',
+    'shorten-text': 'rewrite',
+    'humanize-text': 'rewrite',
+    'json-repair': 'text',
+};
+
+const FEATURE_KINDS: Record<AIFeature, FakePromptKind> = {
+    'parse': 'parse',
+    'analyze': 'analyze',
+    'rewrite': 'text',
+    'cover-letter': 'cover-letter',
+};
+
+/**
+ * Decide which reply a request gets from its template, or its feature for raw prompts,
+ * so overridden template wording doesn't change the reply's shape
+ */
+export function classifyFakeRequest(request: Pick<AIGenerateRequest, 'template' | 'feature'>): FakePromptKind {
+    if (request.template) return TEMPLATE_KINDS[request.template];
+    return request.feature ? FEATURE_KINDS[request.feature] : 'text';
+}
+
+/**
+ * Read a single-line "Label: value" field out of a prompt
+ */
+function readPromptField(prompt: string, label: string): string {
+    const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'));
+    return match ? match[1].trim() : '';
+}
+
+/**
+ * Text between the <untrusted_resume> tags of a prompt, or the whole prompt without them
+ */
+function readResumeText(prompt: string): string {
+    const fenced = prompt.match(/<untrusted_resume>([\s\S]*?)<\/untrusted_resume>/)?.[1];
+    return (fenced ?? prompt).trim();
+}
+
+/**
+ * Parse the resume in the prompt with the rule-based parser; the sample resume stands in
+ * only when the prompt has no resume text
+ */
+function buildParsedResume(prompt: string): ParsedResumeData {
+    const text = readResumeText(prompt);
+    return text ? parseResumeText(text) : SAMPLE_RESUME;
+}
+
+function buildBullets(prompt: string): string[] {
+    const section = prompt.split('Current bullets:')[1]?.split('Requirements:')[0] || '';
+    const bullets = section
+        .split('\n')
+        .map(line => line.replace(/^-\s*/, '').trim())
+        .filter(Boolean);
+
+    if (bullets.length === 0) {
+        return SAMPLE_RESUME.experience[0].description;
+    }
+
+    return bullets.map((bullet, index) => {
+        const text = bullet.replace(/\.?$/, '.');
+        // Keep bullets that already open with a past-tense verb, prefix the rest
+        if (/^\w+ed\b/i.test(text)) {
+            return text.charAt(0).toUpperCase() + text.slice(1);
+        }
+        const verb = BULLET_VERBS[index % BULLET_VERBS.length];
+        return `${verb} ${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+    });
+}
+
+function buildSummary(template?: PromptId): string {
+    const style = template?.replace(/^summary-/, '') || 'classic';
+    return SAMPLE_SUMMARIES[style] || SAMPLE_SUMMARIES.classic;
+}
+
+function buildCoverLetter(prompt: string): string {
+    const name = readPromptField(prompt, 'Name') || SAMPLE_RESUME.personalInfo.fullName;
+    const title = readPromptField(prompt, 'Title') || 'the open position';
+    const company = readPromptField(prompt, 'Company') || 'your company';
+
+    return `Dear Hiring Manager,
+
+I am excited to apply for ${title} at ${company}. My background building reliable software and collaborating across teams makes me confident I can contribute from day one.
+
+In my recent roles I have led projects from design through delivery, improved performance and quality through careful engineering, and mentored colleagues along the way.
+
+The requirements of this position closely match the skills I use every day, and I would welcome the chance to bring that experience to ${company}.
+
+Thank you for your time and consideration. I look forward to discussing how I can help your team.
+
+Sincerely,
+${name}`;
+}
+
+function buildRewrite(prompt: string): string {
+    const quoted = prompt.match(/Original: "([\s\S]*?)"\n/)?.[1];
+    // improveText passes the text as its own paragraph instead of quoting it
+    const paragraph = prompt.split('\n\n')[1];
+    const original = (quoted ?? (paragraph && !paragraph.startsWith('Requirements:') ? paragraph : '')).trim();
+    if (!original) return 'Delivered measurable results through focused, collaborative work.';
+    const text = original.charAt(0).toUpperCase() + original.slice(1);
+    return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Produce the deterministic reply text for a request
+ */
+export function generateFakeResponse(request: AIGenerateRequest): string {
+    const { prompt } = request;
+    switch (classifyFakeRequest(request)) {
+        case 'parse':
+            return JSON.stringify(buildParsedResume(prompt), null, 2);
+        case 'analyze':
+            return JSON.stringify(SAMPLE_FEEDBACK, null, 2);
+        case 'bullets':
+            return JSON.stringify(buildBullets(prompt));
+        case 'summary':
+            return buildSummary(request.template);
+        case 'cover-letter':
+            return buildCoverLetter(prompt);
+        case 'rewrite':
+            return buildRewrite(prompt);
+        default:
+            return 'This is a deterministic response from the offline AI provider.';
+    }
+}
@@ -1,84 +1,30 @@
 /**
  * AI-Powered Resume Builder Features
  * Implements best practices from 2025 resume builder tools
+ * Every AI helper takes an optional AbortSignal: aborting it cancels the request and the
+ * helper rejects with an AbortError instead of resolving with its fallback value
  */
 
 import { parseResumeWithGemini } from './gemini';
 import type { ParsedResumeData } from './gemini';
-
-// Re-export ParsedResumeData and parseResumeWithGemini for convenience
+import { AI_BATCH_MAX_ITEMS } from './ai-batch';
+import { AIRequestError, callAIBatch, callGeminiAPI, isAbortError, streamGeminiAPI } from './ai-client';
+import type { AIErrorCode } from './ai-errors';
+import { bulletsSchema, feedbackSchema, resolveStructuredReply } from './ai-schema';
+import { describeRewriteWarnings, guardRewrite } from './fact-guard';
+import { privacyRedactor } from './pii-redaction';
+import { checkFeedbackPlausibility, checkGeneratedText, guardUntrustedInput, logSecurityEvent } from './prompt-guard';
+import { promptRequest, type PromptRequest, type PromptTemplateInfo } from './prompts';
+import type { RewriteMode } from './public-api';
+import type { ResumeChange } from './resume-changes';
+
+// Re-export ParsedResumeData, parseResumeWithGemini and isAbortError for convenience
 export type { ParsedResumeData } from './gemini';
 export { parseResumeWithGemini } from './gemini';
+export { isAbortError } from './ai-client';
 
-/**
- * Helper function to call Hugging Face AI API through server-side proxy
- * Uses server proxy to avoid CORS issues
- * Uses Hugging Face exclusively (free, no quota limits)
- */
-async function callGeminiAPI(prompt: string, model: string = 'meta-llama/Meta-Llama-3-8B-Instruct'): Promise<any> {
-    // Call our server-side proxy to avoid CORS issues
-    // This uses Hugging Face API exclusively - NO PUTER API CALLS
-    console.log('🤖 Calling Hugging Face AI via /api/ai (NOT puter.com)');
-    const response = await fetch('/api/ai', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            prompt,
-            model,
-        }),
-    });
-
-    if (!response.ok) {
-        const errorData = await response.json();
-        const errorMessage = errorData.error || 'Unknown error';
-        
-        console.error('Hugging Face API error:', errorMessage);
-        
-        // Provide helpful error messages
-        if (errorMessage.includes('loading')) {
-            throw new Error('Model is loading. Please wait a moment and try again.');
-        } else if (errorMessage.includes('rate limit')) {
-            throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        } else {
-            throw new Error(errorMessage);
-        }
-    }
-
-    const data = await response.json();
-    return data;
-}
-
-/**
- * Format Hugging Face response to match expected format
- */
-function formatHuggingFaceResponse(data: any): any {
-    // Hugging Face returns different formats depending on model
-    let text = '';
-    
-    if (Array.isArray(data)) {
-        // Some models return array
-        text = data[0]?.generated_text || data[0]?.text || '';
-    } else if (data.generated_text) {
-        text = data.generated_text;
-    } else if (data[0]?.generated_text) {
-        text = data[0].generated_text;
-    } else if (typeof data === 'string') {
-        text = data;
-    }
-
-    // Format to match expected response structure
-    return {
-        candidates: [{
-            content: {
-                parts: [{
-                    text: text.trim()
-                }]
-            }
-        }]
-    };
-}
+// The builder form uses the same shape as the parser output
+export type ResumeData = ParsedResumeData;
 
 export interface JobDescription {
     title: string;
@@ -123,48 +69,24 @@ export interface QuantifiedMetrics {
  */
 export type SummaryStyle = 'classic' | 'bold' | 'storytelling';
 
+function buildSummaryPrompt(resumeData: ParsedResumeData, style: SummaryStyle): PromptRequest {
+    return promptRequest(`summary-${style}`, {
+        name: resumeData.personalInfo.fullName,
+        experience: resumeData.experience.map(e => `${e.position} at ${e.company}`).join(', '),
+        skills: resumeData.skills.technical.slice(0, 10).join(', '),
+        education: resumeData.education.map(e => e.degree).join(', '),
+    });
+}
+
 export async function generateSummary(
     resumeData: ParsedResumeData,
     style: SummaryStyle = 'classic',
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const stylePrompts = {
-        classic: `Write a classic, professional summary (2-3 sentences, max 150 words) that:
-- Uses traditional professional language
-- Highlights key achievements and experience
-- Mentions relevant skills
-- Is tailored for ATS systems
-- Uses action verbs and quantifiable results
-- Is concise and impactful`,
-        bold: `Write a bold, confident summary (2-3 sentences, max 150 words) that:
-- Uses strong, assertive language
-- Leads with impressive achievements and metrics
-- Demonstrates confidence and expertise
-- Uses power words and action verbs
-- Is ATS-optimized
-- Makes a strong first impression`,
-        storytelling: `Write a compelling, narrative-style summary (2-3 sentences, max 150 words) that:
-- Tells a story about the candidate's journey
-- Connects experience to impact
-- Uses engaging, human language
-- Still includes key skills and achievements
-- Is ATS-friendly but more personable
-- Creates an emotional connection`
-    };
-
-    const prompt = `Generate a ${style} professional summary for this resume:
-
-Name: ${resumeData.personalInfo.fullName}
-Experience: ${resumeData.experience.map(e => `${e.position} at ${e.company}`).join(', ')}
-Skills: ${resumeData.skills.technical.slice(0, 10).join(', ')}
-Education: ${resumeData.education.map(e => e.degree).join(', ')}
-
-${stylePrompts[style]}
-
-Return ONLY the summary text, no explanations or markdown.`;
+    const prompt = buildSummaryPrompt(resumeData, style);
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal, redactor: privacyRedactor([resumeData.personalInfo.fullName]) });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             console.error('Invalid response from Gemini API');
@@ -173,11 +95,29 @@ Return ONLY the summary text, no explanations or markdown.`;
         
         return data.candidates[0].content.parts[0].text.trim() || '';
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error generating summary:', error);
         return '';
     }
 }
 
+/**
+ * Stream a professional summary token by token
+ * Resolves with the full summary; rejects with an AbortError when `signal` is aborted
+ */
+export async function streamSummary(
+    resumeData: ParsedResumeData,
+    style: SummaryStyle,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    return streamGeminiAPI(buildSummaryPrompt(resumeData, style), {
+        onToken,
+        signal,
+        redactor: privacyRedactor([resumeData.personalInfo.fullName]),
+    });
+}
+
 /**
  * 2. Generate/Improve Bullet Points for Experience
  */
@@ -185,27 +125,16 @@ export async function generateBulletPoints(
     position: string,
     company: string,
     currentBullets: string[],
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string[]> {
-    const prompt = `Rewrite these resume bullet points to be more impactful and ATS-friendly:
-
-Position: ${position}
-Company: ${company}
-Current bullets:
-${currentBullets.map(b => `- ${b}`).join('\n')}
-
-Requirements:
-- Use action verbs (Led, Developed, Increased, Reduced, etc.)
-- Include quantifiable metrics (numbers, percentages, dollar amounts)
-- Be specific and concrete
-- Each bullet should be 1-2 lines max
-- Focus on achievements, not just responsibilities
-- Make them compelling for recruiters
-
-Return ONLY a JSON array of strings, each string is one improved bullet point. Example: ["Led team of 5 engineers...", "Increased revenue by 42%..."]`;
+    const prompt = promptRequest('bullets', {
+        position,
+        company,
+        bullets: currentBullets.map(b => `- ${b}`).join('\n'),
+    });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return currentBullets;
@@ -213,17 +142,15 @@ Return ONLY a JSON array of strings, each string is one improved bullet point. E
         
         const text = data.candidates[0].content.parts[0].text.trim() || '';
         
-        // Extract JSON array
-        let jsonText = text;
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+        // Validate the JSON array (one repair re-prompt if it doesn't fit)
+        const { data: bullets, errors } = await resolveStructuredReply(prompt, text, bulletsSchema, { signal });
+        if (!bullets || bullets.length === 0) {
+            console.error('Invalid bullet points from AI:', errors);
+            return currentBullets;
         }
-        
-        const bullets = JSON.parse(jsonText);
-        return Array.isArray(bullets) ? bullets : currentBullets;
+        return bullets;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error generating bullet points:', error);
         return currentBullets;
     }
@@ -372,89 +299,28 @@ export function calculateContentStrength(resumeData: ParsedResumeData): number {
 /**
  * Comprehensive ATS Analysis using Gemini API
  * Replaces puter.js ai.feedback() with Gemini-based analysis
+ * When `resumeData` is given, the AI scores are checked against the local calculateATSScore
  */
 export async function analyzeResumeWithGemini(
     resumeText: string,
     jobDescription: JobDescription,
-    apiKey?: string
+    resumeData?: ParsedResumeData,
+    signal?: AbortSignal
 ): Promise<Feedback | null> {
-    const prompt = `You are an expert ATS (Applicant Tracking System) and resume analyst. Analyze this resume and provide comprehensive feedback.
-
-RESUME TEXT:
-${resumeText}
-
-JOB DESCRIPTION:
-Title: ${jobDescription.title || 'Not provided'}
-Company: ${jobDescription.company || 'Not provided'}
-Description: ${jobDescription.description || 'Not provided'}
-
-Analyze the resume based on:
-1. ATS Compatibility (24-point check: contact info, sections, formatting, keywords, metrics, length)
-2. Keyword Match with Job Description (extract hard skills, soft skills, certifications, tools)
-3. Content Strength (summary quality, experience depth, skills breadth, quantified achievements)
-4. Tone & Style (professional language, action verbs, clarity)
-5. Structure (organization, section headings, flow)
-6. Skills Alignment (match with job requirements)
-
-Provide feedback in this EXACT JSON format:
-{
-  "overallScore": number (0-100, calculated as: 40% Keywords + 30% Formatting + 20% Content Strength + 10% Length),
-  "ATS": {
-    "score": number (0-100, based on 24-point ATS compatibility),
-    "tips": [
-      {
-        "type": "good" | "improve",
-        "tip": "string (short title)"
-      }
-    ]
-  },
-  "toneAndStyle": {
-    "score": number (0-100),
-    "tips": [
-      {
-        "type": "good" | "improve",
-        "tip": "string (short title)",
-        "explanation": "string (detailed explanation)"
-      }
-    ]
-  },
-  "content": {
-    "score": number (0-100),
-    "tips": [
-      {
-        "type": "good" | "improve",
-        "tip": "string (short title)",
-        "explanation": "string (detailed explanation)"
-      }
-    ]
-  },
-  "structure": {
-    "score": number (0-100),
-    "tips": [
-      {
-        "type": "good" | "improve",
-        "tip": "string (short title)",
-        "explanation": "string (detailed explanation)"
-      }
-    ]
-  },
-  "skills": {
-    "score": number (0-100),
-    "tips": [
-      {
-        "type": "good" | "improve",
-        "tip": "string (short title)",
-        "explanation": "string (detailed explanation)"
-      }
-    ]
-  }
-}
+    const action = 'analyzeResumeWithGemini';
+    const prompt = promptRequest('ats-analysis', {
+        resumeText: guardUntrustedInput(resumeText, 'resume', action),
+        jobTitle: guardUntrustedInput(jobDescription.title, 'job-description', action) || 'Not provided',
+        company: guardUntrustedInput(jobDescription.company || '', 'job-description', action) || 'Not provided',
+        jobDescription: guardUntrustedInput(jobDescription.description, 'job-description', action) || 'Not provided',
+    });
 
-Return ONLY valid JSON, no markdown, no code blocks, no explanations.`;
+    // The parsed name (when known) is masked along with the pattern-detected details
+    const redactor = privacyRedactor(resumeData ? [resumeData.personalInfo.fullName] : []);
 
     try {
         console.log('📊 Starting ATS analysis with Hugging Face (NOT puter.com)...');
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal, redactor });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             console.error('Invalid response from Hugging Face API');
@@ -470,93 +336,140 @@ Return ONLY valid JSON, no markdown, no code blocks, no explanations.`;
         
         console.log('✅ ATS analysis completed using Hugging Face');
 
-        // Extract JSON from response
-        let jsonText = content.trim();
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+        // Validate against the Feedback schema: coerces scores and clamps them to 0-100
+        const { data: feedback, errors, repaired } = await resolveStructuredReply(prompt, content, feedbackSchema, { signal, redactor });
+        if (!feedback) {
+            console.error('❌ ATS analysis failed schema validation:', errors);
+            return null;
+        }
+        if (repaired) {
+            console.log('🔧 ATS analysis was repaired after a validation retry');
         }
 
-        const feedback = JSON.parse(jsonText) as Feedback;
-        return feedback;
+        // Keep the template version with the stored feedback so prompt changes can be compared
+        const template: PromptTemplateInfo | undefined = data.promptTemplate;
+        const result: Feedback = {
+            ...feedback,
+            ...(template && { promptVersion: `${template.id}@${template.version}` }),
+            ...(redactor && { privacyMode: true }),
+        };
+
+        if (resumeData) {
+            const localScore = calculateATSScore(resumeData).overall;
+            const issues = checkFeedbackPlausibility(result, localScore);
+            if (issues.length > 0) {
+                console.warn('🛡️ ATS feedback looks manipulated, using the local ATS score instead:', issues);
+                logSecurityEvent('AI_SUSPICIOUS_OUTPUT', 'ATS feedback failed the plausibility check', {
+                    action,
+                    issues,
+                    aiOverallScore: result.overallScore,
+                    localATSScore: localScore,
+                    promptVersion: result.promptVersion,
+                });
+                // The rule-based score can't be talked into a higher number
+                return { ...result, overallScore: localScore, ATS: { ...result.ATS, score: localScore } };
+            }
+        }
+
+        return result;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error analyzing resume with Gemini:', error);
         return null;
     }
 }
 
+export interface FixMyResumeResult {
+    changes: ResumeChange[]; // Proposed edits; nothing is applied until the user accepts them
+    bulletsFailed: number; // Bullets with no proposal because their rewrite failed
+}
+
 /**
- * One-Click "Fix My Resume" - Auto-optimize resume
+ * One-Click "Fix My Resume" - Propose resume optimizations
+ * Returns one change per added skill, the summary and each rewritten bullet for the user to
+ * accept or reject (see applyResumeChanges); rewritten bullets are fact-checked against the
+ * original, so invented metrics come back as placeholders like `[X%]`
  */
 export async function fixMyResume(
     resumeData: ParsedResumeData,
     jobDescription: JobDescription,
     atsScore: ATSScore,
     keywordMatch: { missing: string[] },
-    apiKey?: string
-): Promise<ParsedResumeData> {
+    signal?: AbortSignal
+): Promise<FixMyResumeResult> {
+    const changes: ResumeChange[] = [];
 
-    // Auto-add missing keywords to skills
-    const updatedSkills = { ...resumeData.skills };
+    // Propose missing keywords as skills
+    const technicalKeywords = ['javascript', 'python', 'react', 'node', 'aws', 'docker', 'sql', 'api', 'git', 'linux', 'typescript', 'java'];
     keywordMatch.missing.slice(0, 5).forEach(skill => {
-        const technicalKeywords = ['javascript', 'python', 'react', 'node', 'aws', 'docker', 'sql', 'api', 'git', 'linux', 'typescript', 'java'];
-        const isTechnical = technicalKeywords.some(kw => skill.toLowerCase().includes(kw));
-        
-        if (isTechnical && !updatedSkills.technical.includes(skill)) {
-            updatedSkills.technical.push(skill);
-        } else if (!isTechnical && !updatedSkills.soft.includes(skill)) {
-            updatedSkills.soft.push(skill);
+        const category = technicalKeywords.some(kw => skill.toLowerCase().includes(kw)) ? 'technical' : 'soft';
+        if (!resumeData.skills[category].includes(skill)) {
+            changes.push({
+                id: `skill-${category}-${skill}`,
+                target: { kind: 'skill', category },
+                label: category === 'technical' ? 'Technical skills' : 'Soft skills',
+                before: '',
+                after: skill,
+                warnings: [],
+            });
         }
     });
 
     // Improve summary if needed
-    let improvedSummary = resumeData.summary;
     if (atsScore.sections.keywords < 70 && resumeData.summary) {
-        const prompt = `Improve this resume summary to include more ATS-friendly keywords while keeping it natural:
-
-Original: "${resumeData.summary}"
-
-Missing keywords to incorporate: ${keywordMatch.missing.slice(0, 5).join(', ')}
-
-Return ONLY the improved summary, no explanations.`;
+        const keywords = keywordMatch.missing.slice(0, 5).join(', ');
+        const prompt = promptRequest('summary-keywords', {
+            summary: resumeData.summary,
+            keywords,
+        });
         
         try {
-            const data = await callGeminiAPI(prompt);
-            if (data.candidates?.[0]?.content?.parts?.[0]?.text) {
-                improvedSummary = data.candidates[0].content.parts[0].text.trim() || resumeData.summary;
+            const data = await callGeminiAPI(prompt, { signal });
+            const improved = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+            if (improved && improved !== resumeData.summary) {
+                // The requested keywords are meant to be new, so they don't count as invented
+                const guarded = guardRewrite(`${resumeData.summary}\n${keywords}`, improved);
+                changes.push({
+                    id: 'summary',
+                    target: { kind: 'summary' },
+                    label: 'Summary',
+                    before: resumeData.summary,
+                    after: guarded.text,
+                    warnings: describeRewriteWarnings(guarded),
+                });
             }
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error('Error improving summary:', error);
         }
     }
 
-    // Improve experience bullets that lack metrics
-    const improvedExperience = await Promise.all(
-        resumeData.experience.map(async (exp) => {
-            const improvedDescriptions = await Promise.all(
-                exp.description.map(async (desc) => {
-                    // If bullet lacks metrics, try to add them
-                    if (!/\d+/.test(desc) && desc.trim()) {
-                        try {
-                            const quantified = await quantifyAchievement(desc);
-                            return quantified;
-                        } catch (error) {
-                            return desc;
-                        }
-                    }
-                    return desc;
-                })
-            );
-            return { ...exp, description: improvedDescriptions };
-        })
+    // Improve experience bullets that lack metrics, in one batch instead of a request per bullet
+    const unquantified = resumeData.experience.flatMap((exp, expIndex) =>
+        exp.description
+            .map((desc, descIndex) => ({ expIndex, descIndex, desc }))
+            .filter(({ desc }) => !/\d+/.test(desc) && desc.trim())
     );
+    const quantified = await rewriteTexts(unquantified.map(({ desc }) => desc), 'quantify', signal);
+
+    unquantified.forEach(({ expIndex, descIndex, desc }, index) => {
+        const result = quantified[index];
+        if (result.ok && result.text !== desc) {
+            const exp = resumeData.experience[expIndex];
+            changes.push({
+                id: `bullet-${expIndex}-${descIndex}`,
+                target: { kind: 'bullet', expIndex, descIndex },
+                label: `${[exp.position, exp.company].filter(Boolean).join(' at ')}, bullet ${descIndex + 1}`,
+                before: desc,
+                after: result.text,
+                warnings: result.warnings,
+            });
+        }
+    });
 
     return {
-        ...resumeData,
-        summary: improvedSummary,
-        skills: updatedSkills,
-        experience: improvedExperience,
+        changes,
+        bulletsFailed: quantified.filter(result => !result.ok).length,
     };
 }
 
@@ -843,75 +756,74 @@ export function calculateATSScore(resumeData: ParsedResumeData): ATSScore {
 /**
  * 5. Generate Cover Letter from Resume Data
  */
+function buildCoverLetterPrompt(resumeData: ParsedResumeData, jobDescription: JobDescription): PromptRequest {
+    const resume = (text: string) => guardUntrustedInput(text, 'resume', 'generateCoverLetter');
+    const job = (text: string) => guardUntrustedInput(text, 'job-description', 'generateCoverLetter');
+
+    return promptRequest('cover-letter', {
+        name: resume(resumeData.personalInfo.fullName),
+        summary: resume(resumeData.summary),
+        experience: resume(resumeData.experience.map(e => `${e.position} at ${e.company} (${e.startDate} - ${e.endDate})`).join('\n')),
+        skills: resume(resumeData.skills.technical.join(', ')),
+        education: resume(resumeData.education.map(e => `${e.degree} from ${e.school}`).join(', ')),
+        jobTitle: job(jobDescription.title),
+        company: job(jobDescription.company || '') || 'Company',
+        jobDescription: job(jobDescription.description),
+    });
+}
+
 export async function generateCoverLetter(
     resumeData: ParsedResumeData,
     jobDescription: JobDescription,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Write a professional cover letter based on this resume and job description:
-
-RESUME:
-Name: ${resumeData.personalInfo.fullName}
-Summary: ${resumeData.summary}
-Experience: ${resumeData.experience.map(e => `${e.position} at ${e.company} (${e.startDate} - ${e.endDate})`).join('\n')}
-Skills: ${resumeData.skills.technical.join(', ')}
-Education: ${resumeData.education.map(e => `${e.degree} from ${e.school}`).join(', ')}
-
-JOB DESCRIPTION:
-Title: ${jobDescription.title}
-Company: ${jobDescription.company || 'Company'}
-Description: ${jobDescription.description}
-
-Requirements:
-- 3-4 paragraphs, professional tone
-- Address the hiring manager (use "Dear Hiring Manager" if name unknown)
-- First paragraph: Express interest and mention the position
-- Second paragraph: Highlight relevant experience and achievements
-- Third paragraph: Connect your skills to job requirements
-- Closing: Express enthusiasm and request for interview
-- Sign off with "Sincerely" and the candidate's name
-- Keep it concise (300-400 words)
-
-Return ONLY the cover letter text, no explanations or markdown.`;
+    const prompt = buildCoverLetterPrompt(resumeData, jobDescription);
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal, redactor: privacyRedactor([resumeData.personalInfo.fullName]) });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             console.error('Invalid response from Gemini API');
             return '';
         }
         
-        return data.candidates[0].content.parts[0].text.trim() || '';
+        return checkGeneratedText(data.candidates[0].content.parts[0].text.trim() || '', 'generateCoverLetter');
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error generating cover letter:', error);
         return '';
     }
 }
 
+/**
+ * Stream a cover letter token by token
+ * Resolves with the full letter; rejects with an AbortError when `signal` is aborted
+ */
+export async function streamCoverLetter(
+    resumeData: ParsedResumeData,
+    jobDescription: JobDescription,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    const letter = await streamGeminiAPI(buildCoverLetterPrompt(resumeData, jobDescription), {
+        onToken,
+        signal,
+        redactor: privacyRedactor([resumeData.personalInfo.fullName]),
+    });
+    return checkGeneratedText(letter, 'streamCoverLetter');
+}
+
 /**
  * 6. Improve Grammar, Tone & Readability
  */
 export async function improveText(
     text: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Improve this resume text for grammar, tone, and readability. Make it more professional and ATS-friendly:
-
-${text}
-
-Requirements:
-- Fix any grammar or spelling errors
-- Improve sentence structure and flow
-- Remove repetitive words
-- Use stronger action verbs
-- Make it more concise and impactful
-- Maintain the original meaning
-
-Return ONLY the improved text, no explanations.`;
+    const prompt = promptRequest('improve-text', { text });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return text;
@@ -919,6 +831,7 @@ Return ONLY the improved text, no explanations.`;
         
         return data.candidates[0].content.parts[0].text.trim() || text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error improving text:', error);
         return text;
     }
@@ -926,63 +839,82 @@ Return ONLY the improved text, no explanations.`;
 
 /**
  * 7. Quantify and Improve Achievement Bullets
+ * Metrics the original doesn't contain come back as placeholders (`[X%]`, `[$X]`, `[X]`)
+ * for the user to fill in
  */
 export async function quantifyAchievement(
     achievement: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Rewrite this resume achievement to be more impactful with quantifiable metrics:
-
-Original: "${achievement}"
-
-Requirements:
-- Add specific numbers, percentages, or dollar amounts if possible
-- Use strong action verbs
-- Be specific about impact and results
-- Keep it concise (1-2 lines)
-- Make it compelling for recruiters
-
-If the achievement already has numbers, improve the wording while keeping the metrics.
-
-Return ONLY the improved achievement text, no explanations.`;
+    const prompt = promptRequest('quantify-achievement', { achievement });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return achievement;
         }
         
-        return data.candidates[0].content.parts[0].text.trim() || achievement;
+        const quantified = data.candidates[0].content.parts[0].text.trim();
+        return quantified ? guardRewrite(achievement, quantified).text : achievement;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error quantifying achievement:', error);
         return achievement;
     }
 }
 
+export type RewriteResult =
+    | { ok: true; text: string; warnings: string[] }
+    | { ok: false; error: string; code?: AIErrorCode };
+
+/**
+ * Run one rewrite over many texts through /api/ai/batch, AI_BATCH_MAX_ITEMS per request
+ * Resolves with a result or an error for every text, in order; a batch the server refuses
+ * (rate limit, quota) reports its error on each of its items. Rejects with an AbortError when
+ * `signal` is aborted
+ * Each rewrite is fact-checked against its text: invented numbers become placeholders and
+ * `warnings` lists what the reviewer should check
+ */
+export async function rewriteTexts(
+    texts: string[],
+    operation: RewriteMode,
+    signal?: AbortSignal
+): Promise<RewriteResult[]> {
+    const results: RewriteResult[] = [];
+
+    for (let start = 0; start < texts.length; start += AI_BATCH_MAX_ITEMS) {
+        const items = texts.slice(start, start + AI_BATCH_MAX_ITEMS);
+        try {
+            const response = await callAIBatch({ operation, items }, signal);
+            results.push(...response.results.map((result, index): RewriteResult => {
+                if (!result.ok) return result;
+                const guarded = guardRewrite(items[index], result.text);
+                return { ok: true, text: guarded.text, warnings: describeRewriteWarnings(guarded) };
+            }));
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            console.error(`Error in batch ${operation}:`, error);
+            const message = error instanceof Error ? error.message : 'Batch request failed';
+            const code = error instanceof AIRequestError ? error.code as AIErrorCode | undefined : undefined;
+            results.push(...items.map((): RewriteResult => ({ ok: false, error: message, code })));
+        }
+    }
+
+    return results;
+}
+
 /**
  * 8. Make Text Stronger - Use power words and action verbs
  */
 export async function makeStronger(
     text: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Rewrite this resume text to be stronger and more impactful:
-
-Original: "${text}"
-
-Requirements:
-- Replace weak verbs with powerful action verbs (e.g., "led" → "spearheaded", "helped" → "orchestrated")
-- Use confident, assertive language
-- Remove filler words and weak phrases
-- Make achievements sound more impressive
-- Keep the same meaning but with stronger impact
-- Maintain ATS-friendly language
-
-Return ONLY the rewritten text, no explanations.`;
+    const prompt = promptRequest('make-stronger', { text });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return text;
@@ -990,6 +922,7 @@ Return ONLY the rewritten text, no explanations.`;
         
         return data.candidates[0].content.parts[0].text.trim() || text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error making text stronger:', error);
         return text;
     }
@@ -1000,24 +933,12 @@ Return ONLY the rewritten text, no explanations.`;
  */
 export async function shortenText(
     text: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Make this resume text more concise while keeping all important information:
-
-Original: "${text}"
-
-Requirements:
-- Reduce word count by 20-30% without losing key information
-- Remove redundant words and phrases
-- Keep all important achievements, metrics, and skills
-- Maintain professional tone
-- Make it punchier and more impactful
-- Keep ATS-friendly keywords
-
-Return ONLY the shortened text, no explanations.`;
+    const prompt = promptRequest('shorten-text', { text });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return text;
@@ -1025,6 +946,7 @@ Return ONLY the shortened text, no explanations.`;
         
         return data.candidates[0].content.parts[0].text.trim() || text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error shortening text:', error);
         return text;
     }
@@ -1035,24 +957,12 @@ Return ONLY the shortened text, no explanations.`;
  */
 export async function humanizeText(
     text: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<string> {
-    const prompt = `Rewrite this resume text to be more natural, personable, and human while remaining professional:
-
-Original: "${text}"
-
-Requirements:
-- Make it sound less robotic and more authentic
-- Use natural language flow
-- Add personality while staying professional
-- Make it engaging and relatable
-- Keep all important information and achievements
-- Still maintain ATS compatibility
-
-Return ONLY the humanized text, no explanations.`;
+    const prompt = promptRequest('humanize-text', { text });
 
     try {
-        const data = await callGeminiAPI(prompt);
+        const data = await callGeminiAPI(prompt, { signal });
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
             return text;
@@ -1060,6 +970,7 @@ Return ONLY the humanized text, no explanations.`;
         
         return data.candidates[0].content.parts[0].text.trim() || text;
     } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Error humanizing text:', error);
         return text;
     }
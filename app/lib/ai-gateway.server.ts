@@ -0,0 +1,304 @@
+/**
+ * Core of the /api/ai proxy, shared by the route and by server-side callers
+ * Resolves a request body (raw `prompt` or registry `template`) to a prompt, sends it to the
+ * configured provider and shapes the reply: JSON through the cache, or server-sent events
+ * when `stream` is set. Per-client limits are applied by the caller, not here.
+ */
+
+import { generateWithCache } from './ai-cache.server';
+import { AI_FEATURES, type AIFeature, type AITransport } from './ai-client';
+import { AIProviderError, getAIProvider, type AIGenerateRequest, type AIProvider } from './ai-providers.server';
+import { formatModelTarget, type AIModelTarget } from './ai-routing';
+import { getAIRoute } from './ai-routing.server';
+import { recordAICall } from './ai-telemetry.server';
+import type { AIUsageRecord } from './ai-usage';
+import { renderPromptRequest } from './prompt-registry.server';
+import type { PromptTemplateInfo } from './prompts';
+import { formatSSEEvent } from './sse';
+
+// Telemetry fields known before the call; the outcome fields are added when it finishes
+type AICallInfo = Omit<AIUsageRecord, 'completionChars' | 'latencyMs' | 'status' | 'errorCode' | 'cached'>;
+
+export interface ResolvedPrompt {
+    prompt: string;
+    feature: AIFeature; // Quota bucket the request counts against
+    templateInfo?: PromptTemplateInfo;
+}
+
+/**
+ * Render the body's template (or take its raw prompt) and work out the quota bucket
+ * Raw prompts are only taken from `trusted` callers (in-process server code and admins):
+ * from anyone else they would turn the proxy into an open relay with a quota bucket of their choice
+ * Throws a 400 AIProviderError when there is nothing to send
+ */
+export function resolvePrompt(body: any, trusted: boolean = false): ResolvedPrompt {
+    if (body?.template === undefined) {
+        if (!trusted) {
+            throw new AIProviderError('Send a prompt `template` with its `variables`; raw prompts are not accepted', 400, 'INVALID_REQUEST');
+        }
+        if (!body?.prompt || typeof body.prompt !== 'string') {
+            throw new AIProviderError('Prompt is required', 400);
+        }
+        return { prompt: body.prompt, feature: AI_FEATURES.includes(body.feature) ? body.feature : 'rewrite' };
+    }
+
+    // Templates decide their own quota bucket so clients can't pick a cheaper one
+    const { prompt, feature, templateInfo } = renderPromptRequest(body.template, body.variables, body.repair);
+    console.log(`🧩 Prompt template ${templateInfo.id}@${templateInfo.version} (${templateInfo.source})`);
+    return { prompt, feature, templateInfo };
+}
+
+/**
+ * Generate the reply for a resolved request
+ * The request's route (see ai-routing.ts) supplies the model targets, temperature and max tokens;
+ * an explicit `provider`/`model` or parameter in the body wins. When a target fails, the next one
+ * is tried - for streams, only until the first chunk has been sent.
+ * `signal` cancels the upstream call; `extraHeaders` (e.g. X-RateLimit-*) are added to the response
+ */
+export async function respondWithAI(
+    body: any,
+    { prompt, feature, templateInfo }: ResolvedPrompt,
+    signal: AbortSignal,
+    extraHeaders: Record<string, string> = {}
+): Promise<Response> {
+    const { model, provider: providerName, stream, noCache } = body;
+
+    const route = getAIRoute(feature, templateInfo?.id);
+    const targets = resolveTargets(providerName || model ? [{ provider: providerName, model }] : route.targets);
+    const generation = {
+        prompt,
+        temperature: body.temperature ?? route.temperature,
+        maxTokens: body.maxTokens ?? route.maxTokens,
+        template: templateInfo?.id,
+        feature,
+    };
+    const routeHeaders = { ...extraHeaders, "X-AI-Route": route.route };
+
+    console.log(`🚀 Server: Calling ${targets.map(describeTarget).join(' → ')} for ${feature} (route ${route.route})${stream ? ' (streaming)' : ''}`);
+
+    const callInfoFor = (target: ProviderTarget): AICallInfo => ({
+        timestamp: new Date().toISOString(),
+        feature,
+        template: templateInfo ? `${templateInfo.id}@${templateInfo.version}` : undefined,
+        provider: target.provider.name,
+        model: target.model || target.provider.defaultModel,
+        promptChars: prompt.length,
+        streamed: Boolean(stream),
+    });
+
+    if (stream) {
+        return streamResponse(targets, generation, signal, routeHeaders, callInfoFor, templateInfo);
+    }
+
+    for (const [index, target] of targets.entries()) {
+        const callInfo = callInfoFor(target);
+        const startedAt = Date.now();
+
+        let outcome: Awaited<ReturnType<typeof generateWithCache>>;
+        try {
+            outcome = await generateWithCache(
+                target.provider,
+                { ...generation, model: target.model, signal },
+                Boolean(noCache)
+            );
+        } catch (error) {
+            recordAICall({ ...callInfo, ...failureStatus(error), completionChars: 0, latencyMs: Date.now() - startedAt, cached: false });
+            if (index === targets.length - 1 || !canFallBack(error, signal)) throw error;
+            logFallback(target, targets[index + 1], error);
+            continue;
+        }
+        const { result, cacheStatus } = outcome;
+
+        recordAICall({
+            ...callInfo,
+            status: 200,
+            completionChars: result.candidates[0]?.content.parts[0]?.text?.length ?? 0,
+            latencyMs: Date.now() - startedAt,
+            cached: cacheStatus === 'HIT',
+        });
+
+        return new Response(
+            JSON.stringify(templateInfo ? { ...result, promptTemplate: templateInfo } : result),
+            {
+                status: 200,
+                headers: {
+                    ...routeHeaders,
+                    ...templateHeaders(templateInfo),
+                    "Content-Type": "application/json",
+                    "X-AI-Provider": target.provider.name,
+                    "X-AI-Cache": cacheStatus,
+                }
+            }
+        );
+    }
+
+    // Unreachable: routes always have at least one target, and the last failure is rethrown
+    throw new AIProviderError('No AI model is configured for this request', 500);
+}
+
+/**
+ * In-process transport for server code that uses the client helpers (see setAITransport)
+ * Skips the per-client limits, so the calling route must apply checkAILimits itself
+ */
+export const serverAITransport: AITransport = async (body, signal) => {
+    try {
+        return await respondWithAI(body, resolvePrompt(body, true), signal ?? new AbortController().signal);
+    } catch (error: any) {
+        return errorResponse(error, {});
+    }
+};
+
+interface ProviderTarget {
+    provider: AIProvider;
+    model?: string;
+}
+
+function resolveTargets(targets: AIModelTarget[]): ProviderTarget[] {
+    return targets.map(target => ({ provider: getAIProvider(target.provider), model: target.model }));
+}
+
+function describeTarget(target: ProviderTarget): string {
+    return formatModelTarget({ provider: target.provider.name, model: target.model || target.provider.defaultModel });
+}
+
+/**
+ * Another model is worth trying unless the client has gone away
+ */
+function canFallBack(error: unknown, signal: AbortSignal): boolean {
+    return !signal.aborted && !(error instanceof AIProviderError && error.code === 'ABORTED');
+}
+
+function logFallback(failed: ProviderTarget, next: ProviderTarget, error: any): void {
+    console.warn(`↪️ ${describeTarget(failed)} failed (${error?.message || error}); falling back to ${describeTarget(next)}`);
+}
+
+function failureStatus(error: unknown): Pick<AIUsageRecord, 'status' | 'errorCode'> {
+    return error instanceof AIProviderError ? { status: error.status, errorCode: error.code } : { status: 500 };
+}
+
+function templateHeaders(templateInfo?: PromptTemplateInfo): Record<string, string> {
+    return templateInfo ? { "X-AI-Prompt-Template": `${templateInfo.id}@${templateInfo.version}` } : {};
+}
+
+/**
+ * JSON error body with the typed `code` and `retryAfter` of an AIProviderError
+ */
+export function errorResponse(error: any, extraHeaders: Record<string, string>): Response {
+    const providerError = error instanceof AIProviderError ? error : null;
+    const headers: Record<string, string> = { ...extraHeaders, "Content-Type": "application/json" };
+    if (providerError?.retryAfter !== undefined) {
+        headers["Retry-After"] = String(providerError.retryAfter);
+    }
+    return new Response(
+        JSON.stringify({
+            error: error.message || 'Internal server error',
+            code: providerError?.code,
+            retryAfter: providerError?.retryAfter,
+        }),
+        {
+            status: providerError?.status ?? 500,
+            headers
+        }
+    );
+}
+
+/**
+ * Stream the reply as server-sent events:
+ * `data: {"text": "..."}` per chunk, then `event: done`, or `event: error` if the provider fails
+ * A target that fails before its first chunk falls back to the next one; after that the error is sent
+ * Generation stops when the request is aborted or the client cancels the response body
+ */
+function streamResponse(
+    targets: ProviderTarget[],
+    generation: Omit<AIGenerateRequest, 'model' | 'signal'>,
+    requestSignal: AbortSignal,
+    extraHeaders: Record<string, string>,
+    callInfoFor: (target: ProviderTarget) => AICallInfo,
+    templateInfo?: PromptTemplateInfo
+): Response {
+    const encoder = new TextEncoder();
+    const bodyCancelled = new AbortController();
+    const signal = AbortSignal.any([requestSignal, bodyCancelled.signal]);
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            for (const [index, target] of targets.entries()) {
+                const callInfo = callInfoFor(target);
+                const streamRequest = { ...generation, model: target.model, signal };
+                const startedAt = Date.now();
+                let completionChars = 0;
+                let sentChunk = false;
+                let failure: Pick<AIUsageRecord, 'status' | 'errorCode'> | null = null;
+                let fallingBack = false;
+
+                try {
+                    if (target.provider.stream) {
+                        for await (const text of target.provider.stream(streamRequest)) {
+                            if (signal.aborted) break;
+                            completionChars += text.length;
+                            sentChunk = true;
+                            controller.enqueue(encoder.encode(formatSSEEvent({ text })));
+                        }
+                    } else {
+                        // Provider cannot stream - send the whole reply as one chunk
+                        const result = await target.provider.generate(streamRequest);
+                        const text = result.candidates[0]?.content.parts[0]?.text || '';
+                        completionChars = text.length;
+                        controller.enqueue(encoder.encode(formatSSEEvent({ text })));
+                    }
+                    if (!signal.aborted) {
+                        controller.enqueue(encoder.encode(formatSSEEvent(templateInfo ? { promptTemplate: templateInfo } : {}, 'done')));
+                    }
+                } catch (error: any) {
+                    if (signal.aborted) {
+                        console.log('⏹️ Client cancelled the AI stream');
+                    } else {
+                        failure = failureStatus(error);
+                        fallingBack = !sentChunk && index < targets.length - 1 && canFallBack(error, signal);
+                        if (fallingBack) {
+                            logFallback(target, targets[index + 1], error);
+                        } else {
+                            console.error('Error while streaming AI response:', error);
+                            controller.enqueue(encoder.encode(formatSSEEvent({
+                                error: error.message || 'Internal server error',
+                                code: error instanceof AIProviderError ? error.code : undefined,
+                                retryAfter: error instanceof AIProviderError ? error.retryAfter : undefined,
+                            }, 'error')));
+                        }
+                    }
+                } finally {
+                    recordAICall({
+                        ...callInfo,
+                        ...(failure ?? { status: signal.aborted ? 499 : 200 }),
+                        completionChars,
+                        latencyMs: Date.now() - startedAt,
+                        cached: false,
+                    });
+                }
+
+                if (!fallingBack) break;
+            }
+
+            if (!bodyCancelled.signal.aborted) {
+                controller.close();
+            }
+        },
+        cancel() {
+            bodyCancelled.abort();
+        },
+    });
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            ...extraHeaders,
+            ...templateHeaders(templateInfo),
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            // The primary target; a fallback may end up serving the stream
+            "X-AI-Provider": targets[0].provider.name,
+            "X-AI-Cache": "BYPASS",
+        },
+    });
+}
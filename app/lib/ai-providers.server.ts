@@ -0,0 +1,445 @@
+/**
+ * Pluggable LLM providers used by the /api/ai proxy
+ * Every provider maps its output to the Gemini-style
+ * `candidates[0].content.parts[0].text` shape the client helpers already read.
+ */
+
+import type { AIFeature } from './ai-client';
+import { AIProviderError } from './ai-errors';
+import { generateFakeResponse } from './ai-fake.server';
+import { fetchWithRetry } from './ai-resilience.server';
+import type { PromptId } from './prompts';
+import { readSSEEvents } from './sse';
+
+export { AIProviderError } from './ai-errors';
+
+export type AIProviderName = 'huggingface' | 'gemini' | 'openai-compatible' | 'fake';
+
+export interface AIGenerateRequest {
+    prompt: string;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal; // Aborted when the client disconnects; cancels the upstream request
+    template?: PromptId; // Registry template the prompt was rendered from, if any
+    feature?: AIFeature; // Quota bucket of the request
+}
+
+export interface AICandidatesResponse {
+    candidates: Array<{
+        content: {
+            parts: Array<{ text: string }>;
+        };
+    }>;
+}
+
+export interface AIProvider {
+    name: AIProviderName;
+    defaultModel: string;
+    generate(request: AIGenerateRequest): Promise<AICandidatesResponse>;
+    /** Yields text deltas as they arrive; providers without it are streamed as a single chunk */
+    stream?(request: AIGenerateRequest): AsyncIterable<string>;
+    /** Problem with the provider's environment (e.g. a missing API key), checked at startup */
+    configurationWarning?(): string | undefined;
+}
+
+const DEFAULT_MAX_TOKENS = 4000; // Enough for full resume parsing
+const DEFAULT_TEMPERATURE = 0.1; // Low temperature for accurate extraction
+
+/**
+ * Wrap plain text in the Gemini response structure
+ */
+export function toCandidatesResponse(text: string): AICandidatesResponse {
+    return {
+        candidates: [{
+            content: {
+                parts: [{
+                    text: text.trim()
+                }]
+            }
+        }]
+    };
+}
+
+/**
+ * Pull the generated text out of an OpenAI-compatible (or legacy HF inference) response
+ */
+function extractChatCompletionText(data: any): string {
+    if (data?.choices && data.choices[0] && data.choices[0].message) {
+        // OpenAI-compatible format
+        return data.choices[0].message.content || '';
+    } else if (Array.isArray(data)) {
+        // Some models return an array
+        return data[0]?.generated_text || data[0]?.text || '';
+    } else if (data?.generated_text) {
+        // Old inference API format
+        return data.generated_text;
+    } else if (typeof data === 'string') {
+        return data;
+    }
+    return '';
+}
+
+/**
+ * POST a chat completion request to an OpenAI-compatible endpoint
+ * Transient failures are retried (see ai-resilience.server.ts)
+ */
+async function callChatCompletions(
+    providerName: AIProviderName,
+    url: string,
+    headers: Record<string, string>,
+    request: AIGenerateRequest,
+    model: string,
+    stream: boolean = false
+): Promise<Response> {
+    return fetchWithRetry(providerName, url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...headers,
+        },
+        body: JSON.stringify({
+            model,
+            messages: [
+                {
+                    role: 'user',
+                    content: request.prompt
+                }
+            ],
+            max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+            stream,
+        }),
+        signal: request.signal,
+    });
+}
+
+/**
+ * Yield the content deltas of a streamed OpenAI-compatible chat completion
+ */
+async function* readChatCompletionStream(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+
+    for await (const { data } of readSSEEvents(response.body)) {
+        if (data === '[DONE]') return;
+        try {
+            const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+        } catch {
+            // Ignore keep-alive or malformed chunks
+        }
+    }
+}
+
+const HF_API_URL = 'https://router.huggingface.co/v1/chat/completions';
+
+function getHuggingFaceHeaders(): Record<string, string> {
+    const hfToken = process.env.HUGGINGFACE_API_KEY || process.env.VITE_HUGGINGFACE_API_KEY;
+
+    if (!hfToken) {
+        console.warn('⚠️ Hugging Face API key not found. Using public access (lower rate limits).');
+        return {};
+    }
+
+    return { 'Authorization': `Bearer ${hfToken}` };
+}
+
+/**
+ * Hugging Face router (OpenAI-compatible chat completions)
+ */
+const huggingFaceProvider: AIProvider = {
+    name: 'huggingface',
+    // Meta-Llama-3-8B-Instruct - Most stable + best for resume apps
+    defaultModel: 'meta-llama/Meta-Llama-3-8B-Instruct',
+
+    configurationWarning() {
+        return process.env.HUGGINGFACE_API_KEY || process.env.VITE_HUGGINGFACE_API_KEY
+            ? undefined
+            : 'HUGGINGFACE_API_KEY is not set; public access has lower rate limits';
+    },
+
+    async generate(request) {
+        const model = request.model || this.defaultModel;
+        const headers = getHuggingFaceHeaders();
+        console.log('🔗 Calling Hugging Face API:', HF_API_URL);
+        console.log('📝 Model:', model);
+
+        // Model loading (503), rate limits and 5xx are retried with backoff
+        const response = await callChatCompletions('huggingface', HF_API_URL, headers, request, model);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('❌ Hugging Face API error:', {
+                status: response.status,
+                statusText: response.statusText,
+                url: HF_API_URL,
+                error: errorText
+            });
+            throw new AIProviderError(`Hugging Face API error: ${errorText}`, response.status);
+        }
+
+        const data = await response.json();
+        return toCandidatesResponse(extractChatCompletionText(data));
+    },
+
+    async *stream(request) {
+        const model = request.model || this.defaultModel;
+        console.log('🔗 Streaming from Hugging Face API, model:', model);
+
+        const response = await callChatCompletions('huggingface', HF_API_URL, getHuggingFaceHeaders(), request, model, true);
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('❌ Hugging Face streaming error:', { status: response.status, error: errorText });
+            throw new AIProviderError(`Hugging Face API error: ${errorText}`, response.status);
+        }
+
+        yield* readChatCompletionStream(response);
+    },
+};
+
+function getOpenAICompatibleTarget(): { url: string; headers: Record<string, string> } {
+    const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1';
+    const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY;
+
+    return {
+        url: `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    };
+}
+
+/**
+ * Any OpenAI-compatible server, e.g. a local llama.cpp or Ollama instance
+ */
+const openAICompatibleProvider: AIProvider = {
+    name: 'openai-compatible',
+    defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3',
+
+    async generate(request) {
+        const { url, headers } = getOpenAICompatibleTarget();
+        const model = request.model || this.defaultModel;
+        console.log('🔗 Calling OpenAI-compatible API:', url);
+        console.log('📝 Model:', model);
+
+        const response = await callChatCompletions('openai-compatible', url, headers, request, model);
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('❌ OpenAI-compatible API error:', {
+                status: response.status,
+                statusText: response.statusText,
+                url,
+                error: errorText
+            });
+            throw new AIProviderError(`OpenAI-compatible API error: ${errorText}`, response.status);
+        }
+
+        const data = await response.json();
+        return toCandidatesResponse(extractChatCompletionText(data));
+    },
+
+    async *stream(request) {
+        const { url, headers } = getOpenAICompatibleTarget();
+        const model = request.model || this.defaultModel;
+        console.log('🔗 Streaming from OpenAI-compatible API:', url);
+
+        const response = await callChatCompletions('openai-compatible', url, headers, request, model, true);
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('❌ OpenAI-compatible streaming error:', { status: response.status, error: errorText });
+            throw new AIProviderError(`OpenAI-compatible API error: ${errorText}`, response.status);
+        }
+
+        yield* readChatCompletionStream(response);
+    },
+};
+
+/**
+ * POST a prompt to the Gemini API (`generateContent` or `streamGenerateContent`)
+ * Throws an AIProviderError for non-2xx responses
+ */
+async function callGemini(
+    request: AIGenerateRequest,
+    model: string,
+    method: 'generateContent' | 'streamGenerateContent'
+): Promise<Response> {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.VITE_GEMINI_API_KEY;
+
+    if (!apiKey) {
+        console.error('❌ Gemini API key not found in environment variables');
+        console.error('💡 Make sure you have GEMINI_API_KEY or VITE_GEMINI_API_KEY in your .env file');
+        throw new AIProviderError('Gemini API key not configured on server. Check server console for details.', 500);
+    }
+
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+    const response = await fetchWithRetry(
+        'gemini',
+        `https://generativelanguage.googleapis.com/v1/models/${model}:${method}?${query}`,
+        {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                contents: [
+                    {
+                        parts: [
+                            {
+                                text: request.prompt,
+                            },
+                        ],
+                    },
+                ],
+                generationConfig: {
+                    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+                    maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+                },
+            }),
+            signal: request.signal,
+        }
+    );
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        let errorData;
+        try {
+            errorData = JSON.parse(errorText);
+        } catch {
+            errorData = { error: { message: errorText } };
+        }
+
+        const errorMessage = errorData.error?.message || errorText || 'Unknown error';
+
+        // Leaked keys are rejected permanently, so tell the operator how to fix it
+        if (errorMessage.toLowerCase().includes('leaked')) {
+            console.error('❌ Gemini API Key Error: Your API key was reported as leaked.');
+            console.error('🔑 Please get a new API key from: https://makersuite.google.com/app/apikey');
+            console.error('📝 Update your .env file with: GEMINI_API_KEY=your_new_key');
+            throw new AIProviderError(
+                'API Key Error: Please get a new Gemini API key and update your .env file. Check server console for details.',
+                403,
+                'LEAKED_KEY'
+            );
+        }
+
+        console.error('Gemini API Error:', {
+            status: response.status,
+            statusText: response.statusText,
+            error: errorMessage,
+        });
+        throw new AIProviderError(errorMessage, response.status);
+    }
+
+    return response;
+}
+
+function extractGeminiText(data: any): string {
+    const parts: Array<{ text?: string }> = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || '').join('');
+}
+
+/**
+ * Google Gemini generateContent API
+ */
+const geminiProvider: AIProvider = {
+    name: 'gemini',
+    defaultModel: 'gemini-2.5-pro',
+
+    configurationWarning() {
+        return process.env.GEMINI_API_KEY || process.env.VITE_GEMINI_API_KEY
+            ? undefined
+            : 'GEMINI_API_KEY is not set; every request will fail';
+    },
+
+    async generate(request) {
+        const model = request.model || this.defaultModel;
+        console.log('🔗 Calling Gemini API, model:', model);
+
+        const response = await callGemini(request, model, 'generateContent');
+        const data = await response.json();
+        return toCandidatesResponse(extractGeminiText(data));
+    },
+
+    async *stream(request) {
+        const model = request.model || this.defaultModel;
+        console.log('🔗 Streaming from Gemini API, model:', model);
+
+        const response = await callGemini(request, model, 'streamGenerateContent');
+        if (!response.body) return;
+
+        for await (const { data } of readSSEEvents(response.body)) {
+            try {
+                const text = extractGeminiText(JSON.parse(data));
+                if (text) yield text;
+            } catch {
+                // Ignore malformed chunks
+            }
+        }
+    },
+};
+
+/**
+ * Deterministic offline provider for development and demos - never touches the network
+ * Replies are built from fixtures for the request's template or feature (see ai-fake.server.ts)
+ */
+const fakeProvider: AIProvider = {
+    name: 'fake',
+    defaultModel: 'fake-model',
+
+    async generate(request) {
+        if (request.signal?.aborted) {
+            throw new AIProviderError('fake request was cancelled by the client', 499, 'ABORTED');
+        }
+        return toCandidatesResponse(generateFakeResponse(request));
+    },
+
+    async *stream(request) {
+        // Emit word by word so streaming UIs can be exercised offline
+        const words = generateFakeResponse(request).match(/\S+\s*/g) || [];
+        for (const word of words) {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            if (request.signal?.aborted) return;
+            yield word;
+        }
+    },
+};
+
+const providers: Record<AIProviderName, AIProvider> = {
+    'huggingface': huggingFaceProvider,
+    'gemini': geminiProvider,
+    'openai-compatible': openAICompatibleProvider,
+    'fake': fakeProvider,
+};
+
+export function isAIProviderName(name: string): name is AIProviderName {
+    return Object.prototype.hasOwnProperty.call(providers, name);
+}
+
+/**
+ * True when AI_OFFLINE is set - every request is then served by the fake provider
+ */
+export function isAIOffline(): boolean {
+    const value = (process.env.AI_OFFLINE || '').toLowerCase();
+    return value === 'true' || value === '1';
+}
+
+/**
+ * Resolve a provider by name, falling back to the AI_PROVIDER env var (default: huggingface)
+ * AI_OFFLINE overrides both so an air-gapped machine can never reach a real backend
+ */
+export function getAIProvider(name?: string): AIProvider {
+    if (isAIOffline()) {
+        return fakeProvider;
+    }
+
+    const providerName = name || process.env.AI_PROVIDER || 'huggingface';
+
+    if (!isAIProviderName(providerName)) {
+        throw new AIProviderError(
+            `Unknown AI provider "${providerName}". Expected one of: ${Object.keys(providers).join(', ')}`,
+            400,
+            'UNKNOWN_PROVIDER'
+        );
+    }
+
+    return providers[providerName];
+}
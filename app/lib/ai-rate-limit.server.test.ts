@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type RateLimitModule = typeof import('./ai-rate-limit.server');
+
+// The counter store is created on first use from the environment, so each test gets a fresh module
+async function loadLimiter(env: Record<string, string> = {}): Promise<RateLimitModule> {
+    vi.resetModules();
+    vi.stubEnv('AI_RATE_LIMIT', 'memory');
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    return import('./ai-rate-limit.server');
+}
+
+function source(headers: Record<string, string> = {}, clientAddress = '203.0.113.7') {
+    return { request: new Request('http://localhost/api/ai', { method: 'POST', headers }), context: { clientAddress } };
+}
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('checkAILimits', () => {
+    it('refuses prompts over AI_MAX_PROMPT_CHARS, even with limits off', async () => {
+        const { checkAILimits } = await loadLimiter({ AI_RATE_LIMIT: 'off', AI_MAX_PROMPT_CHARS: '10' });
+
+        const result = checkAILimits(source(), 'rewrite', 'x'.repeat(11));
+
+        expect(result.error?.status).toBe(413);
+        expect(result.error?.code).toBe('PROMPT_TOO_LARGE');
+    });
+
+    it('counts requests against the daily quota and refuses once it is used up', async () => {
+        const { checkAILimits } = await loadLimiter({ AI_QUOTA_PARSE: '2' });
+
+        expect(checkAILimits(source(), 'parse', 'resume').headers['X-RateLimit-Remaining']).toBe('1');
+        expect(checkAILimits(source(), 'parse', 'resume').headers['X-RateLimit-Remaining']).toBe('0');
+
+        const refused = checkAILimits(source(), 'parse', 'resume');
+        expect(refused.error?.code).toBe('QUOTA_EXCEEDED');
+        expect(refused.error?.status).toBe(429);
+        // Other features have their own quota
+        expect(checkAILimits(source(), 'analyze', 'resume').error).toBeUndefined();
+    });
+
+    it('applies the per-minute rate limit across features', async () => {
+        const { checkAILimits } = await loadLimiter({ AI_RATE_LIMIT_PER_MINUTE: '2' });
+
+        checkAILimits(source(), 'parse', 'a');
+        checkAILimits(source(), 'rewrite', 'b');
+
+        expect(checkAILimits(source(), 'analyze', 'c').error?.code).toBe('RATE_LIMITED');
+    });
+
+    it('refuses a batch larger than the quota left as a whole', async () => {
+        const { checkAILimits, getQuotaUsage } = await loadLimiter({ AI_QUOTA_REWRITE: '5' });
+        const identity = { clientId: 'batch-client' };
+
+        expect(checkAILimits(source(), 'rewrite', 'a', identity, 4).error).toBeUndefined();
+        expect(checkAILimits(source(), 'rewrite', 'a', identity, 2).error?.code).toBe('QUOTA_EXCEEDED');
+        expect(getQuotaUsage(identity).rewrite.used).toBe(4);
+    });
+});
+
+describe('client identification', () => {
+    it('ignores X-Forwarded-For and X-Real-IP unless AI_TRUST_PROXY is set', async () => {
+        const { checkAILimits } = await loadLimiter({ AI_QUOTA_PARSE: '1' });
+
+        checkAILimits(source({ 'X-Forwarded-For': '198.51.100.1' }), 'parse', 'a');
+        const spoofed = checkAILimits(source({ 'X-Forwarded-For': '198.51.100.2', 'X-Real-IP': '198.51.100.3' }), 'parse', 'a');
+
+        expect(spoofed.error?.code).toBe('QUOTA_EXCEEDED');
+    });
+
+    it('takes the right-most X-Forwarded-For entry the trusted proxies did not add', async () => {
+        const { checkAILimits } = await loadLimiter({ AI_QUOTA_PARSE: '1', AI_TRUST_PROXY: '1' });
+        const viaProxy = (forwardedFor: string) => source({ 'X-Forwarded-For': forwardedFor }, '10.0.0.1');
+
+        checkAILimits(viaProxy('1.1.1.1, 198.51.100.1'), 'parse', 'a');
+
+        // A forged left-most entry doesn't change the client the proxy saw
+        expect(checkAILimits(viaProxy('9.9.9.9, 198.51.100.1'), 'parse', 'a').error?.code).toBe('QUOTA_EXCEEDED');
+        expect(checkAILimits(viaProxy('198.51.100.2'), 'parse', 'a').error).toBeUndefined();
+    });
+
+    it('signs session cookies and limits how many sessions one IP may start', async () => {
+        const { checkAILimits } = await loadLimiter({
+            AI_RATE_LIMIT_KEY: 'session',
+            AI_NEW_SESSIONS_PER_DAY: '2',
+            AI_SESSION_SECRET: 'test-secret',
+        });
+
+        const first = checkAILimits(source(), 'rewrite', 'a');
+        const cookie = first.headers['Set-Cookie']?.split(';')[0];
+        expect(cookie).toMatch(/^ai_session=[\w-]+\.[\w-]+$/);
+
+        // The signed cookie keeps its session without starting a new one
+        expect(checkAILimits(source({ Cookie: cookie! }), 'rewrite', 'a').headers['Set-Cookie']).toBeUndefined();
+
+        // A made-up session id counts as a new session
+        const forged = checkAILimits(source({ Cookie: 'ai_session=made-up.signature' }), 'rewrite', 'a');
+        expect(forged.headers['Set-Cookie']).toBeDefined();
+
+        expect(checkAILimits(source(), 'rewrite', 'a').error?.code).toBe('QUOTA_EXCEEDED');
+        expect(checkAILimits(source({ Cookie: cookie! }), 'rewrite', 'a').error).toBeUndefined();
+    });
+});
+
+describe('checkAILimitCharges', () => {
+    it('counts none of the charges when one of them is refused', async () => {
+        const { checkAILimitCharges, getQuotaUsage } = await loadLimiter();
+        const identity = { clientId: 'key:test', quotas: { parse: 5, analyze: 1 } };
+        const charges = [
+            { feature: 'parse' as const, prompt: 'resume' },
+            { feature: 'analyze' as const, prompt: 'resume and job' },
+        ];
+
+        expect(checkAILimitCharges(source(), charges, identity).error).toBeUndefined();
+        expect(checkAILimitCharges(source(), charges, identity).error?.code).toBe('QUOTA_EXCEEDED');
+
+        const usage = getQuotaUsage(identity);
+        expect(usage.parse.used).toBe(1);
+        expect(usage.analyze.used).toBe(1);
+    });
+
+    it('keeps enforcing API-key quotas when AI_RATE_LIMIT is off', async () => {
+        const { checkAILimits, getQuotaUsage } = await loadLimiter({ AI_RATE_LIMIT: 'off' });
+        const identity = { clientId: 'key:test', quotas: { parse: 1 } };
+
+        expect(checkAILimits(source(), 'parse', 'a', identity).error).toBeUndefined();
+        expect(checkAILimits(source(), 'parse', 'a', identity).error?.code).toBe('QUOTA_EXCEEDED');
+        expect(getQuotaUsage(identity).parse.used).toBe(1);
+
+        // Browser clients are not limited
+        for (let i = 0; i < 30; i++) {
+            expect(checkAILimits(source(), 'parse', 'a').error).toBeUndefined();
+        }
+    });
+});
@@ -0,0 +1,365 @@
+/**
+ * Per-client rate limiting and daily per-feature quotas for /api/ai
+ * Stops the proxy from being an open relay for our provider API keys.
+ *
+ * Configuration (env):
+ *   AI_RATE_LIMIT             memory (default) | file | off (off only affects IP/session clients)
+ *   AI_RATE_LIMIT_FILE        JSON file used by the file store (default .cache/ai-rate-limit.json)
+ *   AI_RATE_LIMIT_KEY         ip (default) | session (signed cookie)
+ *   AI_SESSION_SECRET         key the session cookies are signed with (default: random per process)
+ *   AI_NEW_SESSIONS_PER_DAY   sessions one IP may start per day in session mode (default 5)
+ *   AI_TRUST_PROXY            number of reverse proxies in front of the server (default 0); only then
+ *                             are X-Forwarded-For / X-Real-IP read, otherwise the socket address is used
+ *   AI_RATE_LIMIT_PER_MINUTE  requests per client per minute across all features (default 20)
+ *   AI_QUOTA_PARSE            daily resume parses per client (default 20)
+ *   AI_QUOTA_ANALYZE          daily ATS analyses per client (default 20)
+ *   AI_QUOTA_REWRITE          daily summaries, bullet and text rewrites per client (default 200)
+ *   AI_QUOTA_COVER_LETTER     daily cover letters per client (default 20)
+ *   AI_MAX_PROMPT_CHARS       longest accepted prompt (default 50000), enforced even when limits are off
+ *
+ * Callers that authenticate their clients themselves (the /api/v1 API keys) pass an
+ * AIClientIdentity with its own quotas instead of being identified by IP or session. Those quotas
+ * are enforced even with AI_RATE_LIMIT=off: they are kept in memory then.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { AppLoadContext } from 'react-router';
+import type { AIFeature } from './ai-client';
+import { AIProviderError } from './ai-errors';
+import { createStore, MemoryStore } from './ai-store.server';
+import { readIntEnv } from './env.server';
+
+declare module 'react-router' {
+    interface AppLoadContext {
+        clientAddress?: string; // Socket address of the client, set by server.js
+    }
+}
+
+/** The request being limited, as a route's loader or action receives it */
+export interface AIRequestSource {
+    request: Request;
+    context?: AppLoadContext; // Carries the client's socket address
+}
+
+export interface AIClientIdentity {
+    clientId: string; // Counter key, e.g. "key:reporting-service"
+    quotas?: Partial<Record<AIFeature, number>>; // Overrides the AI_QUOTA_* defaults
+    ratePerMinute?: number; // Overrides AI_RATE_LIMIT_PER_MINUTE
+}
+
+export interface AIQuotaUsage {
+    used: number;
+    limit: number;
+    resetsAt: string; // ISO timestamp (next UTC midnight)
+}
+
+/** One feature's share of a request: a request that runs several features is charged for each */
+export interface AILimitCharge {
+    feature: AIFeature;
+    prompt: string;
+    units?: number; // How much of the daily quota it uses (default 1)
+}
+
+export interface AILimitResult {
+    headers: Record<string, string>; // X-RateLimit-* (and Set-Cookie for new sessions), sent with every response
+    error?: AIProviderError; // Set when the request must be rejected
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_TRACKED_COUNTERS = 10000;
+const SESSION_COOKIE = 'ai_session';
+
+const DEFAULT_QUOTAS: Record<AIFeature, number> = {
+    'parse': 20,
+    'analyze': 20,
+    'rewrite': 200,
+    'cover-letter': 20,
+};
+
+let store: MemoryStore<number> | null | undefined;
+let identityStore: MemoryStore<number> | undefined;
+
+/**
+ * Request counters, created on first use; null when limiting is turned off
+ */
+function getStore(): MemoryStore<number> | null {
+    if (store !== undefined) return store;
+
+    const mode = (process.env.AI_RATE_LIMIT || 'memory').toLowerCase();
+    if (mode === 'off' || mode === 'false' || mode === '0') {
+        store = null;
+    } else {
+        store = createStore<number>(
+            mode === 'file' ? 'file' : 'memory',
+            MAX_TRACKED_COUNTERS,
+            process.env.AI_RATE_LIMIT_FILE || '.cache/ai-rate-limit.json'
+        );
+    }
+
+    return store;
+}
+
+/**
+ * Counters for a client: API-key identities always have some, since their quotas are part of the
+ * key's contract rather than abuse protection for the browser proxy
+ */
+function getClientStore(identity?: AIClientIdentity): MemoryStore<number> | null {
+    const counters = getStore();
+    if (counters || !identity) return counters;
+
+    identityStore ??= new MemoryStore<number>(MAX_TRACKED_COUNTERS);
+    return identityStore;
+}
+
+function getQuota(feature: AIFeature, identity?: AIClientIdentity): number {
+    return identity?.quotas?.[feature]
+        ?? readIntEnv(`AI_QUOTA_${feature.toUpperCase().replace('-', '_')}`, DEFAULT_QUOTAS[feature]);
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+    const cookies = request.headers.get('Cookie') || '';
+    const match = cookies.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
+    return match?.[1];
+}
+
+function trustedProxyHops(): number {
+    const value = (process.env.AI_TRUST_PROXY || '').toLowerCase();
+    if (value === 'true') return 1;
+    return Math.max(0, Number.parseInt(value, 10) || 0);
+}
+
+let warnedNoSocketAddress = false;
+
+/**
+ * The client's IP address. Forwarding headers are set by the client too, so they are only read
+ * behind AI_TRUST_PROXY proxies: each proxy appends the address it saw to X-Forwarded-For, so the
+ * right-most entry the trusted proxies didn't add is the first one the client couldn't forge.
+ */
+function clientAddress({ request, context }: AIRequestSource): string {
+    const socketAddress = context?.clientAddress?.replace(/^::ffff:/, '');
+    if (!socketAddress && !warnedNoSocketAddress) {
+        warnedNoSocketAddress = true;
+        console.warn('⚠️ No client socket address (the app is not running under server.js); all clients share one IP rate limit');
+    }
+
+    const hops = trustedProxyHops();
+    if (hops > 0) {
+        const forwardedFor = (request.headers.get('X-Forwarded-For') || '')
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean);
+        // The socket peer is the nearest proxy; the hops before it were appended by the others
+        const chain = [...forwardedFor, socketAddress || 'unknown'];
+        const address = chain[chain.length - 1 - hops] || request.headers.get('X-Real-IP')?.trim();
+        if (address) return address;
+    }
+
+    return socketAddress || 'unknown';
+}
+
+let sessionSecret: string | undefined;
+
+function signSession(sessionId: string): string {
+    sessionSecret ??= process.env.AI_SESSION_SECRET || randomBytes(32).toString('hex');
+    return createHmac('sha256', sessionSecret).update(sessionId).digest('base64url');
+}
+
+/**
+ * Session id of a correctly signed `ai_session` cookie, so clients can't make up sessions
+ */
+function readSession(request: Request): string | undefined {
+    const [sessionId, signature] = (readCookie(request, SESSION_COOKIE) || '').split('.');
+    if (!sessionId || !signature) return undefined;
+
+    const expected = Buffer.from(signSession(sessionId));
+    const presented = Buffer.from(signature);
+    return presented.length === expected.length && timingSafeEqual(presented, expected) ? sessionId : undefined;
+}
+
+interface ClientLookup {
+    clientId: string;
+    setCookie?: string;
+    newSessionFrom?: string; // IP client id that started the session; new sessions are limited per IP
+}
+
+/**
+ * Identify the caller by IP (default) or by a session cookie
+ * Returns the Set-Cookie header to send when a new session had to be created
+ */
+function identifyClient(source: AIRequestSource): ClientLookup {
+    if ((process.env.AI_RATE_LIMIT_KEY || 'ip').toLowerCase() === 'session') {
+        const existing = readSession(source.request);
+        if (existing) return { clientId: `session:${existing}` };
+
+        const sessionId = randomUUID();
+        return {
+            clientId: `session:${sessionId}`,
+            setCookie: `${SESSION_COOKIE}=${sessionId}.${signSession(sessionId)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=31536000`,
+            newSessionFrom: `ip:${clientAddress(source)}`,
+        };
+    }
+
+    return { clientId: `ip:${clientAddress(source)}` };
+}
+
+/** Start of the next UTC day, when daily quotas reset */
+function nextUtcMidnight(now: number): number {
+    const date = new Date(now);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Check a prompt against the size limit, the per-minute rate limit and the feature's daily quota
+ * Counts the request when it is allowed; `identity` replaces the IP/session lookup
+ * `units` is how much of the daily quota the request uses (a batch counts each of its items);
+ * the per-minute limit always counts it once
+ */
+export function checkAILimits(
+    source: AIRequestSource,
+    feature: AIFeature,
+    prompt: string,
+    identity?: AIClientIdentity,
+    units: number = 1
+): AILimitResult {
+    return checkAILimitCharges(source, [{ feature, prompt, units }], identity);
+}
+
+/**
+ * checkAILimits for a request that uses several features (e.g. parse, then analyze)
+ * Every charge is checked before any is counted, so a request refused on a later feature
+ * doesn't use up the quota of an earlier one; the per-minute limit counts the request once
+ * and the X-RateLimit-* headers describe the last charge
+ */
+export function checkAILimitCharges(
+    source: AIRequestSource,
+    charges: AILimitCharge[],
+    identity?: AIClientIdentity
+): AILimitResult {
+    const maxPromptChars = readIntEnv('AI_MAX_PROMPT_CHARS', 50000);
+    for (const { prompt } of charges) {
+        if (prompt.length > maxPromptChars) {
+            return {
+                headers: {},
+                error: new AIProviderError(
+                    `Prompt is ${prompt.length} characters; the limit is ${maxPromptChars}`,
+                    413,
+                    'PROMPT_TOO_LARGE'
+                ),
+            };
+        }
+    }
+
+    const counters = getClientStore(identity);
+    if (!counters || charges.length === 0) return { headers: {} };
+
+    const { clientId, setCookie, newSessionFrom }: ClientLookup = identity ?? identifyClient(source);
+    const now = Date.now();
+
+    // Dropping the cookie would otherwise reset every limit, so each IP may only start a few sessions a day
+    const sessionsKey = newSessionFrom && `sessions:${newSessionFrom}`;
+    const sessions = sessionsKey ? counters.get(sessionsKey) ?? { value: 0, expiresAt: nextUtcMidnight(now) } : null;
+    if (sessions) {
+        const sessionLimit = readIntEnv('AI_NEW_SESSIONS_PER_DAY', 5);
+        if (sessions.value >= sessionLimit) {
+            console.warn(`🚫 New session limit reached for ${newSessionFrom}`);
+            return {
+                headers: {},
+                error: new AIProviderError(
+                    `Limit of ${sessionLimit} new sessions per day reached; keep the ai_session cookie or try again after ${new Date(sessions.expiresAt).toISOString()}`,
+                    429,
+                    'QUOTA_EXCEEDED',
+                    Math.ceil((sessions.expiresAt - now) / 1000)
+                ),
+            };
+        }
+    }
+
+    const rateKey = `rate:${clientId}`;
+    const rateLimit = identity?.ratePerMinute ?? readIntEnv('AI_RATE_LIMIT_PER_MINUTE', 20);
+    const rate = counters.get(rateKey) ?? { value: 0, expiresAt: now + MINUTE_MS };
+
+    // Units per feature, so two charges to the same quota are checked together
+    const unitsByFeature = new Map<AIFeature, number>();
+    for (const { feature, units = 1 } of charges) {
+        unitsByFeature.set(feature, (unitsByFeature.get(feature) ?? 0) + units);
+    }
+
+    const quotas = [...unitsByFeature].map(([feature, units]) => {
+        const key = `quota:${feature}:${clientId}`;
+        return {
+            feature,
+            units,
+            key,
+            quota: getQuota(feature, identity),
+            used: counters.get(key) ?? { value: 0, expiresAt: nextUtcMidnight(now) },
+        };
+    });
+
+    const last = quotas.find(({ feature }) => feature === charges[charges.length - 1].feature)!;
+    const headers: Record<string, string> = {
+        'X-RateLimit-Limit': String(last.quota),
+        'X-RateLimit-Remaining': String(Math.max(0, last.quota - last.used.value)),
+        'X-RateLimit-Reset': String(Math.ceil(last.used.expiresAt / 1000)),
+    };
+    if (setCookie) headers['Set-Cookie'] = setCookie;
+
+    for (const { feature, units, quota, used } of quotas) {
+        if (used.value + units > quota) {
+            console.warn(`🚫 Daily ${feature} quota exhausted for ${clientId}`);
+            const remaining = Math.max(0, quota - used.value);
+            return {
+                headers,
+                error: new AIProviderError(
+                    units > 1 && remaining > 0
+                        ? `${units} ${feature} requests would exceed the daily quota of ${quota} (${remaining} left); resets at ${new Date(used.expiresAt).toISOString()}`
+                        : `Daily quota of ${quota} ${feature} requests reached; resets at ${new Date(used.expiresAt).toISOString()}`,
+                    429,
+                    'QUOTA_EXCEEDED',
+                    Math.ceil((used.expiresAt - now) / 1000)
+                ),
+            };
+        }
+    }
+
+    if (rate.value >= rateLimit) {
+        console.warn(`🚫 Rate limit hit for ${clientId}`);
+        return {
+            headers,
+            error: new AIProviderError(
+                `Rate limit of ${rateLimit} requests per minute exceeded; resets at ${new Date(rate.expiresAt).toISOString()}`,
+                429,
+                'RATE_LIMITED',
+                Math.ceil((rate.expiresAt - now) / 1000)
+            ),
+        };
+    }
+
+    if (sessionsKey && sessions) counters.set(sessionsKey, { value: sessions.value + 1, expiresAt: sessions.expiresAt });
+    counters.set(rateKey, { value: rate.value + 1, expiresAt: rate.expiresAt });
+    for (const { key, units, used } of quotas) {
+        counters.set(key, { value: used.value + units, expiresAt: used.expiresAt });
+    }
+    headers['X-RateLimit-Remaining'] = String(last.quota - last.used.value - last.units);
+
+    return { headers };
+}
+
+/**
+ * Today's quota usage for every feature, without counting a request
+ */
+export function getQuotaUsage(identity: AIClientIdentity): Record<AIFeature, AIQuotaUsage> {
+    const counters = getClientStore(identity);
+    const now = Date.now();
+    const usage = {} as Record<AIFeature, AIQuotaUsage>;
+
+    for (const feature of Object.keys(DEFAULT_QUOTAS) as AIFeature[]) {
+        const used = counters?.get(`quota:${feature}:${identity.clientId}`);
+        usage[feature] = {
+            used: used?.value ?? 0,
+            limit: getQuota(feature, identity),
+            resetsAt: new Date(used?.expiresAt ?? nextUtcMidnight(now)).toISOString(),
+        };
+    }
+
+    return usage;
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AIProviderError } from './ai-errors';
+
+type ResilienceModule = typeof import('./ai-resilience.server');
+
+// The circuits live in module state, so each test gets a fresh module
+async function loadResilience(env: Record<string, string> = {}): Promise<ResilienceModule> {
+    vi.resetModules();
+    vi.stubEnv('AI_RETRY_BASE_DELAY_MS', '1');
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    return import('./ai-resilience.server');
+}
+
+function respond(...statuses: number[]) {
+    const fetch = vi.fn(async () => new Response('ok', { status: statuses.shift() ?? 200 }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+}
+
+async function failure(promise: Promise<unknown>): Promise<AIProviderError> {
+    return promise.then(() => { throw new Error('Expected the request to fail'); }, error => error);
+}
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('fetchWithRetry', () => {
+    it('retries server errors and returns the first good response', async () => {
+        const { fetchWithRetry } = await loadResilience();
+        const fetch = respond(503, 502, 200);
+
+        const response = await fetchWithRetry('test', 'https://api.example.com', {});
+
+        expect(response.status).toBe(200);
+        expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('returns errors that retrying cannot fix without retrying them', async () => {
+        const { fetchWithRetry } = await loadResilience();
+        const fetch = respond(401);
+
+        expect((await fetchWithRetry('test', 'https://api.example.com', {})).status).toBe(401);
+        expect(fetch).toHaveBeenCalledOnce();
+    });
+
+    it('throws a typed error once the retries are used up', async () => {
+        const { fetchWithRetry } = await loadResilience({ AI_MAX_RETRIES: '1' });
+        respond(504, 504);
+
+        const error = await failure(fetchWithRetry('test', 'https://api.example.com', {}));
+
+        expect([error.status, error.code]).toEqual([504, 'TIMEOUT']);
+    });
+
+    it('stops waiting when the caller cancels', async () => {
+        const { fetchWithRetry } = await loadResilience({ AI_RETRY_BASE_DELAY_MS: '60000' });
+        respond(503, 200);
+        const controller = new AbortController();
+
+        const request = failure(fetchWithRetry('test', 'https://api.example.com', { signal: controller.signal }));
+        await vi.waitFor(() => expect(console.log).toHaveBeenCalled());
+        controller.abort();
+
+        expect((await request).code).toBe('ABORTED');
+    });
+
+    it('removes the abort listener of a backoff that ran to the end', async () => {
+        const { fetchWithRetry } = await loadResilience();
+        respond(503, 200);
+        const controller = new AbortController();
+        const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+
+        await fetchWithRetry('test', 'https://api.example.com', { signal: controller.signal });
+
+        expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+});
+
+describe('circuit breaker', () => {
+    it('fails fast after repeated failures, then lets a single probe through', async () => {
+        const { fetchWithRetry } = await loadResilience({ AI_MAX_RETRIES: '0', AI_CIRCUIT_FAILURE_THRESHOLD: '2', AI_CIRCUIT_COOLDOWN_MS: '50' });
+        const fetch = respond(500, 500);
+
+        await failure(fetchWithRetry('test', 'https://api.example.com', {}));
+        await failure(fetchWithRetry('test', 'https://api.example.com', {}));
+        const open = await failure(fetchWithRetry('test', 'https://api.example.com', {}));
+        expect([open.code, open.retryAfter]).toEqual(['CIRCUIT_OPEN', 1]);
+        expect(fetch).toHaveBeenCalledTimes(2);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        const [probe, other] = await Promise.allSettled([
+            fetchWithRetry('test', 'https://api.example.com', {}),
+            fetchWithRetry('test', 'https://api.example.com', {}),
+        ]);
+        expect(probe.status === 'fulfilled' && probe.value.status).toBe(200);
+        expect(other.status === 'rejected' && other.reason.code).toBe('CIRCUIT_OPEN');
+
+        // The probe succeeded, so the circuit is closed again
+        expect((await fetchWithRetry('test', 'https://api.example.com', {})).status).toBe(200);
+    });
+
+    it('keeps a circuit per provider', async () => {
+        const { fetchWithRetry } = await loadResilience({ AI_MAX_RETRIES: '0', AI_CIRCUIT_FAILURE_THRESHOLD: '1' });
+        respond(500);
+
+        await failure(fetchWithRetry('broken', 'https://broken.example.com', {}));
+
+        expect((await failure(fetchWithRetry('broken', 'https://broken.example.com', {}))).code).toBe('CIRCUIT_OPEN');
+        expect((await fetchWithRetry('healthy', 'https://healthy.example.com', {})).status).toBe(200);
+    });
+});
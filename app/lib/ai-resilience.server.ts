@@ -0,0 +1,247 @@
+/**
+ * Retry, timeout and circuit-breaker wrapper around provider fetches
+ *
+ * Retries 408/429/5xx responses and network errors with exponential backoff and jitter,
+ * honouring Retry-After (and Hugging Face's `estimated_time` while a model loads).
+ * After repeated failures a provider's circuit opens and requests fail fast with
+ * CIRCUIT_OPEN until the cooldown has passed; the next request then probes the provider, and
+ * the others keep failing fast until that probe has succeeded or failed.
+ * A caller's `signal` (the client disconnecting) stops the request, including any pending
+ * backoff, with ABORTED; cancelled requests count neither for nor against the circuit.
+ *
+ * Configuration (env):
+ *   AI_MAX_RETRIES                retries after the first attempt (default 3, 0 disables)
+ *   AI_RETRY_BASE_DELAY_MS        first backoff delay, doubled on every retry (default 1000)
+ *   AI_RETRY_MAX_DELAY_MS         longest single wait between attempts (default 20000)
+ *   AI_REQUEST_TIMEOUT_MS         per-attempt timeout until response headers arrive (default 60000)
+ *   AI_CIRCUIT_FAILURE_THRESHOLD  consecutive failed requests that open the circuit (default 5)
+ *   AI_CIRCUIT_COOLDOWN_MS        how long an open circuit fails fast (default 30000)
+ */
+
+import { AIProviderError, type AIErrorCode } from './ai-errors';
+import { readIntEnv } from './env.server';
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+interface AttemptFailure {
+    status: number;
+    code: AIErrorCode;
+    message: string;
+    retryAfterMs?: number; // Delay requested by the provider
+}
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openedAt: number | null;
+    probing: boolean; // A request is testing the provider after the cooldown (half-open)
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(providerName: string): CircuitState {
+    let circuit = circuits.get(providerName);
+    if (!circuit) {
+        circuit = { consecutiveFailures: 0, openedAt: null, probing: false };
+        circuits.set(providerName, circuit);
+    }
+    return circuit;
+}
+
+/**
+ * Throw CIRCUIT_OPEN while the provider's cooldown is running, or while another request probes it
+ * Returns true when this request is the probe; the caller must end it with endProbe()
+ */
+function enterCircuit(providerName: string): boolean {
+    const circuit = getCircuit(providerName);
+    if (circuit.openedAt === null) return false;
+
+    const cooldownMs = readIntEnv('AI_CIRCUIT_COOLDOWN_MS', 30000);
+    const remainingMs = circuit.openedAt + cooldownMs - Date.now();
+    if (remainingMs > 0 || circuit.probing) {
+        throw new AIProviderError(
+            `${providerName} is temporarily unavailable after repeated failures`,
+            503,
+            'CIRCUIT_OPEN',
+            Math.max(1, Math.ceil(remainingMs / 1000))
+        );
+    }
+    // Cooldown over - let this request through as the only probe (half-open)
+    circuit.probing = true;
+    return true;
+}
+
+/** Let the next request probe again; a probe that was cancelled or throttled decided nothing */
+function endProbe(providerName: string): void {
+    getCircuit(providerName).probing = false;
+}
+
+function recordSuccess(providerName: string): void {
+    const circuit = getCircuit(providerName);
+    if (circuit.openedAt !== null) {
+        console.log(`✅ ${providerName} recovered, closing circuit`);
+    }
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = null;
+}
+
+function recordFailure(providerName: string): void {
+    const circuit = getCircuit(providerName);
+    circuit.consecutiveFailures++;
+
+    const threshold = readIntEnv('AI_CIRCUIT_FAILURE_THRESHOLD', 5);
+    if (circuit.openedAt !== null || circuit.consecutiveFailures >= threshold) {
+        // A failed probe re-opens the circuit for another cooldown
+        circuit.openedAt = Date.now();
+        console.error(`🔌 ${providerName} circuit opened after ${circuit.consecutiveFailures} consecutive failures`);
+    }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function describeFailedResponse(response: Response): Promise<AttemptFailure> {
+    const errorText = await response.text().catch(() => '');
+    let retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+
+    let code: AIErrorCode = 'UPSTREAM_ERROR';
+    if (response.status === 429) {
+        code = 'RATE_LIMITED';
+    } else if (response.status === 503 && /loading/i.test(errorText)) {
+        code = 'MODEL_LOADING';
+        // Hugging Face reports how long the model needs to load
+        try {
+            const estimatedTime = JSON.parse(errorText).estimated_time;
+            if (retryAfterMs === undefined && typeof estimatedTime === 'number') {
+                retryAfterMs = estimatedTime * 1000;
+            }
+        } catch {
+            // Not JSON - fall back to exponential backoff
+        }
+    } else if (response.status === 408 || response.status === 504) {
+        code = 'TIMEOUT';
+    }
+
+    return { status: response.status, code, message: errorText || response.statusText, retryAfterMs };
+}
+
+function abortedError(providerName: string): AIProviderError {
+    return new AIProviderError(`${providerName} request was cancelled by the client`, 499, 'ABORTED');
+}
+
+/**
+ * Wait between attempts; resolves early when `signal` is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half is random
+ */
+function getBackoffDelay(attempt: number): number {
+    const baseDelayMs = readIntEnv('AI_RETRY_BASE_DELAY_MS', 1000);
+    const maxDelayMs = readIntEnv('AI_RETRY_MAX_DELAY_MS', 20000);
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * `fetch` with retries, a per-attempt timeout and a per-provider circuit breaker
+ * Resolves with successful responses and with non-retryable errors (e.g. 400/401), which the
+ * caller reports itself; throws a typed AIProviderError once retries are exhausted or
+ * `init.signal` is aborted
+ */
+export async function fetchWithRetry(providerName: string, url: string, init: RequestInit): Promise<Response> {
+    if (init.signal?.aborted) throw abortedError(providerName);
+    const probe = enterCircuit(providerName);
+    try {
+        return await fetchWithRetries(providerName, url, init);
+    } finally {
+        if (probe) endProbe(providerName);
+    }
+}
+
+async function fetchWithRetries(providerName: string, url: string, init: RequestInit): Promise<Response> {
+    const callerSignal = init.signal ?? undefined;
+    const maxRetries = readIntEnv('AI_MAX_RETRIES', 3, 0);
+    const maxDelayMs = readIntEnv('AI_RETRY_MAX_DELAY_MS', 20000);
+    const timeoutMs = readIntEnv('AI_REQUEST_TIMEOUT_MS', 60000);
+
+    let failure: AttemptFailure | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        if (attempt > 0) {
+            const requestedMs = failure?.retryAfterMs;
+            if (requestedMs !== undefined && requestedMs > maxDelayMs) {
+                // The provider wants us to wait longer than we're willing to hold the request open
+                break;
+            }
+            const delayMs = requestedMs ?? getBackoffDelay(attempt - 1);
+            console.log(`⏳ ${providerName}: ${failure?.code}, retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxRetries + 1})`);
+            await sleep(delayMs, callerSignal);
+            if (callerSignal?.aborted) throw abortedError(providerName);
+        }
+
+        // The timeout only covers waiting for headers; the caller's signal also cancels the body
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        const signal = callerSignal ? AbortSignal.any([callerSignal, controller.signal]) : controller.signal;
+
+        try {
+            const response = await fetch(url, { ...init, signal });
+
+            if (response.ok || !RETRYABLE_STATUSES.has(response.status)) {
+                // The provider answered, even if it rejected the request
+                recordSuccess(providerName);
+                return response;
+            }
+
+            failure = await describeFailedResponse(response);
+        } catch (error: any) {
+            if (callerSignal?.aborted) throw abortedError(providerName);
+            failure = controller.signal.aborted
+                ? { status: 504, code: 'TIMEOUT', message: `No response within ${timeoutMs}ms` }
+                : { status: 502, code: 'NETWORK_ERROR', message: error?.cause?.code || error?.message || 'Network error' };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    if (!failure) {
+        // Unreachable: the loop always runs at least once
+        throw new AIProviderError(`${providerName} API error`, 500);
+    }
+
+    // Throttling means the provider is up, so it doesn't count towards opening the circuit
+    if (failure.code !== 'RATE_LIMITED') {
+        recordFailure(providerName);
+    }
+
+    console.error(`❌ ${providerName} failed after retries:`, { status: failure.status, code: failure.code, error: failure.message });
+    throw new AIProviderError(
+        `${providerName} API error: ${failure.message}`,
+        failure.status,
+        failure.code,
+        failure.retryAfterMs !== undefined ? Math.ceil(failure.retryAfterMs / 1000) : undefined
+    );
+}
@@ -0,0 +1,270 @@
+/**
+ * Server-side AI routing config
+ * The built-in routes (DEFAULT_AI_ROUTING in ai-routing.ts) can be overridden by a JSON file
+ * (AI_ROUTING_FILE, default ai-routing.json) shaped like:
+ *
+ *   {
+ *     "default": { "targets": [{ "provider": "huggingface" }] },
+ *     "routes": {
+ *       "parse": {
+ *         "targets": [
+ *           { "provider": "gemini", "model": "gemini-2.5-flash" },
+ *           { "provider": "huggingface", "model": "meta-llama/Meta-Llama-3-8B-Instruct" }
+ *         ],
+ *         "temperature": 0
+ *       }
+ *     }
+ *   }
+ *
+ * Each route in the file replaces only the fields it sets. The file is re-read whenever it changes,
+ * checked at server start (entry.server.tsx), and can be edited from /tradmin.
+ */
+
+import { mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { AIFeature } from './ai-client';
+import { getAIProvider, isAIProviderName } from './ai-providers.server';
+import {
+    AI_ROUTE_NAMES,
+    DEFAULT_AI_ROUTING,
+    formatModelTarget,
+    resolveAIRoute,
+    type AIModelTarget,
+    type AIRouteConfig,
+    type AIRouteName,
+    type AIRoutingConfig,
+    type ResolvedAIRoute,
+} from './ai-routing';
+import type { PromptId } from './prompts';
+
+export type AIRoutingOverrides = Partial<AIRoutingConfig>;
+
+const MAX_TARGETS = 5;
+const MAX_TOKENS_LIMIT = 32000;
+
+let loadedOverrides: { path: string; mtimeMs: number; overrides: AIRoutingOverrides; errors: string[] } | null = null;
+
+export function getAIRoutingFile(): string {
+    return process.env.AI_ROUTING_FILE || 'ai-routing.json';
+}
+
+function validateRoute(value: unknown, path: string, errors: string[]): AIRouteConfig | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} should be an object`);
+        return undefined;
+    }
+
+    const entry = value as Record<string, unknown>;
+    const route: AIRouteConfig = {};
+
+    for (const key of Object.keys(entry)) {
+        if (!['targets', 'temperature', 'maxTokens'].includes(key)) {
+            errors.push(`${path}.${key} is not a route setting (expected targets, temperature or maxTokens)`);
+        }
+    }
+
+    if (entry.targets !== undefined) {
+        if (!Array.isArray(entry.targets) || entry.targets.length === 0 || entry.targets.length > MAX_TARGETS) {
+            errors.push(`${path}.targets should be a list of 1-${MAX_TARGETS} { provider?, model? } entries`);
+        } else {
+            route.targets = entry.targets.map((target: any, index: number): AIModelTarget => {
+                const targetPath = `${path}.targets[${index}]`;
+                if (!target || typeof target !== 'object' || Array.isArray(target)) {
+                    errors.push(`${targetPath} should be an object`);
+                    return {};
+                }
+                if (target.provider !== undefined && (typeof target.provider !== 'string' || !isAIProviderName(target.provider))) {
+                    errors.push(`${targetPath}.provider "${target.provider}" is not a known provider`);
+                }
+                if (target.model !== undefined && (typeof target.model !== 'string' || !target.model.trim())) {
+                    errors.push(`${targetPath}.model should be a non-empty string`);
+                }
+                return {
+                    ...(typeof target.provider === 'string' && { provider: target.provider }),
+                    ...(typeof target.model === 'string' && { model: target.model.trim() }),
+                };
+            });
+        }
+    }
+
+    if (entry.temperature !== undefined) {
+        if (typeof entry.temperature !== 'number' || entry.temperature < 0 || entry.temperature > 2) {
+            errors.push(`${path}.temperature should be a number from 0 to 2`);
+        } else {
+            route.temperature = entry.temperature;
+        }
+    }
+
+    if (entry.maxTokens !== undefined) {
+        if (!Number.isInteger(entry.maxTokens) || (entry.maxTokens as number) < 1 || (entry.maxTokens as number) > MAX_TOKENS_LIMIT) {
+            errors.push(`${path}.maxTokens should be a whole number from 1 to ${MAX_TOKENS_LIMIT}`);
+        } else {
+            route.maxTokens = entry.maxTokens as number;
+        }
+    }
+
+    return route;
+}
+
+/**
+ * Check an overrides object; `errors` lists every problem, and the returned overrides keep the valid parts
+ */
+export function validateAIRoutingOverrides(raw: unknown): { overrides: AIRoutingOverrides; errors: string[] } {
+    const errors: string[] = [];
+    const overrides: AIRoutingOverrides = {};
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { overrides, errors: ['The routing config should be an object with "default" and/or "routes"'] };
+    }
+
+    const source = raw as Record<string, unknown>;
+    for (const key of Object.keys(source)) {
+        if (key !== 'default' && key !== 'routes') errors.push(`"${key}" is not a routing section (expected default or routes)`);
+    }
+
+    if (source.default !== undefined) {
+        const route = validateRoute(source.default, 'default', errors);
+        if (route) overrides.default = route;
+    }
+
+    if (source.routes !== undefined) {
+        if (!source.routes || typeof source.routes !== 'object' || Array.isArray(source.routes)) {
+            errors.push('routes should be an object keyed by feature or prompt template');
+        } else {
+            overrides.routes = {};
+            for (const [name, value] of Object.entries(source.routes)) {
+                if (!(AI_ROUTE_NAMES as string[]).includes(name)) {
+                    errors.push(`routes.${name} is not a feature or prompt template (expected one of: ${AI_ROUTE_NAMES.join(', ')})`);
+                    continue;
+                }
+                const route = validateRoute(value, `routes.${name}`, errors);
+                if (route) overrides.routes[name as AIRouteName] = route;
+            }
+        }
+    }
+
+    return { overrides, errors };
+}
+
+/**
+ * Current file overrides, reloaded when the file's modification time changes
+ */
+function getOverrides(): { overrides: AIRoutingOverrides; errors: string[] } {
+    const path = getAIRoutingFile();
+
+    let mtimeMs: number;
+    try {
+        mtimeMs = statSync(path).mtimeMs;
+    } catch {
+        loadedOverrides = null;
+        return { overrides: {}, errors: [] };
+    }
+
+    if (loadedOverrides?.path !== path || loadedOverrides.mtimeMs !== mtimeMs) {
+        let result: { overrides: AIRoutingOverrides; errors: string[] };
+        try {
+            result = validateAIRoutingOverrides(JSON.parse(readFileSync(path, 'utf8')));
+        } catch (error: any) {
+            result = { overrides: {}, errors: [`Cannot read ${path}: ${error.message}`] };
+        }
+
+        loadedOverrides = { path, mtimeMs, ...result };
+        if (result.errors.length > 0) {
+            console.error(`❌ AI routing config ${path} has problems; invalid settings are ignored:\n  - ${result.errors.join('\n  - ')}`);
+        } else {
+            console.log(`🧭 Loaded AI routing overrides from ${path}`);
+        }
+    }
+
+    return { overrides: loadedOverrides.overrides, errors: loadedOverrides.errors };
+}
+
+function mergeRouting(base: AIRoutingConfig, overrides: AIRoutingOverrides): AIRoutingConfig {
+    const routes: AIRoutingConfig['routes'] = { ...base.routes };
+    for (const [name, route] of Object.entries(overrides.routes ?? {}) as Array<[AIRouteName, AIRouteConfig]>) {
+        routes[name] = { ...routes[name], ...route };
+    }
+    return { default: { ...base.default, ...overrides.default }, routes };
+}
+
+/**
+ * Built-in routes with the file overrides applied
+ */
+export function getAIRoutingConfig(): AIRoutingConfig {
+    return mergeRouting(DEFAULT_AI_ROUTING, getOverrides().overrides);
+}
+
+/**
+ * The file overrides as written, and the problems found in them
+ */
+export function getAIRoutingOverrides(): { overrides: AIRoutingOverrides; errors: string[] } {
+    return getOverrides();
+}
+
+/**
+ * Route settings for one request
+ */
+export function getAIRoute(feature: AIFeature, templateId?: PromptId): ResolvedAIRoute {
+    return resolveAIRoute(getAIRoutingConfig(), feature, templateId);
+}
+
+/**
+ * Validate and write new file overrides; returns the problems instead of writing when there are any
+ */
+export function saveAIRoutingOverrides(raw: unknown): string[] {
+    const { overrides, errors } = validateAIRoutingOverrides(raw);
+    if (errors.length > 0) return errors;
+
+    const path = getAIRoutingFile();
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(overrides, null, 2) + '\n');
+    console.log(`🧭 Saved AI routing overrides to ${path}`);
+    return [];
+}
+
+/**
+ * Problems with the effective routing: invalid file settings and targets whose provider is
+ * unknown or missing its configuration
+ */
+export function checkAIRoutingConfig(): string[] {
+    const { errors } = getOverrides();
+    const problems = [...errors];
+    const config = getAIRoutingConfig();
+    const seen = new Set<string>();
+
+    const routeLevels: Array<[string, AIRouteConfig | undefined]> = [
+        ['default', config.default],
+        ...AI_ROUTE_NAMES.map(name => [`routes.${name}`, config.routes[name]] as [string, AIRouteConfig | undefined]),
+    ];
+
+    for (const [path, route] of routeLevels) {
+        for (const target of route?.targets ?? []) {
+            const key = `${path}|${target.provider ?? ''}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            try {
+                const warning = getAIProvider(target.provider).configurationWarning?.();
+                if (warning) problems.push(`${path} uses ${formatModelTarget(target)}: ${warning}`);
+            } catch (error: any) {
+                problems.push(`${path} uses ${formatModelTarget(target)}: ${error.message}`);
+            }
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Startup check: log the routing summary and every problem found
+ */
+export function logAIRoutingCheck(): void {
+    const problems = checkAIRoutingConfig();
+    const config = getAIRoutingConfig();
+    const routed = Object.keys(config.routes).length;
+
+    console.log(`🧭 AI routing: ${routed} routes, default ${config.default.targets?.map(formatModelTarget).join(' → ')}`);
+    for (const problem of problems) {
+        console.warn(`⚠️ AI routing: ${problem}`);
+    }
+}
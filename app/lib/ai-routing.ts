@@ -0,0 +1,106 @@
+/**
+ * Per-feature model routing: which model(s) and parameters each kind of AI request uses
+ * A request is routed by its prompt template id, then its feature, then `default`; each level
+ * only overrides the fields it sets. `targets` are tried in order until one succeeds.
+ * The server merges AI_ROUTING_FILE over these defaults (see ai-routing.server.ts).
+ */
+
+import { AI_FEATURES, type AIFeature } from './ai-client';
+import { PROMPT_TEMPLATES, type PromptId } from './prompts';
+
+export interface AIModelTarget {
+    provider?: string; // Defaults to AI_PROVIDER
+    model?: string; // Defaults to the provider's default model
+}
+
+export interface AIRouteConfig {
+    targets?: AIModelTarget[]; // Primary first, then fallbacks
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export type AIRouteName = AIFeature | PromptId;
+
+export interface AIRoutingConfig {
+    default: AIRouteConfig;
+    routes: Partial<Record<AIRouteName, AIRouteConfig>>;
+}
+
+/** Route settings after merging default, feature and template levels */
+export interface ResolvedAIRoute {
+    route: string; // Most specific level that matched, e.g. "summary-storytelling" or "rewrite"
+    targets: AIModelTarget[];
+    temperature: number;
+    maxTokens: number;
+}
+
+/** GET /api/ai-routing response, shown in /tradmin */
+export interface AIRoutingState {
+    file: string; // AI_ROUTING_FILE
+    overrides: Partial<AIRoutingConfig>; // As written in the file
+    routes: Array<ResolvedAIRoute & { name: AIRouteName }>; // Effective settings for every route name
+    problems: string[];
+    editable: boolean; // ADMIN_TOKEN is set, so PUT is accepted
+}
+
+export const AI_ROUTE_NAMES: AIRouteName[] = [
+    ...AI_FEATURES,
+    ...(Object.keys(PROMPT_TEMPLATES) as PromptId[]).filter(id => !(AI_FEATURES as readonly string[]).includes(id)),
+];
+
+export const DEFAULT_AI_ROUTING: AIRoutingConfig = {
+    default: { targets: [{}], temperature: 0.1, maxTokens: 4000 },
+    routes: {
+        // Exact JSON extraction: deterministic, long output
+        'parse': { temperature: 0.1, maxTokens: 4000 },
+        'analyze': { temperature: 0.2, maxTokens: 3000 },
+        'bullets': { temperature: 0.6, maxTokens: 800 },
+        'summary-classic': { temperature: 0.4, maxTokens: 400 },
+        'summary-bold': { temperature: 0.6, maxTokens: 400 },
+        'summary-storytelling': { temperature: 0.8, maxTokens: 500 },
+        'summary-keywords': { temperature: 0.3, maxTokens: 400 },
+        'cover-letter': { temperature: 0.7, maxTokens: 1500 },
+        'rewrite': { temperature: 0.4, maxTokens: 500 },
+        'humanize-text': { temperature: 0.7 },
+    },
+};
+
+/**
+ * Settings for a request: template route, then feature route, then default
+ */
+export function resolveAIRoute(config: AIRoutingConfig, feature: AIFeature, templateId?: PromptId): ResolvedAIRoute {
+    const levels: Array<[string, AIRouteConfig | undefined]> = [
+        ['default', config.default],
+        [feature, config.routes[feature]],
+        ...(templateId && templateId !== feature ? [[templateId, config.routes[templateId]] as [string, AIRouteConfig | undefined]] : []),
+    ];
+
+    let resolved: ResolvedAIRoute = { route: 'default', targets: [{}], temperature: 0.1, maxTokens: 4000 };
+    for (const [route, level] of levels) {
+        if (!level) continue;
+        resolved = {
+            route,
+            targets: level.targets?.length ? level.targets : resolved.targets,
+            temperature: level.temperature ?? resolved.temperature,
+            maxTokens: level.maxTokens ?? resolved.maxTokens,
+        };
+    }
+    return resolved;
+}
+
+/**
+ * Effective settings for a route name: a feature on its own, or a template under its feature
+ */
+export function resolveNamedAIRoute(config: AIRoutingConfig, name: AIRouteName): ResolvedAIRoute {
+    if ((AI_FEATURES as readonly string[]).includes(name)) {
+        return resolveAIRoute(config, name as AIFeature);
+    }
+    return resolveAIRoute(config, PROMPT_TEMPLATES[name as PromptId].feature, name as PromptId);
+}
+
+/**
+ * Display form of a target, e.g. "gemini/gemini-1.5-flash" or "(default provider)/(default model)"
+ */
+export function formatModelTarget(target: AIModelTarget): string {
+    return `${target.provider || '(default provider)'}/${target.model || '(default model)'}`;
+}
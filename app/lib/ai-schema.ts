@@ -0,0 +1,313 @@
+/**
+ * Runtime schemas for structured AI output
+ * Pulls JSON out of chatty replies, coerces loose types (e.g. "85" → 85),
+ * clamps scores to 0-100 and, when a reply still doesn't fit, asks the model
+ * once to repair it using the validation errors.
+ */
+
+import { callGeminiAPI, isAbortError, type AIRequestOptions } from './ai-client';
+import type { ParsedResumeData } from './gemini';
+import { PROMPT_TEMPLATES, renderTemplate, type PromptRequest } from './prompts';
+
+/**
+ * A validator coerces `value` into T, pushing a message onto `errors`
+ * for every problem it could not fix on its own
+ */
+export type Schema<T> = (value: unknown, path: string, errors: string[]) => T;
+
+export interface ValidationResult<T> {
+    data: T | null;
+    errors: string[];
+}
+
+// ---- Primitive schemas ----
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+export const string = (options: { required?: boolean } = {}): Schema<string> => (value, path, errors) => {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (value === undefined || value === null) {
+        if (options.required) errors.push(`${path} is required`);
+        return '';
+    }
+    errors.push(`${path} should be a string, got ${describe(value)}`);
+    return '';
+};
+
+export const number = (options: { required?: boolean; min?: number; max?: number } = {}): Schema<number> => (value, path, errors) => {
+    let result: number = NaN;
+    if (typeof value === 'number') {
+        result = value;
+    } else if (typeof value === 'string') {
+        // Accept "85", "85%" and "85/100"
+        result = parseFloat(value.replace(/%|\/\s*100$/, '').trim());
+    }
+
+    if (Number.isNaN(result)) {
+        if (value !== undefined || options.required) {
+            errors.push(`${path} should be a number, got ${describe(value)}`);
+        }
+        return options.min ?? 0;
+    }
+
+    if (options.min !== undefined) result = Math.max(options.min, result);
+    if (options.max !== undefined) result = Math.min(options.max, result);
+    return result;
+};
+
+/** A 0-100 score, rounded and clamped */
+export const score = (): Schema<number> => (value, path, errors) =>
+    Math.round(number({ required: true, min: 0, max: 100 })(value, path, errors));
+
+export const boolean = (): Schema<boolean> => (value) => {
+    if (typeof value === 'string') return ['true', 'yes', '1'].includes(value.trim().toLowerCase());
+    return Boolean(value);
+};
+
+export const oneOf = <T extends string>(allowed: readonly T[], fallback: T): Schema<T> => (value, path, errors) => {
+    const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+    const match = allowed.find(option => option === normalized);
+    if (match) return match;
+    errors.push(`${path} should be one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+    return fallback;
+};
+
+export const array = <T>(item: Schema<T>, options: { required?: boolean } = {}): Schema<T[]> => (value, path, errors) => {
+    if (value === undefined || value === null) {
+        if (options.required) errors.push(`${path} is required`);
+        return [];
+    }
+    if (!Array.isArray(value)) {
+        errors.push(`${path} should be an array, got ${describe(value)}`);
+        return [];
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+export const object = <T extends object>(
+    shape: { [K in keyof T]: Schema<T[K]> },
+    options: { required?: boolean } = {}
+): Schema<T> => (value, path, errors) => {
+    const source = (value && typeof value === 'object' && !Array.isArray(value)) ? value as Record<string, unknown> : {};
+    if (source !== value && (value !== undefined || options.required)) {
+        errors.push(`${path} should be an object, got ${describe(value)}`);
+    }
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T>) {
+        result[key] = shape[key](source[key as string], `${path}.${String(key)}`, errors);
+    }
+    return result;
+};
+
+/** Drop array entries whose every string field is empty (models often pad arrays with blanks) */
+const nonEmpty = <T>(schema: Schema<T[]>): Schema<T[]> => (value, path, errors) =>
+    schema(value, path, errors).filter(entry =>
+        typeof entry === 'string'
+            ? entry.length > 0
+            : Object.values(entry as Record<string, unknown>).some(field => typeof field === 'string' && field.length > 0)
+    );
+
+// ---- Domain schemas ----
+
+export const parsedResumeSchema: Schema<ParsedResumeData> = object<ParsedResumeData>({
+    personalInfo: object({
+        fullName: string(),
+        email: string(),
+        phone: string(),
+        location: string(),
+        linkedin: string(),
+        portfolio: string(),
+    }),
+    summary: string(),
+    experience: nonEmpty(array((value, path, errors) => {
+        const entry = object({
+            company: string(),
+            position: string(),
+            startDate: string(),
+            endDate: string(),
+            location: string(),
+            current: boolean(),
+            description: nonEmpty(array(string())),
+        })(value, path, errors);
+        // Models sometimes forget the flag even when the role is ongoing
+        entry.current = entry.current || /\b(present|current|now)\b/i.test(entry.endDate);
+        return entry;
+    })),
+    education: nonEmpty(array(object({
+        degree: string(),
+        school: string(),
+        gpa: string(),
+        graduationDate: string(),
+    }))),
+    skills: object({
+        technical: nonEmpty(array(string())),
+        soft: nonEmpty(array(string())),
+    }),
+    projects: nonEmpty(array(object({
+        name: string(),
+        description: string(),
+    }))),
+    certifications: nonEmpty(array(object({ name: string() }))),
+    achievements: nonEmpty(array(object({ name: string() }))),
+}, { required: true });
+
+const tipType = oneOf(['good', 'improve'] as const, 'improve');
+
+/** Tips without any text are dropped rather than failing the whole reply */
+const tips = <T extends { tip: string }>(tip: Schema<T>): Schema<T[]> => (value, path, errors) =>
+    array(tip)(value, path, errors).filter(entry => entry.tip.length > 0);
+
+const feedbackSection = object({
+    score: score(),
+    tips: tips(object({
+        type: tipType,
+        tip: string(),
+        explanation: string(),
+    })),
+}, { required: true });
+
+export const feedbackSchema: Schema<Feedback> = object<Feedback>({
+    overallScore: score(),
+    ATS: object({
+        score: score(),
+        tips: tips(object({
+            type: tipType,
+            tip: string(),
+        })),
+    }, { required: true }),
+    toneAndStyle: feedbackSection,
+    content: feedbackSection,
+    structure: feedbackSection,
+    skills: feedbackSection,
+}, { required: true });
+
+export const bulletsSchema: Schema<string[]> = nonEmpty(array(string(), { required: true }));
+
+// ---- JSON extraction ----
+
+/**
+ * Find the JSON value in a model reply: strips code fences, skips leading/trailing chatter,
+ * and tolerates trailing commas. Returns undefined when no JSON can be recovered.
+ */
+export function extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = (fenced ? fenced[1] : text).trim();
+
+    const attempts = [candidate];
+    const start = candidate.search(/[[{]/);
+    if (start !== -1) {
+        const end = findMatchingBracket(candidate, start);
+        attempts.push(candidate.slice(start, end === -1 ? undefined : end + 1));
+    }
+
+    for (const attempt of attempts) {
+        for (const variant of [attempt, attempt.replace(/,\s*([}\]])/g, '$1')]) {
+            try {
+                return JSON.parse(variant);
+            } catch {
+                // Try the next variant
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function findMatchingBracket(text: string, start: number): number {
+    const stack: string[] = [];
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+        else if (char === '}' || char === ']') {
+            if (stack.pop() !== char) return -1;
+            if (stack.length === 0) return i;
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Extract and validate the JSON in a model reply
+ */
+export function validateAIJson<T>(text: string, schema: Schema<T>): ValidationResult<T> {
+    const json = extractJson(text);
+    if (json === undefined) {
+        return { data: null, errors: ['Reply does not contain valid JSON (it may be truncated or wrapped in prose)'] };
+    }
+
+    const errors: string[] = [];
+    const data = schema(json, '$', errors);
+    return { data: errors.length === 0 ? data : null, errors };
+}
+
+// ---- Repair retry ----
+
+export interface StructuredReplyResult<T> extends ValidationResult<T> {
+    repaired: boolean; // True when the repair re-prompt produced the data
+    rawText: string; // The last reply that was validated
+}
+
+/**
+ * The original prompt plus the json-repair template; template requests are
+ * rendered on the server so prompt overrides apply to the repair as well
+ */
+function buildRepairPrompt(originalPrompt: string | PromptRequest, reply: string, errors: string[]): string | PromptRequest {
+    const repair = {
+        errors: errors.slice(0, 20).map(error => `- ${error}`).join('\n'),
+        reply: reply.substring(0, 6000),
+    };
+
+    if (typeof originalPrompt !== 'string') {
+        return { ...originalPrompt, repair };
+    }
+    return `${originalPrompt}\n\n${renderTemplate(PROMPT_TEMPLATES['json-repair'].template, repair)}`;
+}
+
+/**
+ * Validate a reply against `schema`; if it doesn't fit, send one repair re-prompt
+ * that includes the validation errors and validate the new reply.
+ * An aborted `options.signal` rejects with the AbortError instead of returning the first result.
+ */
+export async function resolveStructuredReply<T>(
+    prompt: string | PromptRequest,
+    reply: string,
+    schema: Schema<T>,
+    options: AIRequestOptions = {}
+): Promise<StructuredReplyResult<T>> {
+    const first = validateAIJson(reply, schema);
+    if (first.data !== null) {
+        return { ...first, repaired: false, rawText: reply };
+    }
+
+    console.warn('⚠️ AI reply failed validation, requesting repair:', first.errors.slice(0, 5));
+
+    try {
+        const data = await callGeminiAPI(buildRepairPrompt(prompt, reply, first.errors), options);
+        const repairedText: string = data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        const second = validateAIJson(repairedText, schema);
+
+        if (second.data !== null) {
+            console.log('🔧 AI reply repaired successfully');
+        }
+        return { ...second, repaired: second.data !== null, rawText: repairedText };
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('❌ Repair request failed:', error);
+        return { ...first, repaired: false, rawText: reply };
+    }
+}
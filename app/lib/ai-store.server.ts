@@ -0,0 +1,117 @@
+/**
+ * Small expiring key-value stores shared by the AI cache and rate limiter
+ * `memory` keeps entries in process; `file` also persists them to a local JSON file
+ * so they survive a server restart.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export interface StoredEntry<T> {
+    value: T;
+    expiresAt: number; // Epoch ms
+}
+
+export type StoreMode = 'memory' | 'file';
+
+const FILE_SAVE_DELAY_MS = 1000; // Batch writes so busy stores don't rewrite the file on every request
+
+/**
+ * In-memory LRU store; Map iteration order doubles as recency order
+ */
+export class MemoryStore<T> {
+    protected entries = new Map<string, StoredEntry<T>>();
+
+    constructor(private maxEntries: number) {}
+
+    get(key: string): StoredEntry<T> | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        if (entry.expiresAt <= Date.now()) {
+            this.delete(key);
+            return undefined;
+        }
+
+        // Move to the back so it's evicted last
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry;
+    }
+
+    set(key: string, entry: StoredEntry<T>): void {
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
+
+/**
+ * Memory store that is loaded from and written back to a JSON file
+ */
+export class FileStore<T> extends MemoryStore<T> {
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(maxEntries: number, private filePath: string) {
+        super(maxEntries);
+        this.load();
+    }
+
+    set(key: string, entry: StoredEntry<T>): void {
+        super.set(key, entry);
+        this.scheduleSave();
+    }
+
+    delete(key: string): void {
+        super.delete(key);
+        this.scheduleSave();
+    }
+
+    private load(): void {
+        try {
+            const saved = JSON.parse(readFileSync(this.filePath, 'utf8')) as Array<[string, StoredEntry<T>]>;
+            const now = Date.now();
+            for (const [key, entry] of saved) {
+                if (entry.expiresAt > now) super.set(key, entry);
+            }
+            console.log(`💾 Loaded ${this.entries.size} entries from ${this.filePath}`);
+        } catch {
+            // No file yet (or it is unreadable) - start empty
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) return;
+
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, FILE_SAVE_DELAY_MS);
+        // Don't keep the process alive just to flush the file
+        this.saveTimer.unref?.();
+    }
+
+    private save(): void {
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            writeFileSync(this.filePath, JSON.stringify([...this.entries]));
+        } catch (error) {
+            console.error(`Failed to write ${this.filePath}:`, error);
+        }
+    }
+}
+
+/**
+ * Create a store of the given mode
+ */
+export function createStore<T>(mode: StoreMode, maxEntries: number, filePath: string): MemoryStore<T> {
+    return mode === 'file' ? new FileStore<T>(maxEntries, filePath) : new MemoryStore<T>(maxEntries);
+}
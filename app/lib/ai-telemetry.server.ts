@@ -0,0 +1,135 @@
+/**
+ * AI call telemetry: every provider call made through ai-gateway.server.ts is recorded
+ * (feature/template, model, prompt and completion size, latency, status, cache hit)
+ *
+ * Sink (AI_TELEMETRY):
+ * - file (default): JSON lines in AI_TELEMETRY_FILE (default .cache/ai-usage.jsonl)
+ * - firestore: the ai_usage collection, like saveErrorLog's error_logs
+ * - console: one log line per call, nothing to read back
+ * - off: no recording
+ * Other sinks can be plugged in with setAITelemetrySink().
+ * Recording never delays or fails the AI request.
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AIUsageRecord } from './ai-usage';
+
+export interface AITelemetrySink {
+    name: string;
+    write(record: AIUsageRecord): Promise<void>;
+    read?(since: Date): Promise<AIUsageRecord[]>; // Omitted by write-only sinks
+}
+
+function createFileSink(path: string): AITelemetrySink {
+    let directoryReady: Promise<unknown> | null = null;
+    // Appends are chained so lines from concurrent calls never interleave
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+        name: 'file',
+        write(record) {
+            directoryReady ??= mkdir(dirname(path), { recursive: true });
+            pending = pending
+                .catch(() => {}) // A failed append was already reported; keep writing later records
+                .then(() => directoryReady)
+                .then(() => appendFile(path, JSON.stringify(record) + '\n'));
+            return pending;
+        },
+        async read(since) {
+            await pending.catch(() => {});
+
+            let contents: string;
+            try {
+                contents = await readFile(path, 'utf8');
+            } catch {
+                return [];
+            }
+
+            const sinceIso = since.toISOString();
+            const records: AIUsageRecord[] = [];
+            for (const line of contents.split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    const record = JSON.parse(line) as AIUsageRecord;
+                    if (record.timestamp >= sinceIso) records.push(record);
+                } catch {
+                    // Skip a line cut short by a crash mid-write
+                }
+            }
+            return records;
+        },
+    };
+}
+
+const firestoreSink: AITelemetrySink = {
+    name: 'firestore',
+    async write(record) {
+        const { saveAIUsageRecord } = await import('./firebase');
+        await saveAIUsageRecord(record);
+    },
+    async read(since) {
+        const { getAIUsageRecords } = await import('./firebase');
+        return getAIUsageRecords(since);
+    },
+};
+
+const consoleSink: AITelemetrySink = {
+    name: 'console',
+    async write(record) {
+        console.log(
+            `📈 AI call: ${record.template || record.feature} ${record.provider}/${record.model} ` +
+            `${record.status}${record.errorCode ? ` ${record.errorCode}` : ''} ${record.latencyMs}ms ` +
+            `prompt=${record.promptChars} completion=${record.completionChars}${record.cached ? ' (cached)' : ''}`
+        );
+    },
+};
+
+let sink: AITelemetrySink | null | undefined;
+
+/**
+ * The configured sink, created on first use; null when telemetry is turned off
+ */
+export function getAITelemetrySink(): AITelemetrySink | null {
+    if (sink !== undefined) return sink;
+
+    const mode = (process.env.AI_TELEMETRY || 'file').toLowerCase();
+    if (mode === 'off') {
+        sink = null;
+    } else if (mode === 'firestore') {
+        sink = firestoreSink;
+    } else if (mode === 'console') {
+        sink = consoleSink;
+    } else {
+        sink = createFileSink(process.env.AI_TELEMETRY_FILE || '.cache/ai-usage.jsonl');
+    }
+    return sink;
+}
+
+/**
+ * Replace the sink, e.g. to send records to a metrics service; null turns telemetry off
+ */
+export function setAITelemetrySink(next: AITelemetrySink | null): void {
+    sink = next;
+}
+
+/**
+ * Record one AI call in the background
+ */
+export function recordAICall(record: AIUsageRecord): void {
+    const target = getAITelemetrySink();
+    if (!target) return;
+
+    target.write(record).catch(error => {
+        console.error(`Failed to record AI usage (${target.name} sink):`, error);
+    });
+}
+
+/**
+ * Records since a date, or null when the sink can't be read back
+ */
+export async function readAIUsage(since: Date): Promise<AIUsageRecord[] | null> {
+    const target = getAITelemetrySink();
+    if (!target?.read) return null;
+    return target.read(since);
+}
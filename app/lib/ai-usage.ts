@@ -0,0 +1,115 @@
+/**
+ * AI usage telemetry records and the per-day / per-feature summary shown in /tradmin
+ * Records are written on the server by ai-telemetry.server.ts; this module is shared with the admin page
+ */
+
+import type { AIFeature } from './ai-client';
+
+export interface AIUsageRecord {
+    timestamp: string; // ISO time the call started
+    feature: AIFeature;
+    template?: string; // "id@version" when the prompt came from the template registry
+    provider: string;
+    model: string;
+    promptChars: number;
+    completionChars: number;
+    latencyMs: number;
+    status: number; // 200, or the error's HTTP status (499 when the client cancelled)
+    errorCode?: string;
+    cached: boolean; // Served from the reply cache without calling the provider
+    streamed: boolean;
+}
+
+export interface AIUsageBucket {
+    calls: number;
+    errors: number; // Failed calls; cancelled calls (499) are not errors
+    cancelled: number;
+    cached: number;
+    avgLatencyMs: number; // Over provider calls only; cache hits are excluded
+    promptChars: number;
+    completionChars: number;
+    estimatedTokens: number; // Roughly 4 characters per token, provider calls only
+}
+
+export interface AIUsageSummary {
+    since: string; // ISO start of the first day
+    days: Array<AIUsageBucket & { date: string }>; // One entry per UTC day, oldest first, including empty days
+    features: Array<AIUsageBucket & { feature: string }>; // Busiest first
+    templates: Array<AIUsageBucket & { template: string }>; // Busiest first
+    totals: AIUsageBucket;
+    costPer1kTokens?: number; // AI_COST_PER_1K_TOKENS, when configured
+}
+
+export interface AIUsageResponse {
+    sink: string | null; // Configured telemetry sink; null when AI_TELEMETRY=off
+    summary: AIUsageSummary | null; // Null when the sink can't be read back (console sink, or off)
+}
+
+const CHARS_PER_TOKEN = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start (UTC midnight) of a window of `days` days that ends today
+ */
+export function usageWindowStart(days: number, now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)));
+}
+
+export function isFailedCall(record: Pick<AIUsageRecord, 'status'>): boolean {
+    return record.status >= 400 && record.status !== 499;
+}
+
+function summarizeBucket(records: AIUsageRecord[]): AIUsageBucket {
+    const providerCalls = records.filter(record => !record.cached);
+    const latency = providerCalls.reduce((sum, record) => sum + record.latencyMs, 0);
+    const billedChars = providerCalls.reduce((sum, record) => sum + record.promptChars + record.completionChars, 0);
+
+    return {
+        calls: records.length,
+        errors: records.filter(isFailedCall).length,
+        cancelled: records.filter(record => record.status === 499).length,
+        cached: records.length - providerCalls.length,
+        avgLatencyMs: providerCalls.length > 0 ? Math.round(latency / providerCalls.length) : 0,
+        promptChars: records.reduce((sum, record) => sum + record.promptChars, 0),
+        completionChars: records.reduce((sum, record) => sum + record.completionChars, 0),
+        estimatedTokens: Math.round(billedChars / CHARS_PER_TOKEN),
+    };
+}
+
+function groupBy(records: AIUsageRecord[], key: (record: AIUsageRecord) => string | undefined): Map<string, AIUsageRecord[]> {
+    const groups = new Map<string, AIUsageRecord[]>();
+    for (const record of records) {
+        const value = key(record);
+        if (value === undefined) continue;
+        const group = groups.get(value);
+        if (group) group.push(record);
+        else groups.set(value, [record]);
+    }
+    return groups;
+}
+
+/**
+ * Summarize the records of the last `days` UTC days (today included)
+ */
+export function summarizeAIUsage(records: AIUsageRecord[], days: number, now: Date = new Date()): AIUsageSummary {
+    const start = usageWindowStart(days, now);
+    const since = start.toISOString();
+    const recent = records.filter(record => record.timestamp >= since);
+
+    const byDay = groupBy(recent, record => record.timestamp.slice(0, 10));
+    const dayList = Array.from({ length: days }, (_, index) =>
+        new Date(start.getTime() + index * DAY_MS).toISOString().slice(0, 10)
+    );
+
+    const busiestFirst = <T extends { calls: number }>(entries: T[]) => entries.sort((a, b) => b.calls - a.calls);
+
+    return {
+        since,
+        days: dayList.map(date => ({ date, ...summarizeBucket(byDay.get(date) ?? []) })),
+        features: busiestFirst([...groupBy(recent, record => record.feature)]
+            .map(([feature, group]) => ({ feature, ...summarizeBucket(group) }))),
+        templates: busiestFirst([...groupBy(recent, record => record.template)]
+            .map(([template, group]) => ({ template, ...summarizeBucket(group) }))),
+        totals: summarizeBucket(recent),
+    };
+}
@@ -0,0 +1,162 @@
+/**
+ * API keys and usage counters for the public /api/v1 API
+ * Keys are configured in a JSON file (API_KEYS_FILE, default api-keys.json) shaped like:
+ *
+ *   {
+ *     "reporting-service": {
+ *       "keySha256": "<hex sha256 of the key>",
+ *       "quotas": { "parse": 500, "analyze": 500 },
+ *       "ratePerMinute": 60,
+ *       "privacyMode": true
+ *     }
+ *   }
+ *
+ * `quotas` and `ratePerMinute` are optional and default to the AI_QUOTA_* / AI_RATE_LIMIT_PER_MINUTE
+ * values. `privacyMode: true` redacts personal details from every AI call the key's requests make.
+ * The file is re-read whenever it changes, so keys can be added or revoked without a restart.
+ *
+ * Usage counters (API_USAGE_STORE: file (default) | memory, API_USAGE_FILE default .cache/api-usage.json)
+ * count requests and errors per key and endpoint.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync, statSync } from 'node:fs';
+import { AI_FEATURES, type AIFeature } from './ai-client';
+import { AIProviderError } from './ai-errors';
+import type { AIClientIdentity } from './ai-rate-limit.server';
+import { createStore, type MemoryStore } from './ai-store.server';
+import type { EndpointUsage } from './public-api';
+
+export interface ApiKey {
+    id: string;
+    keySha256: string;
+    quotas?: Partial<Record<AIFeature, number>>;
+    ratePerMinute?: number;
+    privacyMode?: boolean; // Always use privacy mode, whatever the request asks for
+}
+
+const MAX_USAGE_COUNTERS = 10000;
+const NEVER_EXPIRES = Number.MAX_SAFE_INTEGER;
+
+let loadedKeys: { path: string; mtimeMs: number; keys: ApiKey[] } | null = null;
+let usageStore: MemoryStore<number> | undefined;
+
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+function readKeysFile(path: string): ApiKey[] {
+    const raw = JSON.parse(readFileSync(path, 'utf8'));
+    const keys: ApiKey[] = [];
+
+    for (const [id, entry] of Object.entries(raw ?? {}) as Array<[string, any]>) {
+        if (typeof entry?.keySha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(entry.keySha256)) {
+            console.warn(`⚠️ Ignoring API key "${id}": expected a 64-character hex keySha256`);
+            continue;
+        }
+
+        const quotas: Partial<Record<AIFeature, number>> = {};
+        for (const feature of AI_FEATURES) {
+            const quota = entry.quotas?.[feature];
+            if (Number.isInteger(quota) && quota >= 0) quotas[feature] = quota;
+        }
+
+        keys.push({
+            id,
+            keySha256: entry.keySha256.toLowerCase(),
+            quotas,
+            ratePerMinute: Number.isInteger(entry.ratePerMinute) && entry.ratePerMinute > 0 ? entry.ratePerMinute : undefined,
+            privacyMode: entry.privacyMode === true,
+        });
+    }
+
+    return keys;
+}
+
+/**
+ * Configured keys, reloaded when the file's modification time changes
+ */
+function getApiKeys(): ApiKey[] {
+    const path = process.env.API_KEYS_FILE || 'api-keys.json';
+
+    let mtimeMs: number;
+    try {
+        mtimeMs = statSync(path).mtimeMs;
+    } catch {
+        loadedKeys = null;
+        return [];
+    }
+
+    if (loadedKeys?.path !== path || loadedKeys.mtimeMs !== mtimeMs) {
+        try {
+            const keys = readKeysFile(path);
+            loadedKeys = { path, mtimeMs, keys };
+            console.log(`🔑 Loaded ${keys.length} API key(s) from ${path}`);
+        } catch (error) {
+            console.error(`Failed to read API keys from ${path}:`, error);
+            loadedKeys = { path, mtimeMs, keys: [] };
+        }
+    }
+
+    return loadedKeys.keys;
+}
+
+/**
+ * The key sent as `Authorization: Bearer <key>` or `X-API-Key`
+ * Throws a 401 AIProviderError when it is missing or unknown
+ */
+export function authenticateApiKey(request: Request): ApiKey {
+    const bearer = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const presented = (bearer || request.headers.get('X-API-Key') || '').trim();
+    if (!presented) {
+        throw new AIProviderError('API key required: send `Authorization: Bearer <key>` or `X-API-Key`', 401, 'UNAUTHORIZED');
+    }
+
+    const presentedHash = Buffer.from(hashApiKey(presented), 'hex');
+    const apiKey = getApiKeys().find(key => timingSafeEqual(Buffer.from(key.keySha256, 'hex'), presentedHash));
+    if (!apiKey) {
+        throw new AIProviderError('Invalid API key', 401, 'UNAUTHORIZED');
+    }
+
+    return apiKey;
+}
+
+/**
+ * Rate-limit identity for a key, so its requests use the key's own quotas
+ */
+export function toClientIdentity(apiKey: ApiKey): AIClientIdentity {
+    return { clientId: `key:${apiKey.id}`, quotas: apiKey.quotas, ratePerMinute: apiKey.ratePerMinute };
+}
+
+function getUsageStore(): MemoryStore<number> {
+    usageStore ??= createStore<number>(
+        (process.env.API_USAGE_STORE || 'file').toLowerCase() === 'memory' ? 'memory' : 'file',
+        MAX_USAGE_COUNTERS,
+        process.env.API_USAGE_FILE || '.cache/api-usage.json'
+    );
+    return usageStore;
+}
+
+function increment(key: string): void {
+    const store = getUsageStore();
+    store.set(key, { value: (store.get(key)?.value ?? 0) + 1, expiresAt: NEVER_EXPIRES });
+}
+
+/**
+ * Count a finished request; responses with status 400 and above also count as errors
+ */
+export function recordApiUsage(apiKey: ApiKey, endpoint: string, status: number): void {
+    increment(`requests:${apiKey.id}:${endpoint}`);
+    if (status >= 400) increment(`errors:${apiKey.id}:${endpoint}`);
+}
+
+/**
+ * All-time request and error counters of a key, per endpoint
+ */
+export function getApiUsage(apiKey: ApiKey, endpoints: readonly string[]): Record<string, EndpointUsage> {
+    const store = getUsageStore();
+    return Object.fromEntries(endpoints.map(endpoint => [endpoint, {
+        requests: store.get(`requests:${apiKey.id}:${endpoint}`)?.value ?? 0,
+        errors: store.get(`errors:${apiKey.id}:${endpoint}`)?.value ?? 0,
+    }]));
+}
@@ -0,0 +1,86 @@
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { docxBlocksToText, isDocxFile, readDocxBlocks } from './docx';
+import { createZip } from './test-zip';
+
+const NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function paragraph(text: string, properties = ''): string {
+    const runs = text.split('\t').map(part => `<w:r><w:t xml:space="preserve">${part}</w:t></w:r>`).join('<w:r><w:tab/></w:r>');
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function docx(body: string, parts: Record<string, string> = {}): ArrayBuffer {
+    return createZip({
+        '[Content_Types].xml': '<Types/>',
+        'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${NAMESPACE}><w:body>${body}</w:body></w:document>`,
+        'word/styles.xml': `<w:styles ${NAMESPACE}>
+            <w:style w:styleId="Title"><w:name w:val="Title"/></w:style>
+            <w:style w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+            <w:style w:styleId="ListBullet"><w:name w:val="List Bullet"/></w:style>
+        </w:styles>`,
+        ...parts,
+    });
+}
+
+// The node environment has Blob streams for the ZIP reader but no XML parser
+beforeAll(() => {
+    vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+});
+
+describe('readDocxBlocks', () => {
+    it('keeps titles, headings, list items and table rows apart', async () => {
+        const blocks = await readDocxBlocks(docx([
+            paragraph('Jane Smith', '<w:pStyle w:val="Title"/>'),
+            paragraph('Experience', '<w:pStyle w:val="Heading1"/>'),
+            paragraph('Acme Corp\tJan 2020 - Present'),
+            paragraph('Built the billing API', '<w:pStyle w:val="ListBullet"/>'),
+            paragraph('Owned the ledger service', '<w:numPr><w:ilvl w:val="1"/><w:numId w:val="3"/></w:numPr>'),
+            paragraph('EDUCATION'),
+            '<w:tbl><w:tr><w:tc>' + paragraph('MIT') + '</w:tc><w:tc>' + paragraph('BSc, 2017') + '</w:tc></w:tr></w:tbl>',
+        ].join('')));
+
+        expect(blocks).toEqual([
+            { kind: 'title', text: 'Jane Smith', level: 0 },
+            { kind: 'heading', text: 'Experience', level: 1 },
+            { kind: 'paragraph', text: 'Acme Corp\tJan 2020 - Present', level: 0 },
+            { kind: 'list-item', text: 'Built the billing API', level: 0 },
+            { kind: 'list-item', text: 'Owned the ledger service', level: 1 },
+            { kind: 'heading', text: 'EDUCATION', level: 2 },
+            { kind: 'table-row', text: 'MIT | BSc, 2017', level: 0 },
+        ]);
+    });
+
+    it('reads each distinct page header once, before the body, and skips deleted text', async () => {
+        const header = `<w:hdr ${NAMESPACE}>${paragraph('jane@example.com | 555-0134')}</w:hdr>`;
+
+        const blocks = await readDocxBlocks(docx(
+            `<w:p><w:r><w:t>Kept</w:t></w:r><w:del><w:r><w:delText> removed</w:delText></w:r></w:del></w:p>`,
+            { 'word/header1.xml': header, 'word/header2.xml': header }
+        ));
+
+        expect(blocks.map(block => block.text)).toEqual(['jane@example.com | 555-0134', 'Kept']);
+    });
+
+    it('throws for a ZIP without a Word document', async () => {
+        await expect(readDocxBlocks(createZip({ 'Profile.csv': 'First Name' }))).rejects.toThrow('Not a Word document');
+    });
+});
+
+describe('docxBlocksToText', () => {
+    it('turns list items into bullets and tabs into column separators', () => {
+        expect(docxBlocksToText([
+            { kind: 'heading', text: 'Experience', level: 1 },
+            { kind: 'paragraph', text: 'Acme Corp\t\tJan 2020 - Present\t', level: 0 },
+            { kind: 'list-item', text: 'Built the billing API', level: 0 },
+            { kind: 'list-item', text: 'Owned the ledger service', level: 1 },
+        ])).toBe('Experience\nAcme Corp | Jan 2020 - Present\n• Built the billing API\n  • Owned the ledger service');
+    });
+});
+
+describe('isDocxFile', () => {
+    it('accepts the Word MIME type or a .docx name', () => {
+        expect(isDocxFile(new File([], 'resume.DOCX'))).toBe(true);
+        expect(isDocxFile(new File([], 'resume.pdf', { type: 'application/pdf' }))).toBe(false);
+    });
+});
@@ -0,0 +1,305 @@
+/**
+ * Word (.docx) resumes, read in the browser
+ * A .docx file is a ZIP package of OOXML parts; the paragraphs of word/document.xml (and the
+ * page headers, where many templates put the contact details) become blocks that keep headings,
+ * list items and table rows apart. The blocks are joined into the same line-per-paragraph text
+ * the PDF extractor gives the AI and rule-based parsers, and drawn onto a canvas for the preview
+ * image that convertPdfToImage produces for PDFs.
+ */
+
+import type { PdfConversionResult } from './pdf2img';
+import { openZip } from './zip';
+
+export interface DocxBlock {
+    kind: 'title' | 'heading' | 'paragraph' | 'list-item' | 'table-row';
+    text: string;
+    level: number; // Heading level (1 = top) or list nesting depth (0 = top)
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+interface StyleInfo {
+    name: string; // Lower-case display name, e.g. "heading 1", "list bullet"
+    isList: boolean;
+}
+
+function attr(element: Element | null | undefined, name: string): string | null {
+    if (!element) return null;
+    return element.getAttributeNS(W_NS, name) ?? element.getAttribute(`w:${name}`);
+}
+
+function childElements(element: Element, localName?: string): Element[] {
+    return Array.from(element.children).filter(child => !localName || child.localName === localName);
+}
+
+function firstChild(element: Element | null | undefined, localName: string): Element | null {
+    return element ? childElements(element, localName)[0] ?? null : null;
+}
+
+function parseXml(xml: string): Document {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) throw new Error('The Word document is damaged');
+    return document;
+}
+
+/**
+ * Paragraph styles by id; list styles (e.g. "List Bullet") carry their numbering in the style
+ */
+function readStyles(xml: string | null): Map<string, StyleInfo> {
+    const styles = new Map<string, StyleInfo>();
+    if (!xml) return styles;
+
+    for (const style of Array.from(parseXml(xml).getElementsByTagNameNS(W_NS, 'style'))) {
+        const id = attr(style, 'styleId');
+        if (!id) continue;
+        const name = (attr(firstChild(style, 'name'), 'val') || id).toLowerCase();
+        styles.set(id, { name, isList: Boolean(firstChild(firstChild(style, 'pPr'), 'numPr')) || /^list (bullet|number)/.test(name) });
+    }
+    return styles;
+}
+
+/**
+ * Visible text of a paragraph or cell: runs, tabs and line breaks; deleted text and field codes are skipped
+ */
+function readText(element: Element): string {
+    let text = '';
+    for (const child of childElements(element)) {
+        switch (child.localName) {
+            case 't':
+                text += child.textContent ?? '';
+                break;
+            case 'tab':
+                text += '\t';
+                break;
+            case 'br':
+            case 'cr':
+                text += '\n';
+                break;
+            case 'delText':
+            case 'instrText':
+            case 'del':
+            case 'pPr':
+            case 'rPr':
+                break;
+            default:
+                text += readText(child);
+        }
+    }
+    return text;
+}
+
+function readParagraph(paragraph: Element, styles: Map<string, StyleInfo>): DocxBlock | null {
+    const text = readText(paragraph).replace(/[  ]+/g, ' ').trim();
+    if (!text) return null;
+
+    const properties = firstChild(paragraph, 'pPr');
+    const style = styles.get(attr(firstChild(properties, 'pStyle'), 'val') ?? '');
+    const numbering = firstChild(properties, 'numPr');
+    const outlineLevel = attr(firstChild(properties, 'outlineLvl'), 'val');
+
+    if (style?.name === 'title') return { kind: 'title', text, level: 0 };
+    const headingLevel = style?.name.match(/^heading (\d)/)?.[1] ?? (outlineLevel !== null ? String(Number(outlineLevel) + 1) : null);
+    if (headingLevel) return { kind: 'heading', text, level: Number(headingLevel) };
+    if (numbering || style?.isList) {
+        return { kind: 'list-item', text, level: Number(attr(firstChild(numbering, 'ilvl'), 'val') ?? 0) };
+    }
+    // Many templates mark section titles with capitals instead of a heading style
+    if (text.length <= 40 && /[A-Z]/.test(text) && text === text.toUpperCase() && !/[@\d]/.test(text)) {
+        return { kind: 'heading', text, level: 2 };
+    }
+    return { kind: 'paragraph', text, level: 0 };
+}
+
+function readBody(container: Element, styles: Map<string, StyleInfo>, blocks: DocxBlock[]): void {
+    for (const child of childElements(container)) {
+        if (child.localName === 'p') {
+            const block = readParagraph(child, styles);
+            if (block) blocks.push(block);
+        } else if (child.localName === 'tbl') {
+            for (const row of childElements(child, 'tr')) {
+                const cells = childElements(row, 'tc')
+                    .map(cell => childElements(cell, 'p').map(readText).join(' ').replace(/\s+/g, ' ').trim())
+                    .filter(Boolean);
+                if (cells.length > 0) blocks.push({ kind: 'table-row', text: cells.join(' | '), level: 0 });
+            }
+        } else if (child.localName === 'sdt') {
+            // Content controls wrap ordinary paragraphs
+            const content = firstChild(child, 'sdtContent');
+            if (content) readBody(content, styles, blocks);
+        }
+    }
+}
+
+/**
+ * Read the blocks of a .docx file: page headers first (once each), then the document body
+ */
+export async function readDocxBlocks(data: ArrayBuffer): Promise<DocxBlock[]> {
+    const zip = openZip(data);
+    const documentXml = await zip.readText('word/document.xml');
+    if (!documentXml) throw new Error('Not a Word document (word/document.xml is missing)');
+
+    const styles = readStyles(await zip.readText('word/styles.xml'));
+    const blocks: DocxBlock[] = [];
+
+    const headerNames = zip.names.filter(name => /^word\/header\d*\.xml$/.test(name)).sort();
+    const seenHeaders = new Set<string>();
+    for (const name of headerNames) {
+        const headerBlocks: DocxBlock[] = [];
+        readBody(parseXml((await zip.readText(name))!).documentElement, styles, headerBlocks);
+        const key = headerBlocks.map(block => block.text).join('\n');
+        if (key && !seenHeaders.has(key)) {
+            seenHeaders.add(key);
+            blocks.push(...headerBlocks);
+        }
+    }
+
+    const body = parseXml(documentXml).getElementsByTagNameNS(W_NS, 'body')[0];
+    if (body) readBody(body, styles, blocks);
+    return blocks;
+}
+
+/**
+ * One line per block; list items become "•" bullets so the parsers see them as bullets, and
+ * tabs (usually a title and its dates on one line) become " | " column separators
+ */
+export function docxBlocksToText(blocks: DocxBlock[]): string {
+    return blocks
+        .map(block => (block.kind === 'list-item' ? `${'  '.repeat(block.level)}• ${block.text}` : block.text))
+        .join('\n')
+        .replace(/^\t+|\t+$/gm, '')
+        .replace(/\t+/g, ' | ')
+        .trim();
+}
+
+export function isDocxFile(file: File): boolean {
+    return file.type === DOCX_MIME_TYPE || /\.docx$/i.test(file.name);
+}
+
+export async function extractTextFromDocx(file: File): Promise<string> {
+    try {
+        console.log('📖 Reading Word document...');
+        const blocks = await readDocxBlocks(await file.arrayBuffer());
+        const text = docxBlocksToText(blocks);
+        console.log(`📖 Word document read: ${blocks.length} blocks, ${text.length} characters`);
+        return text;
+    } catch (err) {
+        console.error('❌ Error extracting text from Word document:', err);
+
+        try {
+            const { saveErrorLog } = await import('./firebase');
+            await saveErrorLog(err instanceof Error ? err : new Error(String(err)), {
+                errorType: 'DOCX_TEXT_EXTRACTION',
+                fileName: file.name,
+                fileSize: file.size,
+            });
+        } catch (logError) {
+            console.error('Failed to log error to Firebase:', logError);
+        }
+
+        return '';
+    }
+}
+
+// US Letter at 96 dpi, drawn at 2x for a sharp preview
+const PAGE_WIDTH = 816;
+const PAGE_HEIGHT = 1056;
+const PAGE_MARGIN = 64;
+const RENDER_SCALE = 2;
+
+const BLOCK_FONTS: Record<DocxBlock['kind'], { size: number; weight: string }> = {
+    'title': { size: 24, weight: 'bold' },
+    'heading': { size: 14, weight: 'bold' },
+    'paragraph': { size: 11, weight: 'normal' },
+    'list-item': { size: 11, weight: 'normal' },
+    'table-row': { size: 11, weight: 'normal' },
+};
+
+function wrapLine(context: CanvasRenderingContext2D, text: string, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && context.measureText(candidate).width > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
+/**
+ * Draw the first page of the document's text; a preview of the content, not of Word's exact layout
+ */
+function renderFirstPage(blocks: DocxBlock[]): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH * RENDER_SCALE;
+    canvas.height = PAGE_HEIGHT * RENDER_SCALE;
+    const context = canvas.getContext('2d')!;
+    context.scale(RENDER_SCALE, RENDER_SCALE);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    context.textBaseline = 'top';
+
+    const contentWidth = PAGE_WIDTH - 2 * PAGE_MARGIN;
+    let y = PAGE_MARGIN;
+
+    for (const [index, block] of blocks.entries()) {
+        // The first paragraph is usually the name; give it the title treatment
+        const font = index === 0 && block.kind === 'paragraph' ? BLOCK_FONTS.title : BLOCK_FONTS[block.kind];
+        const lineHeight = font.size * 1.4;
+        const indent = block.kind === 'list-item' ? 16 + block.level * 16 : 0;
+        context.font = `${font.weight} ${font.size}px Helvetica, Arial, sans-serif`;
+        context.fillStyle = block.kind === 'heading' ? '#1f2937' : '#111827';
+
+        if (block.kind === 'heading') y += 8;
+        const lines = wrapLine(context, block.text.replace(/\t+/g, '    '), contentWidth - indent);
+        if (y + lines.length * lineHeight > PAGE_HEIGHT - PAGE_MARGIN) break;
+
+        if (block.kind === 'list-item') context.fillText('•', PAGE_MARGIN + indent - 12, y);
+        for (const line of lines) {
+            context.fillText(line, PAGE_MARGIN + indent, y);
+            y += lineHeight;
+        }
+        if (block.kind === 'heading') {
+            context.fillRect(PAGE_MARGIN, y, contentWidth, 1);
+            y += 4;
+        }
+        y += font.size * 0.3;
+    }
+
+    return canvas;
+}
+
+export async function convertDocxToImage(file: File): Promise<PdfConversionResult> {
+    try {
+        const blocks = await readDocxBlocks(await file.arrayBuffer());
+        const canvas = renderFirstPage(blocks);
+
+        return await new Promise((resolve) => {
+            canvas.toBlob((blob) => {
+                if (blob) {
+                    const originalName = file.name.replace(/\.docx$/i, "");
+                    resolve({
+                        imageUrl: URL.createObjectURL(blob),
+                        file: new File([blob], `${originalName}.png`, { type: "image/png" }),
+                    });
+                } else {
+                    resolve({ imageUrl: "", file: null, error: "Failed to create image blob" });
+                }
+            }, "image/png");
+        });
+    } catch (err) {
+        return {
+            imageUrl: "",
+            file: null,
+            error: `Failed to convert Word document: ${err}`,
+        };
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * Helpers for reading numeric server settings from environment variables
+ */
+
+/**
+ * Read an integer ≥ `min` from `process.env[name]`, falling back when unset or invalid
+ */
+export function readIntEnv(name: string, fallback: number, min: number = 1): number {
+    const parsed = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { describeRewriteWarnings, findPlaceholders, guardRewrite, splitOnPlaceholders } from './fact-guard';
+
+describe('guardRewrite', () => {
+    it('keeps numbers the source contains, in any spelling', () => {
+        const result = guardRewrite(
+            'Cut costs by $5,000 and grew signups 40% with a team of 3',
+            'Reduced costs by $5k and increased signups by 40% leading 3 engineers'
+        );
+
+        expect(result.text).toBe('Reduced costs by $5k and increased signups by 40% leading 3 engineers');
+        expect(result.inventedNumbers).toEqual([]);
+    });
+
+    it('replaces invented numbers with placeholders', () => {
+        const result = guardRewrite(
+            'Improved the checkout flow',
+            'Improved the checkout flow, lifting conversion 25% and revenue by $1.2M for 10,000+ users, 3x faster'
+        );
+
+        expect(result.text).toBe('Improved the checkout flow, lifting conversion [X%] and revenue by [$X] for [X] users, [X]x faster');
+        expect(result.inventedNumbers).toEqual(['25%', '$1.2M', '10,000+', '3x']);
+    });
+
+    it('does not treat a percentage as the same number without one', () => {
+        expect(guardRewrite('Handled 40 tickets a day', 'Resolved 40% of tickets').inventedNumbers).toEqual(['40%']);
+    });
+
+    it('leaves digits inside names such as S3 or Q4 alone', () => {
+        expect(guardRewrite('Moved backups to the cloud', 'Moved backups to S3 in Q4').inventedNumbers).toEqual([]);
+    });
+
+    it('reports names and tools that only the rewrite mentions', () => {
+        const result = guardRewrite(
+            'Built the reporting pipeline with Python',
+            'Built the reporting pipeline with Python and Apache Spark on AWS, saving hours'
+        );
+
+        expect(result.newEntities).toEqual(['Apache Spark', 'AWS']);
+    });
+
+    it('ignores capitalized words at the start of a sentence', () => {
+        expect(guardRewrite('led the team', 'Spearheaded the team. Delivered on time.').newEntities).toEqual([]);
+    });
+});
+
+describe('placeholders', () => {
+    it('finds and splits out the placeholders left to fill in', () => {
+        const text = 'Grew revenue [X%] for [X users] in [$X] deals';
+
+        expect(findPlaceholders(text)).toEqual(['[X%]', '[X users]', '[$X]']);
+        expect(splitOnPlaceholders(text)).toEqual(['Grew revenue ', '[X%]', ' for ', '[X users]', ' in ', '[$X]', ' deals']);
+    });
+});
+
+describe('describeRewriteWarnings', () => {
+    it('is empty for a faithful rewrite and explains each problem otherwise', () => {
+        expect(describeRewriteWarnings(guardRewrite('Led 5 people', 'Managed 5 people'))).toEqual([]);
+
+        const warnings = describeRewriteWarnings(guardRewrite('Led people', 'Managed 12 people at Google'));
+        expect(warnings).toEqual([
+            'Numbers not in your original were replaced with placeholders: 12',
+            'Not in your original, check these are true: Google',
+        ]);
+    });
+});
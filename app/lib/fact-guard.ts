@@ -0,0 +1,116 @@
+/**
+ * Hallucination guard for AI rewrites of resume text
+ * Compares the rewrite against its source: numbers the source doesn't contain are replaced
+ * by placeholders the user has to fill in (`[X%]`, `[$X]`, `[X]`), and names, tools or
+ * acronyms that only appear in the rewrite are reported so they can be checked before use.
+ */
+
+export interface GuardedRewrite {
+    text: string; // The rewrite with invented numbers replaced by placeholders
+    inventedNumbers: string[]; // Numbers as the AI wrote them, before they were replaced
+    newEntities: string[]; // Capitalized names/acronyms the source doesn't mention
+}
+
+// "$1.2M", "40%", "3x", "10,000+", "15k"
+// Digits inside words ("S3", "Q4", "2FA") aren't metrics and are left alone
+const NUMBER_PATTERN = /(?<![\w.])(\$\s?)?\d+(?:,\d{3})*(?:\.\d+)?(?:\s?%|[kKmMbB](?![A-Za-z])|x(?![A-Za-z]))?\+?(?![A-Za-z\d])/g;
+const PLACEHOLDER_PATTERN = /\[\$?X[^\]]*\]/g;
+// Capitalized words and acronyms, allowing tech spellings such as "Node.js", "C++" and "AWS"
+const ENTITY_WORD = /^[A-Z][A-Za-z0-9]*(?:[.+#&/-][A-Za-z0-9+#]*)*$/;
+// Capitalized for emphasis rather than because they're names
+const COMMON_WORDS = new Set(['I', 'A', 'An', 'The', 'And', 'Or', 'By', 'For', 'With', 'To', 'In', 'On', 'Of', 'Through', 'Across', 'While']);
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Comparable key for a number token; "$5k" and "5,000" share one, "40%" and "40" don't
+ */
+function numberKey(token: string): string {
+    const match = token.replace(/[$,\s+]/g, '').match(/^(\d+(?:\.\d+)?)(%|[kmb]|x)?$/i);
+    if (!match) return token;
+    const suffix = match[2]?.toLowerCase() ?? '';
+    const value = parseFloat(match[1]) * (MULTIPLIERS[suffix] ?? 1);
+    return `${value}${suffix === '%' || suffix === 'x' ? suffix : ''}`;
+}
+
+function placeholderFor(token: string): string {
+    if (token.includes('%')) return '[X%]';
+    if (token.includes('$')) return '[$X]';
+    return /x\+?$/.test(token) ? '[X]x' : '[X]';
+}
+
+/**
+ * Placeholders still waiting to be filled in, e.g. ["[X%]", "[X users]"]
+ */
+export function findPlaceholders(text: string): string[] {
+    return text.match(PLACEHOLDER_PATTERN) ?? [];
+}
+
+/**
+ * Split text so every placeholder is its own part (at the odd indexes), for highlighting
+ */
+export function splitOnPlaceholders(text: string): string[] {
+    return text.split(new RegExp(`(${PLACEHOLDER_PATTERN.source})`));
+}
+
+/**
+ * Multi-word runs of capitalized words, skipping each sentence's first word
+ */
+function findEntities(text: string): string[] {
+    const entities: string[] = [];
+    let run: string[] = [];
+    let sentenceStart = true;
+
+    const endRun = () => {
+        if (run.length > 0) entities.push(run.join(' '));
+        run = [];
+    };
+
+    for (const raw of text.replace(PLACEHOLDER_PATTERN, ' ').split(/\s+/)) {
+        const word = raw.replace(/^[("'“‘]+|[)"'”’,;:!?]+$|\.$/g, '');
+        const isEntity = word.length > 1 && ENTITY_WORD.test(word) && !COMMON_WORDS.has(word) && !sentenceStart;
+        if (isEntity) {
+            run.push(word);
+        } else {
+            endRun();
+        }
+        sentenceStart = raw === '' ? sentenceStart : /[.!?:]["')]?$/.test(raw) || /^[-•*]$/.test(raw);
+        if (/[,;]$/.test(raw)) endRun();
+    }
+    endRun();
+    return entities;
+}
+
+/**
+ * Check an AI rewrite against the text it was made from
+ */
+export function guardRewrite(source: string, output: string): GuardedRewrite {
+    const sourceNumbers = new Set((source.match(NUMBER_PATTERN) ?? []).map(numberKey));
+    const inventedNumbers: string[] = [];
+
+    const text = output.replace(NUMBER_PATTERN, token => {
+        if (sourceNumbers.has(numberKey(token))) return token;
+        inventedNumbers.push(token.trim());
+        return placeholderFor(token);
+    });
+
+    const sourceWords = new Set(source.toLowerCase().split(/[^a-z0-9+#.]+/).filter(Boolean).map(word => word.replace(/\.$/, '')));
+    const newEntities = [...new Set(findEntities(text))]
+        .filter(entity => entity.toLowerCase().split(' ').some(word => !sourceWords.has(word)));
+
+    return { text, inventedNumbers, newEntities };
+}
+
+/**
+ * Reviewer-facing notes for a guarded rewrite; empty when nothing needs checking
+ */
+export function describeRewriteWarnings(rewrite: GuardedRewrite): string[] {
+    const warnings: string[] = [];
+    if (rewrite.inventedNumbers.length > 0) {
+        warnings.push(`Numbers not in your original were replaced with placeholders: ${rewrite.inventedNumbers.join(', ')}`);
+    }
+    if (rewrite.newEntities.length > 0) {
+        warnings.push(`Not in your original, check these are true: ${rewrite.newEntities.join(', ')}`);
+    }
+    return warnings;
+}
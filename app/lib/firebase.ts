@@ -2,6 +2,7 @@
 import { initializeApp } from "firebase/app";
 import { getAnalytics } from "firebase/analytics";
 import { getFirestore, collection, addDoc, getDocs, query, orderBy, Timestamp, collectionGroup, where, doc, setDoc, updateDoc } from "firebase/firestore";
+import type { AIUsageRecord } from "./ai-usage";
 
 // Your web app's Firebase configuration
 // For Firebase JS SDK v7.20.0 and later, measurementId is optional
@@ -565,6 +566,62 @@ export const getErrorLogs = async (): Promise<(ErrorLogRecord & { id: string })[
   }
 };
 
+/**
+ * AI usage record as stored in the ai_usage collection (see ai-usage.ts)
+ */
+export type AIUsageLogRecord = Omit<AIUsageRecord, 'timestamp'> & { timestamp: Timestamp };
+
+/**
+ * Save one AI call to the ai_usage collection (AI_TELEMETRY=firestore)
+ */
+export const saveAIUsageRecord = async (record: AIUsageRecord): Promise<string | null> => {
+  try {
+    const { timestamp, ...fields } = record;
+    const usageLog: AIUsageLogRecord = {
+      ...fields,
+      timestamp: Timestamp.fromDate(new Date(timestamp)),
+    };
+
+    // Firestore rejects undefined fields
+    Object.keys(usageLog).forEach(key => {
+      if ((usageLog as any)[key] === undefined) {
+        delete (usageLog as any)[key];
+      }
+    });
+
+    const docRef = await addDoc(collection(db, "ai_usage"), usageLog);
+    return docRef.id;
+  } catch (saveError: any) {
+    console.error('❌ Failed to save AI usage record to Firebase:', saveError);
+    // Don't throw - telemetry should never break the app
+    return null;
+  }
+};
+
+/**
+ * Get the AI usage records since a date, oldest first
+ */
+export const getAIUsageRecords = async (since: Date): Promise<AIUsageRecord[]> => {
+  try {
+    console.log("🔄 Fetching AI usage records from Firestore...");
+
+    const q = query(collection(db, "ai_usage"), where("timestamp", ">=", Timestamp.fromDate(since)), orderBy("timestamp", "asc"));
+    const querySnapshot = await getDocs(q);
+
+    const records: AIUsageRecord[] = [];
+    querySnapshot.forEach((doc) => {
+      const data = doc.data() as AIUsageLogRecord;
+      records.push({ ...data, timestamp: data.timestamp.toDate().toISOString() });
+    });
+
+    console.log(`✅ Retrieved ${records.length} AI usage records`);
+    return records;
+  } catch (error: any) {
+    console.error("❌ Error fetching AI usage records:", error);
+    return [];
+  }
+};
+
 export { db, analytics };
 export default app;
 
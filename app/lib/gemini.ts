@@ -3,6 +3,14 @@
  * Uses Google's Gemini API (free tier available)
  */
 
+import { callGeminiAPI, isAbortError } from './ai-client';
+import { parsedResumeSchema, resolveStructuredReply } from './ai-schema';
+import { createPIIRedactor, isPrivacyModeEnabled, type PIIRedactor } from './pii-redaction';
+import { guardUntrustedInput } from './prompt-guard';
+import { promptRequest } from './prompts';
+import { mergeParsedResumes, splitResumeText } from './resume-chunking';
+import { parseResumeText } from './resume-text-parser';
+
 export interface ParsedResumeData {
     personalInfo: {
         fullName: string;
@@ -44,121 +52,106 @@ export interface ParsedResumeData {
     }>;
 }
 
+// Above this many characters the single-prompt reply tends to be cut off at max_tokens
+const CHUNKED_PARSE_THRESHOLD = 8000;
+const MAX_CHUNK_CHARS = 5000;
+
 /**
  * Parse resume text using Gemini AI
+ * Long resumes (three-page CVs, academic resumes) are parsed section by section and merged
  * @param text - Extracted text from PDF
- * @param apiKey - Gemini API key (optional, can be set via env var)
+ * @param signal - Aborting it cancels the request(s); the promise then rejects with an AbortError
  * @returns Parsed resume data
  */
 export async function parseResumeWithGemini(
     text: string,
-    apiKey?: string
+    signal?: AbortSignal
 ): Promise<ParsedResumeData | null> {
-    try {
-        // Log the first 200 characters of the resume text for debugging
-        console.log('📄 Parsing resume text (first 200 chars):', text.substring(0, 200));
-        console.log('📏 Total resume text length:', text.length);
-        
-        const prompt = `You are an expert at parsing resumes. Extract ALL information from the ACTUAL resume text provided below. DO NOT use example data or placeholder values. Parse ONLY the information that exists in the resume text.
+    // In privacy mode the owner's name is guessed by the rule-based parser so it can be masked too
+    const redactor = isPrivacyModeEnabled() ? createPIIRedactor([parseResumeText(text).personalInfo.fullName]) : undefined;
+    if (text.length > CHUNKED_PARSE_THRESHOLD) {
+        return parseResumeInChunks(text, signal, redactor);
+    }
+    return parseResumeSinglePass(text, signal, redactor);
+}
 
-IMPORTANT: 
-- Extract information ONLY from the resume text provided below
-- DO NOT make up or invent information
-- DO NOT use example names like "John Doe" or placeholder data
-- If information is missing, use empty strings or empty arrays
-- Return ONLY valid JSON, no markdown, no code blocks, no explanations
+/**
+ * Split the resume into chunks, parse each one and merge the partial results
+ * Chunks are parsed one after another to stay within provider rate limits;
+ * a failed chunk is skipped rather than failing the whole resume
+ */
+async function parseResumeInChunks(text: string, signal?: AbortSignal, redactor?: PIIRedactor): Promise<ParsedResumeData | null> {
+    const chunks = splitResumeText(text, MAX_CHUNK_CHARS);
+    console.log(`✂️ Resume is ${text.length} characters, parsing in ${chunks.length} chunks:`, chunks.map(chunk => chunk.label));
 
-Required JSON structure:
-{
-  "personalInfo": {
-    "fullName": "string (extract from resume)",
-    "email": "string (extract from resume)",
-    "phone": "string (extract from resume)",
-    "location": "string (extract from resume)",
-    "linkedin": "string (extract from resume, full URL or username)",
-    "portfolio": "string (extract from resume, website URL)"
-  },
-  "summary": "string (extract professional summary/objective from resume)",
-  "experience": [
-    {
-      "company": "string (extract from resume)",
-      "position": "string (extract from resume)",
-      "startDate": "string (extract from resume, e.g., 'Jan 2020')",
-      "endDate": "string (extract from resume, e.g., 'Present' or 'Dec 2023')",
-      "location": "string (optional, extract from resume)",
-      "current": boolean (true if endDate is Present/Current),
-      "description": ["array of bullet points extracted from resume"]
-    }
-  ],
-  "education": [
-    {
-      "degree": "string (extract from resume, e.g., 'Bachelor of Science in Computer Science')",
-      "school": "string (extract from resume)",
-      "gpa": "string (extract from resume if mentioned, otherwise empty string)",
-      "graduationDate": "string (extract from resume, e.g., 'May 2020')"
-    }
-  ],
-  "skills": {
-    "technical": ["array of technical skills extracted from resume"],
-    "soft": ["array of soft skills extracted from resume"]
-  },
-  "projects": [
-    {
-      "name": "string (extract from resume)",
-      "description": "string (extract from resume)"
-    }
-  ],
-  "certifications": [
-    {
-      "name": "string (extract from resume)"
+    const parts: ParsedResumeData[] = [];
+    const failedChunks: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+        console.log(`✂️ Parsing chunk ${index + 1}/${chunks.length} (${chunk.label}, ${chunk.text.length} chars)`);
+        const part = await parseResumeSinglePass(chunk.text, signal, redactor);
+        if (part) {
+            parts.push(part);
+        } else {
+            failedChunks.push(chunk.label);
+        }
     }
-  ],
-  "achievements": [
-    {
-      "name": "string (extract from resume)"
+
+    if (parts.length === 0) {
+        return null;
     }
-  ]
-}
 
-ACTUAL RESUME TEXT TO PARSE:
-${text}
+    if (failedChunks.length > 0) {
+        console.warn('⚠️ Some resume chunks could not be parsed:', failedChunks);
+        try {
+            const { saveErrorLog } = await import('./firebase');
+            await saveErrorLog(new Error('Some resume chunks could not be parsed'), {
+                errorType: 'AI_RESUME_PARSING',
+                errorMessage: `Failed chunks: ${failedChunks.join(', ')}`,
+                textLength: text.length,
+                page: 'builder',
+                action: 'parseResumeInChunks',
+            });
+        } catch (logError) {
+            console.error('Failed to log error to Firebase:', logError);
+        }
+    }
 
-Now extract the information from the resume text above and return ONLY the JSON object.`;
+    const merged = mergeParsedResumes(parts);
+    console.log('✅ Merged chunked resume data:', {
+        chunks: chunks.length,
+        failedChunks: failedChunks.length,
+        experienceCount: merged.experience.length,
+        educationCount: merged.education.length,
+        skillCount: merged.skills.technical.length + merged.skills.soft.length,
+    });
+    return merged;
+}
 
-        // Call Hugging Face AI API through server-side proxy (avoids CORS)
-        const hfModel = 'meta-llama/Meta-Llama-3-8B-Instruct';
+/**
+ * Parse resume text (or one chunk of it) with a single prompt
+ */
+async function parseResumeSinglePass(text: string, signal?: AbortSignal, redactor?: PIIRedactor): Promise<ParsedResumeData | null> {
+    try {
+        // Log the first 200 characters of the resume text for debugging
+        console.log('📄 Parsing resume text (first 200 chars):', text.substring(0, 200));
+        console.log('📏 Total resume text length:', text.length);
         
-        const response = await fetch('/api/ai', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                prompt,
-                model: hfModel,
-            }),
+        const prompt = promptRequest('resume-parse', {
+            resumeText: guardUntrustedInput(text, 'resume', 'parseResumeWithGemini'),
         });
 
-        if (!response.ok) {
-            const errorData = await response.json();
-            const errorMessage = errorData.error || 'Unknown error';
-            
-            console.error('Hugging Face API error:', errorMessage);
-            
-            // Provide helpful error messages
-            if (errorMessage.includes('loading')) {
-                console.warn('⚠️ Model is loading. This may take 20-30 seconds on first request.');
-            } else if (errorMessage.includes('rate limit')) {
-                console.warn('⚠️ Rate limit exceeded. Please wait a moment and try again.');
-            }
-            
+        // Call the AI API through the server-side proxy (avoids CORS)
+        let data;
+        try {
+            data = await callGeminiAPI(prompt, { signal, redactor });
+        } catch (apiError) {
+            if (isAbortError(apiError)) throw apiError;
+            console.error('AI API error:', apiError instanceof Error ? apiError.message : apiError);
             return null;
         }
-
-        const data = await response.json();
         
         if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-            console.error('❌ Invalid response from Hugging Face API:', data);
+            console.error('❌ Invalid response from AI API:', data);
             return null;
         }
         
@@ -191,34 +184,20 @@ Now extract the information from the resume text above and return ONLY the JSON
             return null;
         }
         
-        // Extract JSON from response (remove markdown code blocks if present)
-        let jsonText = content.trim();
-        if (jsonText.startsWith('```json')) {
-            jsonText = jsonText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (jsonText.startsWith('```')) {
-            jsonText = jsonText.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
+        // Validate the reply against the ParsedResumeData schema (one repair re-prompt if it doesn't fit)
+        const result = await resolveStructuredReply(prompt, content, parsedResumeSchema, { signal, redactor });
 
-        try {
-            const parsed = JSON.parse(jsonText) as ParsedResumeData;
-            console.log('✅ Successfully parsed resume data:', {
-                fullName: parsed.personalInfo?.fullName,
-                email: parsed.personalInfo?.email,
-                experienceCount: parsed.experience?.length || 0,
-                educationCount: parsed.education?.length || 0
-            });
-            return validateAndCleanParsedData(parsed);
-        } catch (parseError) {
-            console.error('❌ Error parsing JSON from AI response:', parseError);
-            console.error('📄 Raw response text:', jsonText.substring(0, 1000));
+        if (!result.data) {
+            console.error('❌ AI response failed schema validation:', result.errors);
+            console.error('📄 Raw response text:', result.rawText.substring(0, 1000));
             
             // Save error to Firebase
             try {
                 const { saveErrorLog } = await import('./firebase');
-                await saveErrorLog(parseError instanceof Error ? parseError : new Error(String(parseError)), {
+                await saveErrorLog(new Error('AI response failed schema validation'), {
                     errorType: 'AI_JSON_PARSE_ERROR',
-                    errorMessage: `Failed to parse JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-                    rawResponse: jsonText.substring(0, 1000),
+                    errorMessage: `Failed to validate JSON: ${result.errors.slice(0, 10).join('; ')}`,
+                    rawResponse: result.rawText.substring(0, 1000),
                     textLength: text.length,
                     page: 'builder',
                     action: 'parseResumeWithGemini',
@@ -230,7 +209,20 @@ Now extract the information from the resume text above and return ONLY the JSON
             return null;
         }
 
+        const parsed = result.data;
+        console.log('✅ Successfully parsed resume data:', {
+            fullName: parsed.personalInfo.fullName,
+            email: parsed.personalInfo.email,
+            experienceCount: parsed.experience.length,
+            educationCount: parsed.education.length,
+            repaired: result.repaired
+        });
+        return parsed;
+
     } catch (error) {
+        // Cancellation is the caller's decision, not a parsing failure
+        if (isAbortError(error)) throw error;
+
         console.error('❌ Error parsing resume with Hugging Face:', error);
         
         // Save error to Firebase
@@ -249,57 +241,3 @@ Now extract the information from the resume text above and return ONLY the JSON
         return null;
     }
 }
-
-/**
- * Format Hugging Face response to match expected format
- */
-function formatHuggingFaceResponse(data: any): any {
-    let text = '';
-    
-    if (Array.isArray(data)) {
-        text = data[0]?.generated_text || data[0]?.text || '';
-    } else if (data.generated_text) {
-        text = data.generated_text;
-    } else if (data[0]?.generated_text) {
-        text = data[0].generated_text;
-    } else if (typeof data === 'string') {
-        text = data;
-    }
-
-    return {
-        candidates: [{
-            content: {
-                parts: [{
-                    text: text.trim()
-                }]
-            }
-        }]
-    };
-}
-
-/**
- * Validate and clean parsed resume data
- */
-function validateAndCleanParsedData(parsed: ParsedResumeData): ParsedResumeData {
-    return {
-        personalInfo: {
-            fullName: parsed.personalInfo?.fullName || '',
-            email: parsed.personalInfo?.email || '',
-            phone: parsed.personalInfo?.phone || '',
-            location: parsed.personalInfo?.location || '',
-            linkedin: parsed.personalInfo?.linkedin || '',
-            portfolio: parsed.personalInfo?.portfolio || '',
-        },
-        summary: parsed.summary || '',
-        experience: Array.isArray(parsed.experience) ? parsed.experience : [],
-        education: Array.isArray(parsed.education) ? parsed.education : [],
-        skills: {
-            technical: Array.isArray(parsed.skills?.technical) ? parsed.skills.technical : [],
-            soft: Array.isArray(parsed.skills?.soft) ? parsed.skills.soft : [],
-        },
-        projects: Array.isArray(parsed.projects) ? parsed.projects : [],
-        certifications: Array.isArray(parsed.certifications) ? parsed.certifications : [],
-        achievements: Array.isArray(parsed.achievements) ? parsed.achievements : [],
-    };
-}
-
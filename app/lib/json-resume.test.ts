@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedResumeData } from './gemini';
+import { exportJsonResume, fromIsoDate, importJsonResume, JSON_RESUME_SCHEMA_URL, toIsoDate, type JsonResume } from './json-resume';
+
+function resume(): ParsedResumeData {
+    return {
+        personalInfo: {
+            fullName: 'Jane Smith',
+            email: 'jane@example.com',
+            phone: '+1 415 555 0134',
+            location: 'San Francisco, CA',
+            linkedin: 'linkedin.com/in/janesmith',
+            portfolio: 'jane.dev',
+        },
+        summary: 'Backend engineer.',
+        experience: [
+            { company: 'Acme', position: 'Senior Engineer', startDate: 'Mar 2021', endDate: 'Present', location: 'Berlin', current: true, description: ['Built the billing API'] },
+            { company: 'Initech', position: 'Engineer', startDate: 'Summer 2018', endDate: 'Feb 2021', location: '', current: false, description: ['Wrote tests', 'Ran on-call'] },
+        ],
+        education: [{ degree: 'BSc Computer Science', school: 'MIT', gpa: '3.9', graduationDate: '2017' }],
+        skills: { technical: ['Go', 'PostgreSQL'], soft: ['Mentoring'] },
+        projects: [{ name: 'Ledger', description: 'Double-entry bookkeeping service' }],
+        certifications: [{ name: 'AWS SAA' }],
+        achievements: [{ name: 'Hackathon winner' }],
+    };
+}
+
+const SOURCE: JsonResume = {
+    basics: {
+        name: 'Jane Smith',
+        label: 'Backend Engineer',
+        email: 'jane@example.com',
+        location: { city: 'San Francisco', region: 'CA', countryCode: 'US', postalCode: '94110' },
+        profiles: [
+            { network: 'GitHub', username: 'jane', url: 'https://github.com/jane' },
+            { network: 'LinkedIn', username: 'janesmith' },
+        ],
+    },
+    work: [{ name: 'Acme', position: 'Engineer', startDate: '2021-03', endDate: '2023-06', url: 'https://acme.example', highlights: ['Built the billing API'] }],
+    skills: [{ name: 'Backend', level: 'Expert', keywords: ['Go', 'PostgreSQL'] }, { name: 'Soft Skills', keywords: ['Mentoring'] }],
+    languages: [{ language: 'German', fluency: 'Fluent' }],
+};
+
+describe('toIsoDate and fromIsoDate', () => {
+    it.each([
+        ['Jan 2020', '2020-01'],
+        ['September 2019', '2019-09'],
+        ['03/2021', '2021-03'],
+        ['2020-01-15', '2020-01-15'],
+        ['2020', '2020'],
+        ['Present', undefined],
+        ['Summer 2018', undefined],
+    ])('reads %j as %j', (value, expected) => {
+        expect(toIsoDate(value)).toBe(expected);
+    });
+
+    it('writes ISO months in the builder\'s form', () => {
+        expect(fromIsoDate('2020-01')).toBe('Jan 2020');
+        expect(fromIsoDate('2020-01-15')).toBe('Jan 2020');
+        expect(fromIsoDate('2020')).toBe('2020');
+        expect(fromIsoDate(undefined)).toBe('');
+    });
+});
+
+describe('exportJsonResume', () => {
+    it('writes a JSON Resume document with ISO dates and URLs', () => {
+        const json = exportJsonResume(resume());
+
+        expect(json.$schema).toBe(JSON_RESUME_SCHEMA_URL);
+        expect(json.basics).toMatchObject({
+            name: 'Jane Smith',
+            url: 'https://jane.dev',
+            location: { city: 'San Francisco', region: 'CA' },
+            profiles: [{ network: 'LinkedIn', url: 'https://linkedin.com/in/janesmith', username: 'janesmith' }],
+        });
+        expect(json.work?.[0]).toMatchObject({ name: 'Acme', startDate: '2021-03', highlights: ['Built the billing API'] });
+        expect(json.work?.[0].endDate).toBeUndefined();
+        expect(json.skills).toEqual([
+            { name: 'Technical Skills', keywords: ['Go', 'PostgreSQL'] },
+            { name: 'Soft Skills', keywords: ['Mentoring'] },
+        ]);
+    });
+
+    it('leaves out the builder\'s empty rows', () => {
+        const withBlanks = resume();
+        withBlanks.experience.push({ company: '', position: '', startDate: '', endDate: '', current: false, description: [''] });
+        withBlanks.skills.technical.push(' ');
+
+        expect(exportJsonResume(withBlanks)).toEqual(exportJsonResume(resume()));
+    });
+});
+
+describe('importJsonResume', () => {
+    it('gives back what was exported, including dates and text JSON Resume has no field for', () => {
+        const original = resume();
+
+        expect(importJsonResume(JSON.parse(JSON.stringify(exportJsonResume(original))))).toEqual(original);
+    });
+
+    it('maps a document written elsewhere onto the builder\'s fields', () => {
+        const imported = importJsonResume(SOURCE);
+
+        expect(imported.personalInfo).toEqual({
+            fullName: 'Jane Smith',
+            email: 'jane@example.com',
+            phone: '',
+            location: 'San Francisco, CA, US',
+            linkedin: 'linkedin.com/in/janesmith',
+            portfolio: 'github.com/jane',
+        });
+        expect(imported.experience).toEqual([
+            { company: 'Acme', position: 'Engineer', startDate: 'Mar 2021', endDate: 'Jun 2023', location: '', current: false, description: ['Built the billing API'] },
+        ]);
+        expect(imported.skills).toEqual({ technical: ['Go', 'PostgreSQL'], soft: ['Mentoring'] });
+    });
+
+    it('keeps what the builder cannot edit when exporting over the source', () => {
+        const edited = importJsonResume(SOURCE);
+        edited.experience[0].position = 'Senior Engineer';
+
+        const json = exportJsonResume(edited, SOURCE);
+
+        expect(json.basics).toEqual(SOURCE.basics);
+        expect(json.skills).toEqual(SOURCE.skills);
+        expect(json.languages).toEqual(SOURCE.languages);
+        expect(json.work).toEqual([{ ...SOURCE.work![0], position: 'Senior Engineer' }]);
+    });
+
+    it.each([
+        [null],
+        [[]],
+        [{ name: 'Jane' }],
+    ])('throws for %j', value => {
+        expect(() => importJsonResume(value)).toThrow('Not a JSON Resume file');
+    });
+});
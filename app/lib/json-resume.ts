@@ -0,0 +1,504 @@
+/**
+ * JSON Resume (https://jsonresume.org/schema) import and export
+ * Maps basics, work, education, skills, projects, certificates and awards onto ParsedResumeData
+ * and back. Values the schema can't hold exactly (free-text dates such as "Present", a location
+ * written as one string, URLs without a scheme, a finished role with no end date) are kept in an
+ * `x-resumeai` block on the entry they belong to. Exporting with the document that was imported
+ * as `source` brings back everything the builder has no field for (profiles, work summaries,
+ * volunteer, languages, ...), so neither round trip loses anything.
+ */
+
+import type { ParsedResumeData } from './gemini';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+/** Key of the block holding the original text of values the schema couldn't represent */
+export const JSON_RESUME_EXTENSION_KEY = 'x-resumeai';
+
+type Extension = Record<string, unknown>;
+
+export interface JsonResumeLocation {
+    address?: string;
+    postalCode?: string;
+    city?: string;
+    countryCode?: string;
+    region?: string;
+    [key: string]: unknown;
+}
+
+export interface JsonResumeProfile {
+    network?: string;
+    username?: string;
+    url?: string;
+    [key: string]: unknown;
+}
+
+export interface JsonResumeBasics {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JsonResumeLocation;
+    profiles?: JsonResumeProfile[];
+    [key: string]: unknown;
+}
+
+export interface JsonResumeWork {
+    name?: string;
+    position?: string;
+    location?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+    [key: string]: unknown;
+}
+
+export interface JsonResumeEducation {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+    [key: string]: unknown;
+}
+
+export interface JsonResumeSkill {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+    [key: string]: unknown;
+}
+
+export interface JsonResumeProject {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    [key: string]: unknown;
+}
+
+export interface JsonResumeCertificate {
+    name?: string;
+    date?: string;
+    issuer?: string;
+    url?: string;
+    [key: string]: unknown;
+}
+
+export interface JsonResumeAward {
+    title?: string;
+    date?: string;
+    awarder?: string;
+    summary?: string;
+    [key: string]: unknown;
+}
+
+export interface JsonResume {
+    $schema?: string;
+    basics?: JsonResumeBasics;
+    work?: JsonResumeWork[];
+    education?: JsonResumeEducation[];
+    skills?: JsonResumeSkill[];
+    projects?: JsonResumeProject[];
+    certificates?: JsonResumeCertificate[];
+    awards?: JsonResumeAward[];
+    // volunteer, publications, languages, interests, references, meta: passed through untouched
+    [key: string]: unknown;
+}
+
+type Experience = ParsedResumeData['experience'][number];
+type Education = ParsedResumeData['education'][number];
+type Project = ParsedResumeData['projects'][number];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const SOFT_SKILLS_GROUP = 'Soft Skills';
+const TECHNICAL_SKILLS_GROUP = 'Technical Skills';
+
+function sameJson(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function strings(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+}
+
+function objects<T>(value: unknown): T[] {
+    return Array.isArray(value) ? value.filter((item): item is T => !!item && typeof item === 'object') : [];
+}
+
+function extensionOf(entry: object | undefined): Extension {
+    const extension = (entry as Record<string, unknown> | undefined)?.[JSON_RESUME_EXTENSION_KEY];
+    return extension && typeof extension === 'object' ? (extension as Extension) : {};
+}
+
+/** Drop undefined keys so a merged entry doesn't keep a field the user cleared */
+function compact<T extends object>(entry: T): T {
+    return Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Export a value through a lossy conversion; the original goes into `extension` when converting
+ * back wouldn't give it again
+ */
+function exportLossy<T>(raw: string, convert: (raw: string) => T, back: (value: T) => string, extension: Extension, key: string): T {
+    const value = convert(raw);
+    if (back(value) !== raw) extension[key] = raw;
+    return value;
+}
+
+/**
+ * Import a value exported by exportLossy; the original text is used unless the value was edited since
+ */
+function importLossy<T>(value: T, convert: (raw: string) => T, back: (value: T) => string, extension: Extension, key: string): string {
+    const raw = extension[key];
+    return typeof raw === 'string' && sameJson(convert(raw), value) ? raw : back(value);
+}
+
+/**
+ * "Jan 2020", "01/2020", "2020-01-15" -> "2020-01" / "2020-01-15"; "2020" -> "2020";
+ * undefined for "Present" and anything else that isn't a date
+ */
+export function toIsoDate(value: string): string | undefined {
+    const date = value.trim();
+    if (/^(19|20)\d{2}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/.test(date)) return date;
+
+    const year = date.match(/^(?:[A-Za-z]+\.?\s+|\d{1,2}[/.-])?((?:19|20)\d{2})$/);
+    if (!year) return undefined;
+    const prefix = date.slice(0, date.length - 4).replace(/[\s/.-]+$/, '').toLowerCase();
+    if (!prefix) return year[1];
+
+    const month = /^\d+$/.test(prefix)
+        ? parseInt(prefix, 10)
+        : MONTHS.findIndex(name => prefix.startsWith(name.toLowerCase())) + 1;
+    return month >= 1 && month <= 12 ? `${year[1]}-${String(month).padStart(2, '0')}` : undefined;
+}
+
+/**
+ * "2020-01" or "2020-01-15" -> "Jan 2020"; other values are returned as they are
+ */
+export function fromIsoDate(value: string | undefined): string {
+    const match = (value ?? '').match(/^((?:19|20)\d{2})-(\d{2})(?:-\d{2})?$/);
+    if (!match) return value ?? '';
+    const month = MONTHS[parseInt(match[2], 10) - 1];
+    return month ? `${month} ${match[1]}` : match[1];
+}
+
+function toUrl(value: string): string | undefined {
+    if (!value) return undefined;
+    return /^[a-z][a-z\d+.-]*:/i.test(value) ? value : `https://${value}`;
+}
+
+function fromUrl(value: string | undefined): string {
+    return (value ?? '').replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '');
+}
+
+function toLocation(value: string): JsonResumeLocation | undefined {
+    const parts = value.split(',').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) return undefined;
+    if (parts.length === 1) return { city: parts[0] };
+    if (parts.length === 2) return { city: parts[0], region: parts[1] };
+    return { address: parts.slice(0, -2).join(', '), city: parts[parts.length - 2], region: parts[parts.length - 1] };
+}
+
+function fromLocation(location: JsonResumeLocation | undefined): string {
+    if (!location) return '';
+    return [location.address, location.city, location.region, location.countryCode].map(text).filter(Boolean).join(', ');
+}
+
+function isLinkedIn(profile: JsonResumeProfile): boolean {
+    return /linkedin/i.test(`${text(profile.network)} ${text(profile.url)}`);
+}
+
+function profileUrl(profile: JsonResumeProfile | undefined): string {
+    if (!profile) return '';
+    if (profile.url) return text(profile.url);
+    const username = text(profile.username);
+    return username && isLinkedIn(profile) ? `linkedin.com/in/${username}` : '';
+}
+
+// ---- JSON Resume -> ParsedResumeData ----
+
+function importBasics(basics: JsonResumeBasics | undefined): Pick<ParsedResumeData, 'personalInfo' | 'summary'> {
+    const extension = extensionOf(basics);
+    const profiles = objects<JsonResumeProfile>(basics?.profiles);
+    const linkedin = profiles.find(isLinkedIn);
+    // A personal site, or else the first other profile (usually GitHub)
+    const portfolio = text(basics?.url) || profileUrl(profiles.find(profile => !isLinkedIn(profile) && profileUrl(profile)));
+
+    return {
+        personalInfo: {
+            fullName: text(basics?.name),
+            email: text(basics?.email),
+            phone: text(basics?.phone),
+            location: importLossy(basics?.location, toLocation, fromLocation, extension, 'location'),
+            linkedin: importLossy(toUrl(profileUrl(linkedin)), toUrl, fromUrl, extension, 'linkedin'),
+            portfolio: importLossy(toUrl(portfolio), toUrl, fromUrl, extension, 'portfolio'),
+        },
+        summary: text(basics?.summary),
+    };
+}
+
+function importWork(work: JsonResumeWork): Experience {
+    const extension = extensionOf(work);
+    // An ongoing role has no endDate; the extension keeps what the builder showed, e.g. "Present"
+    const endDate = work.endDate
+        ? importLossy(text(work.endDate), toIsoDate, fromIsoDate, extension, 'endDate')
+        : text(extension.endDate);
+    const highlights = strings(work.highlights);
+    const summary = text(work.summary);
+
+    return {
+        company: text(work.name) || text(work.company),
+        position: text(work.position),
+        startDate: importLossy(text(work.startDate) || undefined, toIsoDate, fromIsoDate, extension, 'startDate'),
+        endDate,
+        location: text(work.location),
+        // No end date means the role is ongoing, unless the export said otherwise
+        current: work.endDate ? false : typeof extension.current === 'boolean' ? extension.current : true,
+        description: highlights.length > 0 ? highlights : summary ? [summary] : [],
+    };
+}
+
+function importEducation(education: JsonResumeEducation): Education {
+    const extension = extensionOf(education);
+    const studyType = text(education.studyType);
+    const area = text(education.area);
+
+    return {
+        degree: studyType && area ? `${studyType} in ${area}` : studyType || area,
+        school: text(education.institution),
+        gpa: text(education.score),
+        graduationDate: importLossy(text(education.endDate) || undefined, toIsoDate, fromIsoDate, extension, 'graduationDate'),
+    };
+}
+
+/**
+ * Skill groups named like "Soft Skills" or "Interpersonal" are soft skills; every other group is technical
+ */
+function skillCategory(group: JsonResumeSkill): keyof ParsedResumeData['skills'] {
+    return /soft|interpersonal|people|personal/i.test(text(group.name)) ? 'soft' : 'technical';
+}
+
+/** A group's keywords are its skills, or the group name when it has none */
+function skillItems(group: JsonResumeSkill): string[] {
+    const keywords = strings(group.keywords);
+    return keywords.length > 0 ? keywords : [text(group.name)].filter(Boolean);
+}
+
+function importSkills(skills: JsonResumeSkill[]): ParsedResumeData['skills'] {
+    const result: ParsedResumeData['skills'] = { technical: [], soft: [] };
+    for (const group of skills) {
+        const category = skillCategory(group);
+        result[category].push(...skillItems(group).filter(item => !result[category].includes(item)));
+    }
+    return result;
+}
+
+function importProject(project: JsonResumeProject): Project {
+    return {
+        name: text(project.name),
+        description: text(project.description) || strings(project.highlights).join(' '),
+    };
+}
+
+/**
+ * Read a JSON Resume document; throws when the value isn't one
+ */
+export function importJsonResume(json: unknown): ParsedResumeData {
+    if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error('Not a JSON Resume file');
+    const resume = json as JsonResume;
+    if (!['basics', 'work', 'education', 'skills'].some(key => key in resume)) {
+        throw new Error('Not a JSON Resume file (no basics, work, education or skills)');
+    }
+
+    return {
+        ...importBasics(resume.basics && typeof resume.basics === 'object' ? resume.basics : undefined),
+        experience: objects<JsonResumeWork>(resume.work).map(importWork),
+        education: objects<JsonResumeEducation>(resume.education).map(importEducation),
+        skills: importSkills(objects<JsonResumeSkill>(resume.skills)),
+        projects: objects<JsonResumeProject>(resume.projects).map(importProject),
+        certifications: objects<JsonResumeCertificate>(resume.certificates).map(certificate => ({ name: text(certificate.name) })),
+        achievements: objects<JsonResumeAward>(resume.awards).map(award => ({ name: text(award.title) })),
+    };
+}
+
+// ---- ParsedResumeData -> JSON Resume ----
+
+function withExtension<T extends object>(entry: T, extension: Extension): T {
+    return { ...entry, [JSON_RESUME_EXTENSION_KEY]: Object.keys(extension).length > 0 ? extension : undefined };
+}
+
+function exportBasics(resume: ParsedResumeData, source: JsonResumeBasics | undefined): JsonResumeBasics {
+    const { personalInfo } = resume;
+    const extension: Extension = {};
+    // Fields the user didn't touch keep the source's value (a structured location, the profile as written)
+    const unchanged = source ? importBasics(source).personalInfo : undefined;
+    const sourceExtension = extensionOf(source);
+    const keep = (field: 'location' | 'linkedin' | 'portfolio'): boolean => {
+        if (unchanged?.[field] !== personalInfo[field]) return false;
+        if (sourceExtension[field] !== undefined) extension[field] = sourceExtension[field];
+        return true;
+    };
+
+    let profiles = objects<JsonResumeProfile>(source?.profiles);
+    if (!keep('linkedin')) {
+        const url = exportLossy(personalInfo.linkedin, toUrl, fromUrl, extension, 'linkedin');
+        const linkedin = url
+            ? compact({ ...profiles.find(isLinkedIn), network: 'LinkedIn', url, username: url.match(/\/in\/([^/?#]+)/)?.[1] })
+            : undefined;
+        profiles = [...(linkedin ? [linkedin] : []), ...profiles.filter(profile => !isLinkedIn(profile))];
+    }
+
+    return withExtension({
+        ...source,
+        name: personalInfo.fullName || undefined,
+        email: personalInfo.email || undefined,
+        phone: personalInfo.phone || undefined,
+        url: keep('portfolio') ? source?.url : exportLossy(personalInfo.portfolio, toUrl, fromUrl, extension, 'portfolio'),
+        summary: resume.summary || undefined,
+        location: keep('location') ? source?.location : exportLossy(personalInfo.location, toLocation, fromLocation, extension, 'location'),
+        profiles: profiles.length > 0 ? profiles : undefined,
+    }, extension);
+}
+
+function exportWork(experience: Experience): JsonResumeWork {
+    const extension: Extension = {};
+    let endDate = exportLossy(experience.endDate, toIsoDate, fromIsoDate, extension, 'endDate');
+    if (experience.current && endDate) {
+        extension.endDate = experience.endDate;
+        endDate = undefined;
+    }
+    // Without an end date a role reads as ongoing; say so when it isn't
+    if (!endDate && !experience.current) extension.current = false;
+
+    return withExtension({
+        name: experience.company || undefined,
+        position: experience.position || undefined,
+        location: experience.location || undefined,
+        startDate: exportLossy(experience.startDate, toIsoDate, fromIsoDate, extension, 'startDate'),
+        endDate,
+        highlights: experience.description.length > 0 ? experience.description : undefined,
+    }, extension);
+}
+
+function exportEducation(education: Education): JsonResumeEducation {
+    const extension: Extension = {};
+    return withExtension({
+        institution: education.school || undefined,
+        studyType: education.degree || undefined,
+        area: undefined,
+        endDate: exportLossy(education.graduationDate, toIsoDate, fromIsoDate, extension, 'graduationDate'),
+        score: education.gpa || undefined,
+    }, extension);
+}
+
+/**
+ * Skill groups, keeping the source's groups (names, levels) for the skills still listed; skills
+ * that are new go into a "Technical Skills" or "Soft Skills" group at the end
+ */
+function exportSkills(skills: ParsedResumeData['skills'], source: unknown): JsonResumeSkill[] {
+    const remaining = { technical: [...skills.technical], soft: [...skills.soft] };
+    const groups: JsonResumeSkill[] = [];
+
+    for (const group of objects<JsonResumeSkill>(source)) {
+        const category = skillCategory(group);
+        const kept = skillItems(group).filter(item => remaining[category].includes(item));
+        if (kept.length === 0) continue;
+        remaining[category] = remaining[category].filter(item => !kept.includes(item));
+        groups.push(strings(group.keywords).length > 0 ? { ...group, keywords: kept } : group);
+    }
+
+    if (remaining.technical.length > 0) groups.push({ name: TECHNICAL_SKILLS_GROUP, keywords: remaining.technical });
+    if (remaining.soft.length > 0) groups.push({ name: SOFT_SKILLS_GROUP, keywords: remaining.soft });
+    return groups;
+}
+
+/**
+ * Export a section entry by entry. An entry that imports to exactly the item is reused as it
+ * is; otherwise the mapped fields are written over the source entry with the same key, keeping
+ * the fields this app has no place for.
+ */
+function exportEntries<T, J extends object>(
+    items: T[],
+    source: unknown,
+    importEntry: (entry: J) => T,
+    exportEntry: (item: T) => J,
+    key: (item: T) => string
+): J[] | undefined {
+    const unused = objects<J>(source);
+    const entries = items.map(item => {
+        const same = unused.findIndex(entry => sameJson(importEntry(entry), item));
+        if (same >= 0) return unused.splice(same, 1)[0];
+
+        const match = unused.findIndex(entry => key(importEntry(entry)) === key(item));
+        const mapped = exportEntry(item);
+        return compact(match >= 0 ? { ...unused.splice(match, 1)[0], ...mapped } : mapped);
+    });
+    return entries.length > 0 ? entries : undefined;
+}
+
+function isBlank(value: unknown): boolean {
+    if (typeof value === 'string') return !value.trim();
+    if (Array.isArray(value)) return value.every(isBlank);
+    if (value && typeof value === 'object') return Object.values(value).every(isBlank);
+    return true;
+}
+
+/**
+ * Write the resume as a JSON Resume document. Pass the document it was imported from as `source`
+ * to keep what the builder can't edit; blank entries (the builder's empty rows) are left out.
+ */
+export function exportJsonResume(resume: ParsedResumeData, source?: JsonResume): JsonResume {
+    const filled = <T,>(items: T[]) => items.filter(item => !isBlank(item));
+    const normalized: ParsedResumeData = {
+        personalInfo: resume.personalInfo,
+        summary: resume.summary,
+        experience: filled(resume.experience).map(item => ({ ...item, description: item.description.filter(line => line.trim()) })),
+        education: filled(resume.education),
+        skills: { technical: filled(resume.skills.technical), soft: filled(resume.skills.soft) },
+        projects: filled(resume.projects),
+        certifications: filled(resume.certifications),
+        achievements: filled(resume.achievements),
+    };
+    const imported = source ? importJsonResume(source) : undefined;
+
+    const basics = imported && sameJson(importBasics(source!.basics), { personalInfo: normalized.personalInfo, summary: normalized.summary })
+        ? source!.basics
+        : compact(exportBasics(normalized, source?.basics));
+    const skills = imported && sameJson(imported.skills, normalized.skills) ? source!.skills : exportSkills(normalized.skills, source?.skills);
+
+    return compact({
+        $schema: JSON_RESUME_SCHEMA_URL,
+        ...source,
+        basics,
+        work: exportEntries(normalized.experience, source?.work, importWork, exportWork, item => item.company),
+        education: exportEntries(normalized.education, source?.education, importEducation, exportEducation, item => item.school),
+        skills: skills && skills.length > 0 ? skills : undefined,
+        projects: exportEntries(
+            normalized.projects, source?.projects, importProject,
+            item => ({ name: item.name || undefined, description: item.description || undefined, highlights: undefined }),
+            item => item.name
+        ),
+        certificates: exportEntries(
+            normalized.certifications, source?.certificates, (entry: JsonResumeCertificate) => ({ name: text(entry.name) }),
+            item => ({ name: item.name }),
+            item => item.name
+        ),
+        awards: exportEntries(
+            normalized.achievements, source?.awards, (entry: JsonResumeAward) => ({ name: text(entry.title) }),
+            item => ({ title: item.name }),
+            item => item.name
+        ),
+    });
+}
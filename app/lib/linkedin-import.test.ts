@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedResumeData } from './gemini';
+import { mergeImportedResume, normalizeLinkedInDate, readLinkedInExport, sortPositionsNewestFirst } from './linkedin-import';
+import { createZip } from './test-zip';
+
+const PROFILE = `First Name,Last Name,Maiden Name,Address,Birth Date,Headline,Summary,Industry,Zip Code,Geo Location,Twitter Handles,Websites,Instant Messengers
+Jane,Smith,,,,Backend Engineer,"Builds APIs, mostly in Go.",Software,,"San Francisco, California",,"[PORTFOLIO:https://jane.dev,OTHER:https://www.linkedin.com/in/janesmith/]",`;
+
+const POSITIONS = `Company Name,Title,Description,Location,Started On,Finished On
+Globex,Intern,Wrote tests,Remote,Jun 2017,Aug 2017
+Acme,Senior Engineer,"• Built the billing API
+• Led a team of ""five""",Berlin,Mar 2021,
+Initech,Engineer,,,2018-01,Feb 2021`;
+
+const EMAILS = `Email Address,Confirmed,Primary,Updated On
+old@example.com,Yes,No,
+jane@example.com,Yes,Yes,`;
+
+function empty(): ParsedResumeData {
+    return {
+        personalInfo: { fullName: '', email: '', phone: '', location: '', linkedin: '', portfolio: '' },
+        summary: '',
+        experience: [],
+        education: [],
+        skills: { technical: [], soft: [] },
+        projects: [],
+        certifications: [],
+        achievements: [],
+    };
+}
+
+describe('readLinkedInExport', () => {
+    it('maps the CSV files of an export onto a resume', async () => {
+        const { resume, headline, files } = await readLinkedInExport(createZip({
+            'Basic_LinkedInDataExport/Profile.csv': `\uFEFF${PROFILE}`,
+            'Basic_LinkedInDataExport/Positions.csv': POSITIONS.replace(/\n/g, '\r\n'),
+            'Basic_LinkedInDataExport/Education.csv': 'School Name,Start Date,End Date,Notes,Degree Name,Activities\nMIT,2013,2017,GPA: 3.9/4.0,BSc Computer Science,',
+            'Basic_LinkedInDataExport/Skills.csv': 'Name\nGo\nTeam Leadership\nPostgreSQL',
+            'Basic_LinkedInDataExport/Email Addresses.csv': EMAILS,
+        }));
+
+        expect(headline).toBe('Backend Engineer');
+        expect(files).toEqual(['Profile.csv', 'Positions.csv', 'Education.csv', 'Skills.csv', 'Email Addresses.csv']);
+        expect(resume.personalInfo).toEqual({
+            fullName: 'Jane Smith',
+            email: 'jane@example.com',
+            phone: '',
+            location: 'San Francisco, California',
+            linkedin: 'linkedin.com/in/janesmith',
+            portfolio: 'jane.dev',
+        });
+        expect(resume.summary).toBe('Builds APIs, mostly in Go.');
+        expect(resume.experience).toEqual([
+            { company: 'Acme', position: 'Senior Engineer', startDate: 'Mar 2021', endDate: 'Present', location: 'Berlin', current: true, description: ['Built the billing API', 'Led a team of "five"'] },
+            { company: 'Initech', position: 'Engineer', startDate: 'Jan 2018', endDate: 'Feb 2021', location: '', current: false, description: [] },
+            { company: 'Globex', position: 'Intern', startDate: 'Jun 2017', endDate: 'Aug 2017', location: 'Remote', current: false, description: ['Wrote tests'] },
+        ]);
+        expect(resume.education).toEqual([{ degree: 'BSc Computer Science', school: 'MIT', gpa: '3.9/4.0', graduationDate: '2017' }]);
+        expect(resume.skills).toEqual({ technical: ['Go', 'PostgreSQL'], soft: ['Team Leadership'] });
+    });
+
+    it('throws for a ZIP that is not a LinkedIn export', async () => {
+        await expect(readLinkedInExport(createZip({ 'word/document.xml': '<w:document/>' }))).rejects.toThrow('not a LinkedIn data export');
+    });
+});
+
+describe('normalizeLinkedInDate', () => {
+    it.each([
+        ['Jan 2020', 'Jan 2020'],
+        ['2020-01', 'Jan 2020'],
+        ['01/2020', 'Jan 2020'],
+        ['2020', '2020'],
+        ['', ''],
+        [' Summer term ', 'Summer term'],
+    ])('reads %j as %j', (value, expected) => {
+        expect(normalizeLinkedInDate(value)).toBe(expected);
+    });
+});
+
+describe('sortPositionsNewestFirst', () => {
+    it('puts ongoing roles first and undated roles last', () => {
+        const positions = [
+            { startDate: '', endDate: '', current: false },
+            { startDate: 'Jan 2015', endDate: 'Dec 2016', current: false },
+            { startDate: 'Jan 2019', endDate: 'Present', current: true },
+            { startDate: 'Jan 2017', endDate: 'Dec 2018', current: false },
+        ];
+
+        expect(sortPositionsNewestFirst(positions).map(position => position.startDate)).toEqual(['Jan 2019', 'Jan 2017', 'Jan 2015', '']);
+    });
+});
+
+describe('mergeImportedResume', () => {
+    it('keeps filled-in fields and adds imported entries that are not there yet', () => {
+        const current = empty();
+        current.personalInfo.fullName = 'Jane A. Smith';
+        current.experience = [
+            { company: 'Acme', position: 'Senior Engineer', startDate: 'Mar 2021', endDate: 'Present', current: true, description: ['My own bullet'] },
+            { company: '', position: '', startDate: '', endDate: '', current: false, description: [''] },
+        ];
+        current.skills.technical = ['go', ''];
+
+        const imported = empty();
+        imported.personalInfo = { ...imported.personalInfo, fullName: 'Jane Smith', email: 'jane@example.com' };
+        imported.experience = [
+            { company: 'ACME', position: 'Senior Engineer', startDate: 'Mar 2021', endDate: 'Present', current: true, description: ['Imported bullet'] },
+            { company: 'Globex', position: 'Intern', startDate: 'Jun 2017', endDate: 'Aug 2017', current: false, description: [] },
+        ];
+        imported.skills.technical = ['Go', 'SQL'];
+
+        const merged = mergeImportedResume(current, imported);
+
+        expect(merged.personalInfo.fullName).toBe('Jane A. Smith');
+        expect(merged.personalInfo.email).toBe('jane@example.com');
+        expect(merged.experience.map(item => [item.company, item.description])).toEqual([
+            ['Acme', ['My own bullet']],
+            ['Globex', []],
+        ]);
+        expect(merged.skills.technical).toEqual(['go', 'SQL']);
+    });
+});
@@ -0,0 +1,235 @@
+/**
+ * LinkedIn data export ("Settings > Data privacy > Get a copy of your data") read in the browser
+ * The export is a ZIP of CSV files; Profile, Positions, Education, Skills, Certifications,
+ * Projects, Honors, email addresses and phone numbers are mapped onto ParsedResumeData with
+ * dates in the builder's "Jan 2020" form and positions sorted newest first. Nothing is uploaded.
+ */
+
+import type { ParsedResumeData } from './gemini';
+import { fromIsoDate, toIsoDate } from './json-resume';
+import { openZip, type ZipArchive } from './zip';
+
+export interface LinkedInImport {
+    resume: ParsedResumeData;
+    headline: string;
+    files: string[]; // The CSV files that were read, e.g. "Positions.csv"
+}
+
+type Row = Record<string, string>;
+type Experience = ParsedResumeData['experience'][number];
+
+const SOFT_SKILL_KEYWORDS = [
+    'leadership', 'communication', 'teamwork', 'team building', 'problem solving', 'collaboration',
+    'time management', 'mentoring', 'negotiation', 'public speaking', 'presentation', 'critical thinking',
+    'adaptability', 'creativity', 'management', 'customer service', 'interpersonal',
+];
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') index++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Rows of a CSV file in the export, keyed by column name. Some files start with a few lines of
+ * notes, so the header is the first row that has `column`. The file may sit in a sub-folder.
+ */
+async function readRows(zip: ZipArchive, fileName: string, column: string, files: string[]): Promise<Row[]> {
+    const path = zip.names.find(name => name.split('/').pop()?.toLowerCase() === fileName.toLowerCase());
+    if (!path) return [];
+    const text = (await zip.readText(path))?.replace(/^\uFEFF/, '') ?? '';
+
+    const rows = parseCsv(text);
+    const headerIndex = rows.findIndex(cells => cells.some(cell => cell.trim() === column));
+    if (headerIndex < 0) return [];
+    files.push(fileName);
+
+    const header = rows[headerIndex].map(cell => cell.trim());
+    return rows.slice(headerIndex + 1).map(cells =>
+        Object.fromEntries(header.map((name, index) => [name, (cells[index] ?? '').trim()]))
+    );
+}
+
+/**
+ * "Jan 2020", "2020-01", "01/2020" -> "Jan 2020"; "2020" stays; anything else is kept as written
+ */
+export function normalizeLinkedInDate(value: string | undefined): string {
+    const iso = toIsoDate(value ?? '');
+    return iso ? fromIsoDate(iso.slice(0, 7)) : (value ?? '').trim();
+}
+
+function stripUrl(url: string): string {
+    return url.replace(/^https?:\/\/(www\.)?/i, '').replace(/\/$/, '');
+}
+
+/**
+ * Profile "Websites" look like "[PORTFOLIO:https://jane.dev,OTHER:https://github.com/jane]"
+ */
+function readWebsites(value: string | undefined): string[] {
+    return (value ?? '').match(/(https?:\/\/|www\.)[^\s,\]]+/gi)?.map(stripUrl) ?? [];
+}
+
+/** Description lines without the bullet characters people type into LinkedIn */
+function descriptionLines(value: string | undefined): string[] {
+    return (value ?? '')
+        .split(/\n+/)
+        .map(line => line.replace(/^\s*[•·▪●◦‣\-–*]\s*/, '').trim())
+        .filter(Boolean);
+}
+
+/**
+ * Newest first: ongoing roles, then by end date, then by start date; undated roles go last
+ */
+export function sortPositionsNewestFirst<T extends Pick<Experience, 'startDate' | 'endDate' | 'current'>>(positions: T[]): T[] {
+    const sortKey = (position: T) => `${position.current ? '9999' : toIsoDate(position.endDate) ?? ''}|${toIsoDate(position.startDate) ?? ''}`;
+    return [...positions].sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
+
+function readPosition(row: Row): Experience {
+    const finishedOn = row['Finished On'];
+    return {
+        company: row['Company Name'] ?? '',
+        position: row['Title'] ?? '',
+        startDate: normalizeLinkedInDate(row['Started On']),
+        endDate: finishedOn ? normalizeLinkedInDate(finishedOn) : 'Present',
+        location: row['Location'] ?? '',
+        current: !finishedOn,
+        description: descriptionLines(row['Description']),
+    };
+}
+
+/**
+ * Read a LinkedIn data export; throws when the file isn't one
+ */
+export async function readLinkedInExport(data: ArrayBuffer): Promise<LinkedInImport> {
+    const zip = openZip(data);
+    const files: string[] = [];
+
+    const [profile] = await readRows(zip, 'Profile.csv', 'First Name', files);
+    const positions = await readRows(zip, 'Positions.csv', 'Company Name', files);
+    const education = await readRows(zip, 'Education.csv', 'School Name', files);
+    const skills = await readRows(zip, 'Skills.csv', 'Name', files);
+    const certifications = await readRows(zip, 'Certifications.csv', 'Name', files);
+    const projects = await readRows(zip, 'Projects.csv', 'Title', files);
+    const honors = await readRows(zip, 'Honors.csv', 'Title', files);
+    const emails = await readRows(zip, 'Email Addresses.csv', 'Email Address', files);
+    const phones = await readRows(zip, 'PhoneNumbers.csv', 'Number', files);
+
+    if (!profile && positions.length === 0) {
+        throw new Error('This ZIP is not a LinkedIn data export (it has no Profile.csv or Positions.csv)');
+    }
+
+    const websites = readWebsites(profile?.['Websites']);
+    const skillNames = skills.map(row => row['Name']).filter(Boolean);
+    const isSoft = (skill: string) => SOFT_SKILL_KEYWORDS.some(keyword => skill.toLowerCase().includes(keyword));
+    const email = emails.find(row => /^yes$/i.test(row['Primary'] ?? '')) ?? emails[0];
+
+    const resume: ParsedResumeData = {
+        personalInfo: {
+            fullName: [profile?.['First Name'], profile?.['Last Name']].filter(Boolean).join(' '),
+            email: email?.['Email Address'] ?? '',
+            phone: phones[0]?.['Number'] ?? '',
+            location: profile?.['Geo Location'] || profile?.['Address'] || '',
+            linkedin: websites.find(url => /linkedin\.com\/in\//i.test(url)) ?? '',
+            portfolio: websites.find(url => !/linkedin\.com/i.test(url)) ?? '',
+        },
+        summary: profile?.['Summary'] || profile?.['Headline'] || '',
+        experience: sortPositionsNewestFirst(positions.map(readPosition).filter(position => position.company || position.position)),
+        education: education
+            .filter(row => row['School Name'])
+            .map(row => ({
+                degree: row['Degree Name'] ?? '',
+                school: row['School Name'],
+                gpa: (row['Notes'] ?? '').match(/\bGPA\b[:\s]*(\d(?:\.\d+)?(?:\s*\/\s*\d(?:\.\d+)?)?)/i)?.[1] ?? '',
+                graduationDate: normalizeLinkedInDate(row['End Date']),
+            })),
+        skills: {
+            technical: skillNames.filter(skill => !isSoft(skill)),
+            soft: skillNames.filter(isSoft),
+        },
+        projects: projects
+            .filter(row => row['Title'])
+            .map(row => ({ name: row['Title'], description: row['Description'] ?? '' })),
+        certifications: certifications.filter(row => row['Name']).map(row => ({ name: row['Name'] })),
+        achievements: honors.filter(row => row['Title']).map(row => ({ name: row['Title'] })),
+    };
+
+    return { resume, headline: profile?.['Headline'] ?? '', files };
+}
+
+/** The builder's empty rows: no text anywhere (flags such as `current` don't count) */
+function filled<T extends object>(rows: T[]): T[] {
+    return rows.filter(row => Object.values(row).some(value =>
+        Array.isArray(value) ? value.some(item => String(item).trim()) : typeof value === 'string' && value.trim()
+    ));
+}
+
+function unionBy<T>(current: T[], imported: T[], key: (item: T) => string): T[] {
+    const seen = new Set(current.map(item => key(item).toLowerCase()));
+    return [...current, ...imported.filter(item => !seen.has(key(item).toLowerCase()))];
+}
+
+/**
+ * Merge an import into the form: filled-in fields win, imported entries that aren't already
+ * there (same company and title, school, name) are added, and positions are re-sorted newest first
+ */
+export function mergeImportedResume(current: ParsedResumeData, imported: ParsedResumeData): ParsedResumeData {
+    const personalInfo = { ...current.personalInfo };
+    for (const field of Object.keys(personalInfo) as Array<keyof typeof personalInfo>) {
+        personalInfo[field] = personalInfo[field].trim() ? personalInfo[field] : imported.personalInfo[field];
+    }
+    const skills = (category: keyof ParsedResumeData['skills']) => unionBy(
+        current.skills[category].filter(skill => skill.trim()),
+        imported.skills[category],
+        skill => skill
+    );
+
+    return {
+        personalInfo,
+        summary: current.summary.trim() ? current.summary : imported.summary,
+        experience: sortPositionsNewestFirst(
+            unionBy(filled(current.experience), imported.experience, item => `${item.company}|${item.position}`)
+        ),
+        education: unionBy(filled(current.education), imported.education, item => `${item.school}|${item.degree}`),
+        skills: { technical: skills('technical'), soft: skills('soft') },
+        projects: unionBy(filled(current.projects), imported.projects, item => item.name),
+        certifications: unionBy(filled(current.certifications), imported.certifications, item => item.name),
+        achievements: unionBy(filled(current.achievements), imported.achievements, item => item.name),
+    };
+}
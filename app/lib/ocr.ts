@@ -0,0 +1,110 @@
+/**
+ * Text recognition (OCR) for scanned PDFs and photographed resumes, run in the browser
+ * Uses the tesseract.js WASM engine with its worker, core and English language data served from
+ * /ocr (copied there by scripts/copy-ocr-assets.mjs), so nothing is fetched from a CDN and the
+ * resume never leaves the device for this step.
+ */
+
+import type { ImageLike, Worker } from 'tesseract.js';
+
+export interface OcrPage {
+    page: number; // 1-based
+    text: string;
+    confidence: number; // Mean word confidence reported by the engine, 0-100
+}
+
+export interface OcrResult {
+    text: string;
+    confidence: number; // Mean of the page confidences, weighted by the length of each page's text
+    pages: OcrPage[];
+}
+
+/** Called as pages are recognized; `progress` is 0-1 within the current page */
+export type OcrProgress = (page: number, pageCount: number, progress: number) => void;
+
+/** `accept` extensions of the image formats OCR reads */
+export const OCR_IMAGE_ACCEPT = '.png,.jpg,.jpeg';
+
+/** Pages recognized below this confidence probably have misread words */
+export const LOW_OCR_CONFIDENCE = 70;
+
+const OCR_ASSET_PATH = '/ocr';
+
+export function isImageFile(file: File): boolean {
+    return /^image\/(png|jpe?g)$/.test(file.type) || /\.(png|jpe?g)$/i.test(file.name);
+}
+
+async function createOcrWorker(onProgress: (progress: number) => void): Promise<Worker> {
+    const lib = await import('tesseract.js');
+    const createWorker = lib.createWorker ?? lib.default.createWorker;
+
+    console.log('🔎 Loading OCR engine...');
+    return createWorker('eng', 1 /* OEM.LSTM_ONLY */, {
+        workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+        corePath: OCR_ASSET_PATH,
+        langPath: OCR_ASSET_PATH,
+        logger: message => {
+            if (message.status === 'recognizing text') onProgress(message.progress);
+        },
+    });
+}
+
+/**
+ * Recognize the text of each page image, in order. Pages can be produced lazily (e.g. rendered
+ * one at a time from a PDF) so only one page image needs to be in memory.
+ */
+export async function recognizePages(
+    pages: Iterable<ImageLike> | AsyncIterable<ImageLike>,
+    pageCount: number,
+    onProgress?: OcrProgress
+): Promise<OcrResult> {
+    let currentPage = 0;
+    const worker = await createOcrWorker(progress => onProgress?.(currentPage, pageCount, progress));
+    const results: OcrPage[] = [];
+
+    try {
+        for await (const image of pages) {
+            currentPage++;
+            onProgress?.(currentPage, pageCount, 0);
+            const { data } = await worker.recognize(image);
+            const text = data.text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+            results.push({ page: currentPage, text, confidence: Math.round(data.confidence) });
+            console.log(`🔎 OCR page ${currentPage}/${pageCount}: ${text.length} characters, ${Math.round(data.confidence)}% confidence`);
+        }
+    } finally {
+        await worker.terminate();
+    }
+
+    const totalLength = results.reduce((sum, page) => sum + page.text.length, 0);
+    const confidence = totalLength > 0
+        ? Math.round(results.reduce((sum, page) => sum + page.confidence * page.text.length, 0) / totalLength)
+        : 0;
+
+    return {
+        text: results.map(page => page.text).filter(Boolean).join('\n'),
+        confidence,
+        pages: results,
+    };
+}
+
+/**
+ * What the user should know about a resume that had to be read with OCR: ATS systems can't read
+ * it either, and pages with low confidence may have misread words
+ */
+export function describeOcrWarnings(result: OcrResult): string[] {
+    const warnings = [
+        'This resume has no selectable text, so it was read with OCR (text recognition). ' +
+        'Most ATS systems do not run OCR and will see an empty resume; export a text-based PDF or DOCX from your editor before applying.',
+    ];
+
+    const lowPages = result.pages.filter(page => page.text && page.confidence < LOW_OCR_CONFIDENCE);
+    if (lowPages.length > 0) {
+        const pages = lowPages.map(page => `page ${page.page} (${page.confidence}%)`).join(', ');
+        warnings.push(`Text recognition was unsure on ${pages}; check the parsed details for misread words.`);
+    }
+    const emptyPages = result.pages.filter(page => !page.text);
+    if (emptyPages.length > 0) {
+        warnings.push(`No text was found on page ${emptyPages.map(page => page.page).join(', ')}.`);
+    }
+    return warnings;
+}
@@ -0,0 +1,130 @@
+/**
+ * OpenAPI description of the public /api/v1 API, served at GET /api/v1/openapi.json
+ * Component schemas come from openapi-schemas.generated.json (npm run generate:openapi);
+ * the paths below reference them by name
+ */
+
+import generated from './openapi-schemas.generated.json';
+
+interface EndpointSpec {
+    path: string;
+    method: 'get' | 'post';
+    summary: string;
+    description: string;
+    request?: string; // Component schema of the JSON body
+    response: string; // Component schema of the 200 reply
+    quotas: string[]; // Daily quota buckets the request counts against
+}
+
+const ENDPOINTS: EndpointSpec[] = [
+    {
+        path: '/api/v1/parse',
+        method: 'post',
+        summary: 'Parse resume text',
+        description: 'Extracts structured resume data from plain resume text.',
+        request: 'ParseRequest',
+        response: 'ParseResponse',
+        quotas: ['parse'],
+    },
+    {
+        path: '/api/v1/score',
+        method: 'post',
+        summary: 'Score a resume against a job description',
+        description: 'Parses the resume, gets AI feedback for the job and computes the ATS, JD match and content scores.',
+        request: 'ScoreRequest',
+        response: 'ScoreResponse',
+        quotas: ['parse', 'analyze'],
+    },
+    {
+        path: '/api/v1/rewrite',
+        method: 'post',
+        summary: 'Rewrite a resume bullet',
+        description: 'Rewrites one bullet or sentence. The original text is returned if the AI gives no usable reply.',
+        request: 'RewriteRequest',
+        response: 'RewriteResponse',
+        quotas: ['rewrite'],
+    },
+    {
+        path: '/api/v1/cover-letter',
+        method: 'post',
+        summary: 'Generate a cover letter',
+        description: 'Writes a cover letter from parsed resume data, or from resume text which is parsed first.',
+        request: 'CoverLetterRequest',
+        response: 'CoverLetterResponse',
+        quotas: ['cover-letter', 'parse (only when resumeText is sent)'],
+    },
+    {
+        path: '/api/v1/usage',
+        method: 'get',
+        summary: "The calling key's usage",
+        description: "Today's quota usage and the all-time request and error counters of the key.",
+        response: 'UsageResponse',
+        quotas: [],
+    },
+];
+
+const ERROR_RESPONSES: Record<string, string> = {
+    '400': 'Missing or invalid input (code INVALID_REQUEST)',
+    '401': 'Missing or unknown API key (code UNAUTHORIZED)',
+    '413': 'Input too large (code PROMPT_TOO_LARGE)',
+    '429': 'Per-minute rate limit or daily quota reached (codes RATE_LIMITED, QUOTA_EXCEEDED); see Retry-After',
+    '502': 'The AI produced no usable result, or the provider failed (codes ANALYSIS_FAILED, UPSTREAM_ERROR, ...)',
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+export function buildOpenAPIDocument(): Record<string, unknown> {
+    const paths: Record<string, unknown> = {};
+
+    for (const endpoint of ENDPOINTS) {
+        const responses: Record<string, unknown> = {
+            '200': {
+                description: 'Success',
+                content: { 'application/json': { schema: ref(endpoint.response) } },
+            },
+        };
+        for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+            if (endpoint.method === 'get' && status !== '401') continue;
+            responses[status] = {
+                description,
+                content: { 'application/json': { schema: ref('ApiErrorBody') } },
+            };
+        }
+
+        paths[endpoint.path] = {
+            [endpoint.method]: {
+                operationId: endpoint.path.replace('/api/v1/', '').replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase()),
+                summary: endpoint.summary,
+                description: endpoint.quotas.length > 0
+                    ? `${endpoint.description}\n\nCounts against the daily quotas: ${endpoint.quotas.join(', ')}.`
+                    : endpoint.description,
+                ...(endpoint.request && {
+                    requestBody: {
+                        required: true,
+                        content: { 'application/json': { schema: ref(endpoint.request) } },
+                    },
+                }),
+                responses,
+            },
+        };
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'AI Resume Analyzer API',
+            version: '1.0.0',
+            description: 'Resume parsing, scoring, rewriting and cover letters. Every endpoint except this document needs an API key.',
+        },
+        servers: [{ url: '/' }],
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+        paths,
+        components: {
+            schemas: generated.schemas,
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+                apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            },
+        },
+    };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { classifyPdfLines, layoutPdfPage, pdfBlocksToText, type PdfTextItem } from './pdf-layout';
+
+const PAGE_HEIGHT = 792;
+
+/** A PDF.js text item with its top-left corner at (x, top), in a font whose glyphs are half as wide as tall */
+function item(str: string, x: number, top: number, size = 10, fontName = 'F1'): PdfTextItem {
+    return { str, transform: [size, 0, 0, size, x, PAGE_HEIGHT - top], width: str.length * size * 0.5, height: size, fontName };
+}
+
+function page(items: PdfTextItem[]) {
+    return layoutPdfPage({ page: 1, width: 612, height: PAGE_HEIGHT, items, boldFonts: new Set(['F2']) });
+}
+
+/** A name and three roles with a date after each, in a column starting at x = 50 */
+function mainColumn(dateX: number): PdfTextItem[] {
+    const items = [item('Jane Doe', 50, 40, 18)];
+    let top = 80;
+    for (const company of ['Acme Corp', 'Globex', 'Initech']) {
+        items.push(item(company, 50, top), item('2020 - Present', dateX, top));
+        for (let index = 0; index < 3; index++) {
+            top += 14;
+            items.push(item(`Built and shipped a feature that improved things number ${index}`, 50, top));
+        }
+        top += 24;
+    }
+    return items;
+}
+
+describe('layoutPdfPage', () => {
+    it('reads a narrow right sidebar after the main column instead of mixing it in', () => {
+        const sidebar = ['SKILLS', 'React', 'Go', 'SQL', 'AWS'].map((text, index) => item(text, 480, 80 + index * 18));
+
+        const lines = page([...mainColumn(330), ...sidebar]);
+
+        const main = lines.filter(line => line.column === 1).map(line => line.text);
+        expect(main).toContain('Acme Corp | 2020 - Present');
+        expect(main.some(text => text.includes('React'))).toBe(false);
+        expect(lines.filter(line => line.column === 2).map(line => line.text)).toEqual(['SKILLS', 'React', 'Go', 'SQL', 'AWS']);
+        expect(lines.map(line => line.column)).toEqual([...lines.map(line => line.column)].sort());
+    });
+
+    it('keeps a single column with dates at a tab stop together', () => {
+        const lines = page(mainColumn(460));
+
+        expect(lines.every(line => line.column === 0)).toBe(true);
+        expect(lines.map(line => line.text)).toContain('Globex | 2020 - Present');
+    });
+
+    it('reads a left sidebar before the main column', () => {
+        const bullets = Array.from({ length: 12 }, (_, index) =>
+            item(`Led a project that delivered results for the team ${index}`, 180, 80 + index * 14));
+        const sidebar = ['SKILLS', 'React', 'Go', 'SQL'].map((text, index) => item(text, 40, 80 + index * 16));
+
+        const lines = page([...bullets, ...sidebar]);
+
+        expect(lines.slice(0, 4).map(line => [line.column, line.text])).toEqual([
+            [1, 'SKILLS'], [1, 'React'], [1, 'Go'], [1, 'SQL'],
+        ]);
+        expect(lines.slice(4).every(line => line.column === 2)).toBe(true);
+    });
+
+    it('joins fragments of one baseline into a line in reading order', () => {
+        const lines = page([item('world', 80, 100), item('Hello ', 50, 100)]);
+
+        expect(lines.map(line => line.text)).toEqual(['Hello world']);
+    });
+});
+
+describe('classifyPdfLines and pdfBlocksToText', () => {
+    it('finds the title, headings and bullets and joins wrapped lines', () => {
+        const lines = page([
+            item('Jane Doe', 50, 40, 18),
+            item('Experience', 50, 80, 12, 'F2'),
+            item('• Built the billing service used by', 50, 100),
+            item('every team in the company', 60, 112),
+            item('• Ran on-call', 50, 126),
+            item('Education', 50, 160, 12, 'F2'),
+            item('BSc Computer Science, MIT', 50, 180),
+        ]);
+
+        const blocks = classifyPdfLines(lines);
+
+        expect(blocks.map(block => [block.kind, block.text])).toEqual([
+            ['title', 'Jane Doe'],
+            ['heading', 'Experience'],
+            ['list-item', 'Built the billing service used by every team in the company'],
+            ['list-item', 'Ran on-call'],
+            ['heading', 'Education'],
+            ['paragraph', 'BSc Computer Science, MIT'],
+        ]);
+        expect(pdfBlocksToText(blocks)).toBe([
+            'Jane Doe',
+            '',
+            'Experience',
+            '• Built the billing service used by every team in the company',
+            '• Ran on-call',
+            '',
+            'Education',
+            'BSc Computer Science, MIT',
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,390 @@
+/**
+ * Layout-aware reading of PDF text
+ * PDF.js gives text as positioned fragments in drawing order, which for two-column resumes mixes
+ * the sidebar into the main column. The fragments are put back into lines by their baseline,
+ * a column gutter is looked for on each page, and every line becomes a block with a kind
+ * (title, heading, paragraph, list item) and its position. pdfBlocksToText turns the blocks into
+ * the line-per-block text the AI prompt and the rule-based parser read.
+ */
+
+/** A `textContent.items[]` entry of PDF.js */
+export interface PdfTextItem {
+    str: string;
+    transform: number[]; // [scaleX, skewY, skewX, scaleY, x, y], y from the bottom of the page
+    width: number;
+    height: number;
+    fontName: string;
+    hasEOL?: boolean;
+}
+
+export interface PdfTextBlock {
+    kind: 'title' | 'heading' | 'paragraph' | 'list-item';
+    text: string;
+    page: number; // 1-based
+    column: number; // 0 = full width or single-column page; 1 = left column, 2 = right column
+    x: number; // Left edge in PDF points from the left of the page
+    y: number; // Top of the first line in PDF points from the top of the page
+    width: number;
+    fontSize: number;
+    bold: boolean;
+}
+
+export interface PdfPageText {
+    page: number;
+    width: number;
+    height: number;
+    items: PdfTextItem[];
+    boldFonts: Set<string>; // fontName of items set in a bold face
+}
+
+interface Fragment {
+    text: string;
+    x: number;
+    right: number;
+    baseline: number; // From the top of the page
+    fontSize: number;
+    bold: boolean;
+}
+
+/** Part of a line; lines split where a gap is wide enough to be a gutter or a tab stop */
+interface Segment {
+    fragments: Fragment[];
+    x: number;
+    right: number;
+    baseline: number;
+}
+
+/** A line of one column, ready to be classified */
+export interface PdfLine {
+    text: string;
+    page: number;
+    column: number;
+    x: number;
+    right: number;
+    baseline: number;
+    fontSize: number;
+    bold: boolean;
+}
+
+// Includes the private-use code points Word's Symbol and Wingdings bullets come out as
+const BULLET_PATTERN = /^[•●▪■◦‣∙·○◆►▸✓➢\uF0A7\uF0B7\uF076\uF0D8\-–—*]\s*/;
+const SECTION_PATTERN = /^(professional |work |technical |core |key |relevant |additional )?(summary|profile|objective|about( me)?|experience|employment( history)?|work history|education|skills|competencies|projects|certifications?|licenses|awards|achievements|honors|languages?|interests|publications|volunteering|volunteer experience|references|contact)$/i;
+
+// A gap wider than this many font sizes splits a line into segments
+const SEGMENT_GAP = 1.5;
+// Lines crossing a gutter may hold at most this share of the text (a full-width header)
+const MAX_CROSSING_SHARE = 0.2;
+// A side holding this share of the text is a column
+const MIN_COLUMN_SHARE = 0.12;
+// A narrower side (a skills sidebar) is a column when it has this many segments, most of them
+// starting at one x and following the one above within MAX_SIDEBAR_LINE_GAP font sizes, and no
+// segment crosses the gutter beside it. Dates at a tab stop have bullets between them.
+const MIN_SIDEBAR_SEGMENTS = 3;
+const MIN_ALIGNED_SHARE = 0.5;
+const MAX_SIDEBAR_LINE_GAP = 2.5;
+
+function fragmentsOf(page: PdfPageText): Fragment[] {
+    return page.items
+        .filter(item => item.str.trim())
+        .map(item => {
+            const [, , skewX, scaleY, x, y] = item.transform;
+            const fontSize = Math.hypot(skewX, scaleY) || item.height || 10;
+            return {
+                text: item.str,
+                x,
+                right: x + item.width,
+                baseline: page.height - y,
+                fontSize,
+                bold: page.boldFonts.has(item.fontName),
+            };
+        });
+}
+
+/**
+ * Group fragments into lines by baseline, then split each line at wide gaps
+ */
+function segmentsOf(fragments: Fragment[]): Segment[] {
+    const sorted = [...fragments].sort((a, b) => a.baseline - b.baseline || a.x - b.x);
+    const lines: Fragment[][] = [];
+    for (const fragment of sorted) {
+        const line = lines[lines.length - 1];
+        const tolerance = 0.4 * Math.min(fragment.fontSize, line?.[0].fontSize ?? fragment.fontSize);
+        if (line && Math.abs(fragment.baseline - line[0].baseline) <= tolerance) {
+            line.push(fragment);
+        } else {
+            lines.push([fragment]);
+        }
+    }
+
+    const segments: Segment[] = [];
+    for (const line of lines) {
+        line.sort((a, b) => a.x - b.x);
+        let segment: Segment | null = null;
+        for (const fragment of line) {
+            if (segment && fragment.x - segment.right <= SEGMENT_GAP * fragment.fontSize) {
+                segment.fragments.push(fragment);
+                segment.right = Math.max(segment.right, fragment.right);
+            } else {
+                segment = { fragments: [fragment], x: fragment.x, right: fragment.right, baseline: line[0].baseline };
+                segments.push(segment);
+            }
+        }
+    }
+    return segments;
+}
+
+function segmentLength(segment: Segment): number {
+    return segment.fragments.reduce((sum, fragment) => sum + fragment.text.trim().length, 0);
+}
+
+/**
+ * Whether the segments on one side of a candidate gutter form a column: a large share of the
+ * text, or a left-aligned run of lines with clear space beside it (see MIN_SIDEBAR_SEGMENTS)
+ */
+function isColumn(side: Segment[], length: number, total: number, crossing: Segment[]): boolean {
+    if (length >= total * MIN_COLUMN_SHARE) return true;
+    if (side.length < MIN_SIDEBAR_SEGMENTS) return false;
+
+    const edges = new Map<number, number>();
+    for (const segment of side) {
+        const edge = Math.round(segment.x / 2);
+        edges.set(edge, (edges.get(edge) ?? 0) + 1);
+    }
+    if (Math.max(...edges.values()) < side.length * MIN_ALIGNED_SHARE) return false;
+
+    const sorted = [...side].sort((a, b) => a.baseline - b.baseline);
+    let adjacent = 0;
+    for (let i = 1; i < sorted.length; i++) {
+        const fontSize = sorted[i].fragments[0].fontSize;
+        if (sorted[i].baseline - sorted[i - 1].baseline <= MAX_SIDEBAR_LINE_GAP * fontSize) adjacent++;
+    }
+    if (adjacent < (sorted.length - 1) * MIN_ALIGNED_SHARE) return false;
+
+    const top = sorted[0].baseline, bottom = sorted[sorted.length - 1].baseline;
+    return !crossing.some(segment => segment.baseline >= top && segment.baseline <= bottom);
+}
+
+/**
+ * x of the gutter between two columns, or null for a single-column page. The gutter is the
+ * vertical line in the middle 60% of the page that the fewest segments cross while leaving
+ * the most text on its lighter side, with a column on both sides (see isColumn).
+ */
+function findGutter(segments: Segment[], pageWidth: number): number | null {
+    const total = segments.reduce((sum, segment) => sum + segmentLength(segment), 0);
+    if (total === 0) return null;
+
+    let best: { x: number; score: number } | null = null;
+    for (let x = Math.round(pageWidth * 0.2); x <= pageWidth * 0.8; x++) {
+        let left = 0, right = 0, crossing = 0;
+        const leftSegments: Segment[] = [], rightSegments: Segment[] = [], crossingSegments: Segment[] = [];
+        for (const segment of segments) {
+            const length = segmentLength(segment);
+            if (segment.right <= x) {
+                left += length;
+                leftSegments.push(segment);
+            } else if (segment.x >= x) {
+                right += length;
+                rightSegments.push(segment);
+            } else {
+                crossing += length;
+                crossingSegments.push(segment);
+            }
+        }
+        if (crossing > total * MAX_CROSSING_SHARE || Math.min(left, right) === 0) continue;
+        if (!isColumn(leftSegments, left, total, crossingSegments) ||
+            !isColumn(rightSegments, right, total, crossingSegments)) continue;
+        const score = Math.min(left, right) - crossing;
+        if (!best || score > best.score) best = { x, score };
+    }
+    return best?.x ?? null;
+}
+
+/**
+ * Text of a run of fragments; a space goes between fragments that aren't touching
+ */
+function joinFragments(fragments: Fragment[]): string {
+    let text = '';
+    let right = -Infinity;
+    for (const fragment of fragments) {
+        const gap = fragment.x - right;
+        if (text && gap > 0.15 * fragment.fontSize && !/\s$/.test(text) && !/^\s/.test(fragment.text)) text += ' ';
+        text += fragment.text;
+        right = fragment.right;
+    }
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Segments of one line and column joined; tab-stop gaps (a title and its dates) become " | "
+ */
+function toLine(segments: Segment[], page: number, column: number): PdfLine {
+    const fragments = segments.flatMap(segment => segment.fragments);
+    const weighted = (value: (fragment: Fragment) => number) =>
+        fragments.reduce((sum, fragment) => sum + value(fragment) * fragment.text.length, 0) /
+        Math.max(1, fragments.reduce((sum, fragment) => sum + fragment.text.length, 0));
+
+    return {
+        text: segments.map(segment => joinFragments(segment.fragments)).filter(Boolean).join(' | '),
+        page,
+        column,
+        x: segments[0].x,
+        right: segments[segments.length - 1].right,
+        baseline: segments[0].baseline,
+        fontSize: Math.round(weighted(fragment => fragment.fontSize) * 10) / 10,
+        bold: fragments.every(fragment => fragment.bold || !fragment.text.trim()),
+    };
+}
+
+function linesOf(segments: Segment[], page: number, column: number): PdfLine[] {
+    const byBaseline = new Map<number, Segment[]>();
+    for (const segment of segments) {
+        byBaseline.set(segment.baseline, [...(byBaseline.get(segment.baseline) ?? []), segment]);
+    }
+    return [...byBaseline.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, lineSegments]) => toLine(lineSegments.sort((a, b) => a.x - b.x), page, column));
+}
+
+/**
+ * Lines of a page in reading order. Full-width lines (name, contact details, a section spanning
+ * both columns) split the page into bands; within a band the left column is read before the right.
+ */
+export function layoutPdfPage(page: PdfPageText): PdfLine[] {
+    const segments = segmentsOf(fragmentsOf(page));
+    const gutter = findGutter(segments, page.width);
+    if (gutter === null) return linesOf(segments, page.page, 0);
+
+    // A segment on the same line as one crossing the gutter belongs to that full-width line
+    const fullWidthBaselines = new Set(segments
+        .filter(segment => segment.x < gutter && segment.right > gutter)
+        .map(segment => segment.baseline));
+    const inColumns = segments.filter(segment => !fullWidthBaselines.has(segment.baseline));
+    const left = linesOf(inColumns.filter(segment => segment.right <= gutter), page.page, 1);
+    const right = linesOf(inColumns.filter(segment => segment.x >= gutter), page.page, 2);
+    const fullWidth = linesOf(segments.filter(segment => fullWidthBaselines.has(segment.baseline)), page.page, 0);
+
+    const ordered: PdfLine[] = [];
+    let top = -Infinity;
+    for (const line of [...fullWidth, null]) {
+        const bottom = line?.baseline ?? Infinity;
+        const inBand = (columnLine: PdfLine) => columnLine.baseline > top && columnLine.baseline < bottom;
+        ordered.push(...left.filter(inBand), ...right.filter(inBand));
+        if (line) ordered.push(line);
+        top = bottom;
+    }
+    return ordered;
+}
+
+/** The most common font size, by characters: the size of body text */
+function bodyFontSize(lines: PdfLine[]): number {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.fontSize * 2) / 2;
+        counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 10;
+}
+
+/** Font size and weight of a line, rounded so lines set in the same style compare equal */
+function styleOf(line: PdfLine): string {
+    return `${Math.round(line.fontSize * 2) / 2}${line.bold ? 'b' : ''}`;
+}
+
+/**
+ * The style section headings are set in: the most common style among lines that are a section
+ * name ("Experience", "SKILLS") and at least body size. Null when no line is a section name.
+ */
+function headingStyle(lines: PdfLine[], bodySize: number): string | null {
+    const counts = new Map<string, number>();
+    for (const line of lines) {
+        if (line.fontSize < bodySize || !SECTION_PATTERN.test(line.text.replace(/[:|]+$/, '').trim())) continue;
+        counts.set(styleOf(line), (counts.get(styleOf(line)) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function isHeading(line: PdfLine, bodySize: number, sectionStyle: string | null): boolean {
+    const text = line.text.replace(/[:|]+$/, '').trim();
+    if (!text || text.length > 60 || /[.,;]$/.test(text) || BULLET_PATTERN.test(text)) return false;
+    if (sectionStyle) return styleOf(line) === sectionStyle && (line.bold || line.fontSize > bodySize || text === text.toUpperCase());
+    // No section name to learn the style from: large bold text, or capitals in the body size
+    if (line.bold && line.fontSize >= bodySize * 1.15) return true;
+    return text.length <= 40 && /[A-Z]{2}/.test(text) && text === text.toUpperCase() && !/[@\d]/.test(text);
+}
+
+function toBlock(line: PdfLine, kind: PdfTextBlock['kind'], text: string): PdfTextBlock {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    return {
+        kind,
+        text,
+        page: line.page,
+        column: line.column,
+        x: round(line.x),
+        y: round(line.baseline - line.fontSize),
+        width: round(line.right - line.x),
+        fontSize: line.fontSize,
+        bold: line.bold,
+    };
+}
+
+/**
+ * Whether a line continues the block of the line before it: same column, right below it and
+ * either indented past a bullet or a wrapped sentence (starting in lowercase at the same x)
+ */
+function continuesBlock(line: PdfLine, previousLine: PdfLine | null, previous: PdfTextBlock | undefined): boolean {
+    if (!previous || !previousLine || previousLine.page !== line.page || previousLine.column !== line.column) return false;
+    const gap = line.baseline - previousLine.baseline;
+    if (gap <= 0 || gap > 1.8 * line.fontSize) return false;
+    if (previous.kind === 'list-item') return line.x > previous.x + 0.5 * line.fontSize;
+    return previous.kind === 'paragraph' && Math.abs(line.x - previous.x) < 1 &&
+        line.fontSize === previousLine.fontSize && /^[a-z]/.test(line.text);
+}
+
+/**
+ * Classify the lines of a whole document into blocks; wrapped lines of a bullet or sentence are
+ * joined to it. The title (the largest text on the first page, usually the name) comes first even
+ * when it sits at the top of the second column.
+ */
+export function classifyPdfLines(lines: PdfLine[]): PdfTextBlock[] {
+    const bodySize = bodyFontSize(lines);
+    const sectionStyle = headingStyle(lines, bodySize);
+    const largest = Math.max(...lines.filter(line => line.page === 1).map(line => line.fontSize));
+    const title = lines.find(line => line.page === 1 && line.fontSize === largest && line.fontSize >= bodySize * 1.3);
+    const blocks: PdfTextBlock[] = [];
+
+    let previousLine: PdfLine | null = null;
+    for (const line of lines) {
+        const previous = blocks[blocks.length - 1];
+        const continues = previousLine !== title && continuesBlock(line, previousLine, previous);
+        previousLine = line;
+
+        if (line === title) {
+            blocks.unshift(toBlock(line, 'title', line.text));
+        } else if (BULLET_PATTERN.test(line.text)) {
+            blocks.push(toBlock(line, 'list-item', line.text.replace(BULLET_PATTERN, '')));
+        } else if (continues) {
+            previous.text = `${previous.text} ${line.text}`;
+            previous.width = Math.max(previous.width, Math.round((line.right - previous.x) * 10) / 10);
+        } else if (isHeading(line, bodySize, sectionStyle)) {
+            blocks.push(toBlock(line, 'heading', line.text.replace(/[:|]+$/, '').trim()));
+        } else {
+            blocks.push(toBlock(line, 'paragraph', line.text));
+        }
+    }
+    return blocks;
+}
+
+/**
+ * One line per block, with "•" bullets and a blank line before each heading and column, so
+ * sections stay apart for both the AI prompt and the rule-based parser
+ */
+export function pdfBlocksToText(blocks: PdfTextBlock[]): string {
+    const lines: string[] = [];
+    blocks.forEach((block, index) => {
+        const previous = blocks[index - 1];
+        const newArea = previous && (previous.page !== block.page || previous.column !== block.column);
+        if (previous && (block.kind === 'heading' || newArea)) lines.push('');
+        lines.push(block.kind === 'list-item' ? `• ${block.text}` : block.text);
+    });
+    return lines.join('\n').trim();
+}
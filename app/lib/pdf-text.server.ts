@@ -0,0 +1,35 @@
+/**
+ * Server-side PDF text extraction for the analysis API
+ * Uses the PDF.js legacy build, which runs in Node without a browser worker,
+ * and the same layout-aware line and column rules as the in-browser extractTextFromPdf
+ */
+
+import { readPdfText } from './pdf2img';
+
+let pdfjsLib: Promise<any> | null = null;
+
+function loadPdfJs(): Promise<any> {
+    pdfjsLib ??= import('pdfjs-dist/legacy/build/pdf.mjs');
+    return pdfjsLib;
+}
+
+/**
+ * Extract the text of a PDF file; throws when the bytes are not a readable PDF
+ */
+export async function extractTextFromPdfBuffer(data: Uint8Array): Promise<string> {
+    const lib = await loadPdfJs();
+    const pdf = await lib.getDocument({
+        data,
+        verbosity: 0, // Suppress warnings
+        isEvalSupported: false,
+    }).promise;
+
+    try {
+        console.log('📖 PDF loaded on the server, pages:', pdf.numPages);
+        const text = (await readPdfText(pdf)).trim();
+        console.log('📖 Total extracted text length:', text.length);
+        return text;
+    } finally {
+        await pdf.destroy();
+    }
+}
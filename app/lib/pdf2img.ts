@@ -1,3 +1,5 @@
+import { classifyPdfLines, layoutPdfPage, pdfBlocksToText, type PdfLine, type PdfTextBlock, type PdfTextItem } from "./pdf-layout";
+
 export interface PdfConversionResult {
     imageUrl: string;
     file: File | null;
@@ -84,6 +86,86 @@ export async function convertPdfToImage(
     }
 }
 
+/**
+ * Render the pages of a PDF one at a time for OCR; a page's canvas can be dropped before the next
+ * is drawn. Scale 3 gives ~216 dpi, enough for the OCR engine to read body text.
+ */
+export async function renderPdfPages(
+    file: File,
+    scale = 3
+): Promise<{ pageCount: number; pages: AsyncIterable<HTMLCanvasElement> }> {
+    const lib = await loadPdfJs();
+    const pdf = await lib.getDocument({ data: await file.arrayBuffer(), verbosity: 0 }).promise;
+
+    async function* pages(): AsyncGenerator<HTMLCanvasElement> {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const viewport = page.getViewport({ scale });
+            const canvas = document.createElement("canvas");
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+            yield canvas;
+        }
+    }
+
+    return { pageCount: pdf.numPages, pages: pages() };
+}
+
+/**
+ * Font names PDF.js reports for the bold faces used on a page; fonts are only loaded (and their
+ * names known) once the page's operators have been read
+ */
+async function readBoldFonts(page: any, fontNames: Set<string>): Promise<Set<string>> {
+    const bold = new Set<string>();
+    try {
+        await page.getOperatorList();
+        for (const fontName of fontNames) {
+            if (!page.commonObjs.has(fontName)) continue;
+            const font = page.commonObjs.get(fontName);
+            if (font?.bold || font?.black || /bold|black|heavy|semibold|demi/i.test(font?.name ?? '')) bold.add(fontName);
+        }
+    } catch (err) {
+        console.warn('⚠️ Could not read the fonts of the page; bold headings will not be detected', err);
+    }
+    return bold;
+}
+
+/**
+ * Blocks of every page of a loaded PDF.js document, in reading order (see pdf-layout.ts)
+ * Shared with the server-side extractor (pdf-text.server.ts)
+ */
+export async function readPdfBlocks(pdf: any): Promise<PdfTextBlock[]> {
+    const lines: PdfLine[] = [];
+
+    for (let i = 1; i <= pdf.numPages; i++) {
+        console.log(`📖 Extracting text from page ${i}/${pdf.numPages}...`);
+        const page = await pdf.getPage(i);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const textContent = await page.getTextContent();
+        const items: PdfTextItem[] = textContent.items.filter((item: any) => typeof item.str === 'string');
+        const boldFonts = await readBoldFonts(page, new Set(items.map(item => item.fontName)));
+
+        const pageLines = layoutPdfPage({ page: i, width, height, items, boldFonts });
+        if (pageLines.length > 0) {
+            console.log(`📖 Page ${i}: ${pageLines.length} lines${pageLines.some(line => line.column > 0) ? ' in two columns' : ''}`);
+        } else {
+            console.warn(`⚠️ Page ${i} had no extractable text`);
+        }
+        lines.push(...pageLines);
+    }
+
+    return classifyPdfLines(lines);
+}
+
+/**
+ * Text of a loaded PDF.js document: one line per block, columns one after the other
+ * Shared with the server-side extractor (pdf-text.server.ts)
+ */
+export async function readPdfText(pdf: any): Promise<string> {
+    return pdfBlocksToText(await readPdfBlocks(pdf));
+}
+
 export async function extractTextFromPdf(file: File): Promise<string> {
     try {
         console.log('📖 Loading PDF.js library...');
@@ -100,45 +182,13 @@ export async function extractTextFromPdf(file: File): Promise<string> {
         
         console.log('📖 PDF loaded, pages:', pdf.numPages);
         
-        let fullText = '';
-        
-        // Extract text from all pages
-        for (let i = 1; i <= pdf.numPages; i++) {
-            console.log(`📖 Extracting text from page ${i}/${pdf.numPages}...`);
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            
-            // More robust text extraction
-            const pageText = textContent.items
-                .map((item: any) => {
-                    // Handle different text item formats
-                    if (typeof item === 'string') {
-                        return item;
-                    }
-                    if (item.str) {
-                        return item.str;
-                    }
-                    if (item.text) {
-                        return item.text;
-                    }
-                    return '';
-                })
-                .filter((text: string) => text && text.trim().length > 0)
-                .join(' ');
-            
-            if (pageText.trim().length > 0) {
-                fullText += pageText + '\n';
-                console.log(`📖 Page ${i} extracted ${pageText.length} characters`);
-            } else {
-                console.warn(`⚠️ Page ${i} had no extractable text`);
-            }
-        }
+        const fullText = await readPdfText(pdf);
         
         const trimmedText = fullText.trim();
         console.log('📖 Total extracted text length:', trimmedText.length);
         
         if (trimmedText.length < 10) {
-            console.error('❌ Warning: Very little text extracted from PDF. This might be a scanned/image-based PDF.');
+            console.error('❌ Warning: Very little text extracted from PDF. This might be a scanned/image-based PDF (see readResumeText for the OCR fallback).');
         }
         
         return trimmedText;
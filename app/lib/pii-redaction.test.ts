@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createPIIRedactor, isPrivacyModeEnabled, privacyRedactor, setPrivacyModeSource } from './pii-redaction';
+
+const RESUME = `Jane Smith
+jane.smith@example.com | +1 (415) 555-0134 | linkedin.com/in/janesmith
+742 Evergreen Terrace, Springfield
+Software Engineer, Acme Corp, 2019 - 2023
+Jane led the migration to https://status.example.com.`;
+
+describe('createPIIRedactor', () => {
+    it('replaces emails, phone numbers, URLs, addresses and the owner\'s names', () => {
+        const redacted = createPIIRedactor(['Jane Smith']).redact(RESUME);
+
+        expect(redacted).not.toMatch(/jane|smith|555|evergreen|linkedin|status\.example/i);
+        expect(redacted).toContain('[EMAIL_1]');
+        expect(redacted).toContain('[PHONE_1]');
+        expect(redacted).toContain('[ADDRESS_1]');
+        expect(redacted).toContain('[NAME_1]');
+        expect(redacted).toMatch(/\[URL_1\].*\n.*\n.*\n.*\[URL_2\]\./);
+    });
+
+    it('leaves years, date ranges and other text alone', () => {
+        const redacted = createPIIRedactor(['Jane Smith']).redact(RESUME);
+
+        expect(redacted).toContain('Software Engineer, Acme Corp, 2019 - 2023');
+    });
+
+    it('restores every placeholder to the original text', () => {
+        const redactor = createPIIRedactor(['Jane Smith']);
+
+        expect(redactor.restore(redactor.redact(RESUME))).toBe(RESUME);
+    });
+
+    it('gives the same value the same placeholder across calls', () => {
+        const redactor = createPIIRedactor(['Jane Smith']);
+
+        const first = redactor.redact('Contact jane.smith@example.com');
+        const second = redactor.redact('Email: jane.smith@example.com, or ops@example.com');
+
+        expect(first).toBe('Contact [EMAIL_1]');
+        expect(second).toBe('Email: [EMAIL_1], or [EMAIL_2]');
+        expect(redactor.redactedCount).toBe(2);
+    });
+
+    it('does not mask a name inside another word', () => {
+        const redacted = createPIIRedactor(['Ann Lee']).redact('Annual planning with Ann and Lee');
+
+        expect(redacted).toBe('Annual planning with [NAME_1] and [NAME_2]');
+    });
+
+    it('redacts template variables and repair prompts but not the template id', () => {
+        const redactor = createPIIRedactor(['Jane Smith']);
+
+        const redacted = redactor.redactPrompt({
+            template: 'resume-parse',
+            variables: { resumeText: 'Jane Smith, jane@example.com' },
+            repair: { reply: '{"email":"jane@example.com"}', errors: 'fullName is missing' },
+        });
+
+        expect(redacted).toEqual({
+            template: 'resume-parse',
+            variables: { resumeText: '[NAME_1], [EMAIL_1]' },
+            repair: { reply: '{"email":"[EMAIL_1]"}', errors: 'fullName is missing' },
+        });
+    });
+
+    it('restores placeholders split across streamed chunks', () => {
+        const redactor = createPIIRedactor();
+        redactor.redact('jane@example.com');
+        const restorer = redactor.createStreamRestorer();
+
+        const output = ['Reach me at [EM', 'AIL_', '1] any time', ' [URL'].map(chunk => restorer.push(chunk)).join('') + restorer.flush();
+
+        expect(output).toBe('Reach me at jane@example.com any time [URL');
+    });
+});
+
+describe('privacy mode on the server', () => {
+    afterEach(() => setPrivacyModeSource(null));
+
+    it('is off without a browser or a request source', () => {
+        expect(isPrivacyModeEnabled()).toBe(false);
+        expect(privacyRedactor()).toBeUndefined();
+    });
+
+    it('follows the request source when one is set', () => {
+        let requested: boolean | undefined = true;
+        setPrivacyModeSource(() => requested);
+        expect(privacyRedactor(['Jane Smith'])?.redact('Jane Smith')).toBe('[NAME_1]');
+
+        requested = false;
+        expect(isPrivacyModeEnabled()).toBe(false);
+    });
+});
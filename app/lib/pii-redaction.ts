@@ -0,0 +1,182 @@
+/**
+ * Privacy mode: personal details are replaced by placeholders like `[EMAIL_1]` before a prompt
+ * leaves the browser, and the real values are put back into the reply (JSON or text)
+ * Detected: emails, phone numbers, URLs, street addresses and the names passed in (from
+ * `personalInfo`). The same value always gets the same placeholder within one redactor, so a
+ * repair re-prompt that quotes an earlier reply stays consistent.
+ * Enabled per browser with setPrivacyMode(); the AI client applies it to every request.
+ * On the server there is no browser setting: requests opt in, and privacy-mode.server.ts
+ * plugs the current request's choice in with setPrivacyModeSource().
+ */
+
+import type { PromptRequest } from './prompts';
+
+export type PIIKind = 'EMAIL' | 'PHONE' | 'URL' | 'ADDRESS' | 'NAME';
+
+export interface PIIRedactor {
+    redact(text: string): string;
+    restore(text: string): string;
+    /** Redact every string in a prompt or template request (variables and repair included) */
+    redactPrompt(prompt: string | PromptRequest): string | PromptRequest;
+    /** Restores streamed chunks; holds back a placeholder split across chunks until it is complete */
+    createStreamRestorer(): { push(chunk: string): string; flush(): string };
+    /** Number of distinct values replaced so far */
+    readonly redactedCount: number;
+}
+
+const PRIVACY_MODE_KEY = 'privacy-mode';
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()"'[\]]+|\b(?:linkedin\.com|github\.com|gitlab\.com)\/[^\s<>()"'[\]]+/gi;
+// Loose on purpose; matches with fewer than 9 digits (years, date ranges) are skipped below
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/g;
+const ADDRESS_PATTERN = /\b\d{1,6}\s+(?:[A-Z][A-Za-z]+\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?/g;
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|URL|ADDRESS|NAME)_(\d+)\]/g;
+const PARTIAL_PLACEHOLDER = /\[[A-Z]{0,7}_?\d{0,4}$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+let privacyModeSource: (() => boolean | undefined) | null = null;
+
+/**
+ * Let server code decide privacy mode per request; the source returns undefined outside a request
+ */
+export function setPrivacyModeSource(source: (() => boolean | undefined) | null): void {
+    privacyModeSource = source;
+}
+
+/**
+ * True when privacy mode is on for the current request (server) or was turned on in this browser
+ */
+export function isPrivacyModeEnabled(): boolean {
+    const requested = privacyModeSource?.();
+    if (requested !== undefined) return requested;
+
+    try {
+        return typeof localStorage !== 'undefined' && localStorage.getItem(PRIVACY_MODE_KEY) === 'on';
+    } catch {
+        return false;
+    }
+}
+
+export function setPrivacyMode(enabled: boolean): void {
+    try {
+        if (enabled) {
+            localStorage.setItem(PRIVACY_MODE_KEY, 'on');
+        } else {
+            localStorage.removeItem(PRIVACY_MODE_KEY);
+        }
+    } catch (error) {
+        console.error('Error saving privacy mode:', error);
+    }
+}
+
+/**
+ * Names worth masking: the full name, then each part of it with 3 or more letters
+ */
+function nameVariants(names: string[]): string[] {
+    const variants = new Set<string>();
+    for (const name of names) {
+        const full = name?.trim().replace(/\s+/g, ' ');
+        if (!full) continue;
+        variants.add(full);
+        for (const part of full.split(' ')) {
+            if (part.replace(/\W/g, '').length >= 3) variants.add(part);
+        }
+    }
+    // Longest first, so "Jane Smith" is replaced before "Jane"
+    return [...variants].sort((a, b) => b.length - a.length);
+}
+
+export function createPIIRedactor(names: string[] = []): PIIRedactor {
+    const tokensByValue = new Map<string, string>();
+    const valuesByToken = new Map<string, string>();
+    const counts: Record<PIIKind, number> = { EMAIL: 0, PHONE: 0, URL: 0, ADDRESS: 0, NAME: 0 };
+    const namePatterns = nameVariants(names).map(name => new RegExp(`(?<![\\w@])${escapeRegExp(name)}(?![\\w@])`, 'g'));
+
+    const tokenFor = (kind: PIIKind, value: string): string => {
+        const key = `${kind}:${value}`;
+        let token = tokensByValue.get(key);
+        if (!token) {
+            token = `[${kind}_${++counts[kind]}]`;
+            tokensByValue.set(key, token);
+            valuesByToken.set(token, value);
+        }
+        return token;
+    };
+
+    const redact = (text: string): string => {
+        if (!text) return text;
+
+        let result = text
+            .replace(EMAIL_PATTERN, match => tokenFor('EMAIL', match))
+            .replace(URL_PATTERN, match => {
+                // Sentence punctuation after a URL isn't part of it
+                const url = match.replace(/[.,;:!?]+$/, '');
+                return tokenFor('URL', url) + match.slice(url.length);
+            })
+            .replace(PHONE_PATTERN, match => {
+                const digits = match.replace(/\D/g, '').length;
+                return digits >= 9 && digits <= 15 ? tokenFor('PHONE', match) : match;
+            })
+            .replace(ADDRESS_PATTERN, match => tokenFor('ADDRESS', match));
+
+        for (const pattern of namePatterns) {
+            result = result.replace(pattern, match => tokenFor('NAME', match));
+        }
+        return result;
+    };
+
+    const restore = (text: string): string =>
+        text ? text.replace(PLACEHOLDER_PATTERN, token => valuesByToken.get(token) ?? token) : text;
+
+    const redactValue = (value: unknown): unknown => {
+        if (typeof value === 'string') return redact(value);
+        if (Array.isArray(value)) return value.map(redactValue);
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactValue(entry)]));
+        }
+        return value;
+    };
+
+    return {
+        redact,
+        restore,
+        redactPrompt(prompt) {
+            if (typeof prompt === 'string') return redact(prompt);
+            return {
+                ...prompt,
+                variables: redactValue(prompt.variables) as PromptRequest['variables'],
+                ...(prompt.repair && { repair: redactValue(prompt.repair) as PromptRequest['repair'] }),
+            };
+        },
+        createStreamRestorer() {
+            let pending = '';
+            return {
+                push(chunk) {
+                    pending += chunk;
+                    const partial = pending.match(PARTIAL_PLACEHOLDER);
+                    const ready = partial ? pending.slice(0, partial.index) : pending;
+                    pending = partial ? pending.slice(partial.index) : '';
+                    return restore(ready);
+                },
+                flush() {
+                    const rest = restore(pending);
+                    pending = '';
+                    return rest;
+                },
+            };
+        },
+        get redactedCount() {
+            return valuesByToken.size;
+        },
+    };
+}
+
+/**
+ * A redactor for the current request when privacy mode is on, otherwise undefined
+ * `names` are the resume owner's names (e.g. personalInfo.fullName); other PII is detected by pattern
+ */
+export function privacyRedactor(names: string[] = []): PIIRedactor | undefined {
+    return isPrivacyModeEnabled() ? createPIIRedactor(names) : undefined;
+}
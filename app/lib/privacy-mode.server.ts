@@ -0,0 +1,32 @@
+/**
+ * Privacy mode for server-side pipelines (/api/analyze and /api/v1)
+ * The browser setting lives in localStorage, so server callers opt in per request instead: a
+ * `privacyMode` field in the body or an `X-Privacy-Mode: on` header (API keys can also have it
+ * always on). The choice is kept for the duration of the request, so every AI call the pipeline
+ * makes redacts personal details the same way the browser does (see pii-redaction.ts).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { setPrivacyModeSource } from './pii-redaction';
+
+const requestPrivacyMode = new AsyncLocalStorage<boolean>();
+
+setPrivacyModeSource(() => requestPrivacyMode.getStore());
+
+const isOn = (value: unknown) =>
+    value === true || (typeof value === 'string' && ['on', 'true', '1'].includes(value.trim().toLowerCase()));
+
+/**
+ * True when the request asks for privacy mode, in its `X-Privacy-Mode` header or the body's `privacyMode` field
+ */
+export function requestsPrivacyMode(request: Request, field: unknown): boolean {
+    return isOn(request.headers.get('X-Privacy-Mode')) || isOn(field);
+}
+
+/**
+ * Run `task` with privacy mode on or off for every AI call it makes
+ */
+export function withPrivacyMode<T>(enabled: boolean, task: () => Promise<T>): Promise<T> {
+    if (enabled) console.log('🔒 Privacy mode on for this request');
+    return requestPrivacyMode.run(enabled, task);
+}
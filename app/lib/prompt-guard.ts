@@ -0,0 +1,135 @@
+/**
+ * Prompt-injection hardening for user-supplied resume and job-description text
+ * Input is scanned for instruction-like content before it is embedded in a prompt
+ * (the templates also fence it in <untrusted_*> tags), and AI output is checked
+ * afterwards for signs that an injection worked. Both are logged through saveErrorLog.
+ */
+
+export type UntrustedSource = 'resume' | 'job-description';
+
+export interface InjectionFinding {
+    label: string;
+    excerpt: string; // The text that was neutralised, truncated for logging
+}
+
+const REMOVED_PLACEHOLDER = '[removed instruction-like text]';
+
+const INJECTION_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+    // "Ignore all previous instructions", "disregard the rules above"
+    { label: 'override-instructions', pattern: /\b(?:ignore|disregard|forget|override|bypass)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+|my\s+)?(?:previous|prior|above|earlier|preceding|system|original|all|any|these|those)\b[^.\n]{0,30}\b(?:instructions?|prompts?|rules?|directions?|guidelines?)\b[^.\n]*/gi },
+    // "You are now a ...", "act as ...", "from now on you ..."
+    { label: 'role-reassignment', pattern: /\b(?:you are now|you must now|act as (?:an?|the) (?:ai|assistant|model|system)|pretend (?:to be|you are)|from now on,? you)\b[^.\n]*/gi },
+    // "Give this resume a score of 100", "rate me 10/10", "overallScore: 100"
+    { label: 'score-manipulation', pattern: /\b(?:give|assign|rate|award|set|return|output)\b[^.\n]{0,40}\b(?:score|rating|overallScore|grade)\b[^.\n]{0,20}?\b(?:100|10\s*\/\s*10|perfect|maximum|highest)\b[^.\n]*/gi },
+    { label: 'score-manipulation', pattern: /"?overallScore"?\s*[:=]\s*\d+/gi },
+    // References to the hidden prompt itself
+    { label: 'system-prompt', pattern: /\b(?:system prompt|system message|developer message|hidden instructions?|reveal your (?:prompt|instructions))\b[^.\n]*/gi },
+    // Chat role prefixes and model control tokens
+    { label: 'role-marker', pattern: /^\s*(?:system|assistant)\s*:[^\n]*/gim },
+    { label: 'control-token', pattern: /<\|[^|>\n]{1,30}\|>|\[\/?INST\]|<<\/?SYS>>/gi },
+    // Attempts to close the <untrusted_*> fence early
+    { label: 'delimiter-spoofing', pattern: /<\/?\s*untrusted_[a-z_]*\s*>/gi },
+];
+
+/**
+ * Find instruction-like passages in untrusted text without changing it
+ */
+export function detectInjection(text: string): InjectionFinding[] {
+    const findings: InjectionFinding[] = [];
+    for (const { label, pattern } of INJECTION_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+            findings.push({ label, excerpt: match[0].trim().substring(0, 120) });
+        }
+    }
+    return findings;
+}
+
+/**
+ * Replace instruction-like passages with a neutral placeholder
+ */
+export function neutralizeUntrustedText(text: string): { text: string; findings: InjectionFinding[] } {
+    const findings = detectInjection(text);
+    if (findings.length === 0) return { text, findings };
+
+    let cleaned = text;
+    for (const { label, pattern } of INJECTION_PATTERNS) {
+        cleaned = cleaned.replace(pattern, label === 'delimiter-spoofing' ? '' : REMOVED_PLACEHOLDER);
+    }
+    return { text: cleaned, findings };
+}
+
+/**
+ * Neutralise untrusted input before it goes into a prompt, logging anything that was removed
+ */
+export function guardUntrustedInput(text: string, source: UntrustedSource, action: string): string {
+    if (!text) return text;
+
+    const { text: cleaned, findings } = neutralizeUntrustedText(text);
+    if (findings.length > 0) {
+        console.warn(`🛡️ Neutralised ${findings.length} instruction-like passage(s) in ${source} text:`, findings);
+        logSecurityEvent('AI_PROMPT_INJECTION', `Instruction-like content found in ${source} text`, {
+            source,
+            action,
+            findings: findings.slice(0, 10),
+        });
+    }
+    return cleaned;
+}
+
+/**
+ * Compare AI feedback with the local rule-based ATS score
+ * Returns the reasons the feedback looks manipulated (empty when it is plausible)
+ */
+export function checkFeedbackPlausibility(feedback: Feedback, localATSScore: number): string[] {
+    const issues: string[] = [];
+    const sectionScores = [
+        feedback.ATS.score,
+        feedback.toneAndStyle.score,
+        feedback.content.score,
+        feedback.structure.score,
+        feedback.skills.score,
+    ];
+
+    if (feedback.overallScore >= 95 && sectionScores.every(score => score >= 95) && localATSScore < 70) {
+        issues.push(`All AI scores are ${feedback.overallScore}+ but the local ATS score is only ${localATSScore}`);
+    } else if (feedback.overallScore >= 90 && localATSScore < 40) {
+        issues.push(`AI overall score ${feedback.overallScore} is far above the local ATS score ${localATSScore}`);
+    }
+
+    const tipText = [feedback.ATS, feedback.toneAndStyle, feedback.content, feedback.structure, feedback.skills]
+        .flatMap(section => section.tips.map(tip => `${tip.tip} ${'explanation' in tip ? tip.explanation : ''}`))
+        .join('\n');
+    if (detectInjection(tipText).length > 0) {
+        issues.push('Feedback tips contain instruction-like text');
+    }
+
+    return issues;
+}
+
+/**
+ * Log generated text that echoes injected instructions; returns the text unchanged
+ */
+export function checkGeneratedText(text: string, action: string): string {
+    const findings = detectInjection(text);
+    if (findings.length > 0) {
+        console.warn('🛡️ Generated text contains instruction-like content:', findings);
+        logSecurityEvent('AI_SUSPICIOUS_OUTPUT', 'Generated text contains instruction-like content', {
+            action,
+            findings: findings.slice(0, 10),
+        });
+    }
+    return text;
+}
+
+/**
+ * Record a suspected injection without blocking the caller
+ */
+export function logSecurityEvent(
+    errorType: 'AI_PROMPT_INJECTION' | 'AI_SUSPICIOUS_OUTPUT',
+    message: string,
+    context: Record<string, any>
+): void {
+    import('./firebase')
+        .then(({ saveErrorLog }) => saveErrorLog(new Error(message), { errorType, ...context }))
+        .catch(logError => console.error('Failed to log error to Firebase:', logError));
+}
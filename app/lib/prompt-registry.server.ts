@@ -0,0 +1,115 @@
+/**
+ * Server-side prompt rendering with local overrides
+ * Templates from prompts.ts can be replaced by a JSON file (PROMPT_OVERRIDES_FILE,
+ * default prompts.overrides.json) shaped like:
+ *
+ *   { "cover-letter": { "version": 2, "template": "Write a cover letter for {{name}} ..." } }
+ *
+ * The file is re-read whenever it changes, so edits apply without a restart.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import type { AIFeature } from './ai-client';
+import { AIProviderError } from './ai-errors';
+import {
+    isPromptId,
+    PROMPT_TEMPLATES,
+    renderTemplate,
+    type PromptId,
+    type PromptTemplate,
+    type PromptTemplateInfo,
+} from './prompts';
+
+export interface RenderedPrompt {
+    prompt: string;
+    feature: AIFeature;
+    templateInfo: PromptTemplateInfo;
+}
+
+type PromptOverrides = Partial<Record<PromptId, Pick<PromptTemplate, 'version' | 'template'>>>;
+
+let loadedOverrides: { path: string; mtimeMs: number; overrides: PromptOverrides } | null = null;
+
+function readOverridesFile(path: string): PromptOverrides {
+    const raw = JSON.parse(readFileSync(path, 'utf8'));
+    const overrides: PromptOverrides = {};
+
+    for (const [id, entry] of Object.entries(raw ?? {}) as Array<[string, any]>) {
+        if (!isPromptId(id)) {
+            console.warn(`⚠️ Ignoring override for unknown prompt template "${id}"`);
+        } else if (typeof entry?.template !== 'string' || typeof entry?.version !== 'number') {
+            console.warn(`⚠️ Ignoring override for "${id}": expected { version: number, template: string }`);
+        } else {
+            overrides[id] = { version: entry.version, template: entry.template };
+        }
+    }
+
+    return overrides;
+}
+
+/**
+ * Current overrides, reloaded when the file's modification time changes
+ */
+function getOverrides(): PromptOverrides {
+    const path = process.env.PROMPT_OVERRIDES_FILE || 'prompts.overrides.json';
+
+    let mtimeMs: number;
+    try {
+        mtimeMs = statSync(path).mtimeMs;
+    } catch {
+        loadedOverrides = null;
+        return {};
+    }
+
+    if (loadedOverrides?.path !== path || loadedOverrides.mtimeMs !== mtimeMs) {
+        try {
+            const overrides = readOverridesFile(path);
+            loadedOverrides = { path, mtimeMs, overrides };
+            console.log(`🧩 Loaded prompt overrides from ${path}: ${Object.keys(overrides).join(', ') || 'none'}`);
+        } catch (error) {
+            console.error(`Failed to read prompt overrides from ${path}:`, error);
+            loadedOverrides = { path, mtimeMs, overrides: {} };
+        }
+    }
+
+    return loadedOverrides.overrides;
+}
+
+/**
+ * The effective template for an id, with where it came from
+ */
+export function getPromptTemplate(id: PromptId): PromptTemplate & { source: PromptTemplateInfo['source'] } {
+    const builtin = PROMPT_TEMPLATES[id];
+    const override = getOverrides()[id];
+    return override
+        ? { ...builtin, ...override, source: 'override' }
+        : { ...builtin, source: 'builtin' };
+}
+
+/**
+ * Render a `{ template, variables, repair? }` request body into a prompt
+ * Throws a 400 AIProviderError for unknown templates or missing variables
+ */
+export function renderPromptRequest(template: unknown, variables: unknown, repair?: unknown): RenderedPrompt {
+    if (!isPromptId(template)) {
+        throw new AIProviderError(`Unknown prompt template "${String(template)}"`, 400, 'UNKNOWN_PROMPT');
+    }
+
+    const resolved = getPromptTemplate(template);
+
+    try {
+        let prompt = renderTemplate(resolved.template, (variables ?? {}) as Record<string, unknown>);
+        if (repair) {
+            const repairTemplate = getPromptTemplate('json-repair');
+            prompt += `\n\n${renderTemplate(repairTemplate.template, repair as Record<string, unknown>)}`;
+        }
+
+        return {
+            prompt,
+            feature: resolved.feature,
+            templateInfo: { id: template, version: resolved.version, source: resolved.source },
+        };
+    } catch (error: any) {
+        throw new AIProviderError(`Prompt template "${template}": ${error.message}`, 400, 'INVALID_PROMPT_VARIABLES');
+    }
+}
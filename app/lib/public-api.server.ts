@@ -0,0 +1,144 @@
+/**
+ * Shared request handling of the public /api/v1 routes
+ * Authenticates the API key, runs the endpoint with the key's quotas (and privacy mode when the key
+ * or request asks for it), shapes the JSON reply or typed error, and counts the request in the key's
+ * usage counters
+ */
+
+import { setAITransport } from './ai-client';
+import { AIProviderError } from './ai-errors';
+import type { JobDescription, ParsedResumeData } from './ai-features';
+import { errorResponse, serverAITransport } from './ai-gateway.server';
+import { authenticateApiKey, recordApiUsage, toClientIdentity, type ApiKey } from './api-keys.server';
+import { checkAILimitCharges, type AILimitCharge } from './ai-rate-limit.server';
+import { parsedResumeSchema } from './ai-schema';
+import { requestsPrivacyMode, withPrivacyMode } from './privacy-mode.server';
+
+// Endpoints reported by GET /api/v1/usage
+export const PUBLIC_API_ENDPOINTS = ['parse', 'score', 'rewrite', 'cover-letter'] as const;
+export type PublicApiEndpoint = typeof PUBLIC_API_ENDPOINTS[number];
+
+export interface PublicApiContext {
+    apiKey: ApiKey;
+    body: any;
+    signal: AbortSignal;
+    /**
+     * Count one request against the key's quota for each charge; throws, without counting any,
+     * when one of them is used up
+     */
+    limit(...charges: AILimitCharge[]): void;
+}
+
+export function invalidRequest(message: string, status: number = 400): AIProviderError {
+    return new AIProviderError(message, status, 'INVALID_REQUEST');
+}
+
+/**
+ * A required, non-empty string field of the request body
+ */
+export function requireString(body: any, field: string): string {
+    const value = body?.[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw invalidRequest(`\`${field}\` must be a non-empty string`);
+    }
+    return value.trim();
+}
+
+/**
+ * The `jobDescription` object of the request body; `description` is required
+ */
+export function requireJobDescription(body: any): JobDescription {
+    const job = body?.jobDescription;
+    if (!job || typeof job !== 'object' || Array.isArray(job)) {
+        throw invalidRequest('`jobDescription` must be an object with a `description`');
+    }
+
+    const optional = (field: string) => typeof job[field] === 'string' ? job[field].trim() : '';
+    return {
+        title: optional('title'),
+        company: optional('company'),
+        description: requireString(job, 'description'),
+        requiredSkills: Array.isArray(job.requiredSkills)
+            ? job.requiredSkills.filter((skill: unknown): skill is string => typeof skill === 'string')
+            : undefined,
+    };
+}
+
+/**
+ * Client-supplied parsed resume data, checked against the same schema as AI parser output
+ */
+export function readParsedResume(value: unknown): ParsedResumeData {
+    const errors: string[] = [];
+    const data = parsedResumeSchema(value, 'parsedResumeData', errors);
+    if (errors.length > 0) {
+        throw invalidRequest(`Invalid parsedResumeData: ${errors.slice(0, 5).join('; ')}`);
+    }
+    return data;
+}
+
+export function analysisFailed(message: string): AIProviderError {
+    return new AIProviderError(message, 502, 'ANALYSIS_FAILED');
+}
+
+/**
+ * Run a POST endpoint: authenticate, read the JSON body and reply with whatever `run` returns
+ */
+export async function handlePublicApiRequest(
+    request: Request,
+    endpoint: PublicApiEndpoint,
+    run: (context: PublicApiContext) => Promise<unknown>
+): Promise<Response> {
+    let apiKey: ApiKey;
+    try {
+        apiKey = authenticateApiKey(request);
+    } catch (error) {
+        return errorResponse(error, {});
+    }
+
+    let limitHeaders: Record<string, string> = {};
+    const identity = toClientIdentity(apiKey);
+
+    // The endpoints use the same AI helpers as the browser; on the server they call the providers in-process
+    setAITransport(serverAITransport);
+
+    let response: Response;
+    try {
+        const body = await request.json().catch(() => {
+            throw invalidRequest('Body must be JSON');
+        });
+
+        const privacyMode = Boolean(apiKey.privacyMode) || requestsPrivacyMode(request, body?.privacyMode);
+        const result = await withPrivacyMode(privacyMode, () => run({
+            apiKey,
+            body,
+            signal: request.signal,
+            limit(...charges) {
+                const limits = checkAILimitCharges({ request }, charges, identity);
+                limitHeaders = limits.headers;
+                if (limits.error) throw limits.error;
+            },
+        }));
+
+        response = new Response(JSON.stringify(result), {
+            status: 200,
+            headers: {
+                ...limitHeaders,
+                "Content-Type": "application/json",
+            },
+        });
+
+    } catch (error: any) {
+        if (request.signal.aborted) {
+            console.log(`⏹️ Client cancelled /api/v1/${endpoint}`);
+            response = errorResponse(new AIProviderError('Request was cancelled by the client', 499, 'ABORTED'), limitHeaders);
+        } else {
+            if (!(error instanceof AIProviderError)) {
+                console.error(`Error in /api/v1/${endpoint}:`, error);
+            }
+            response = errorResponse(error, limitHeaders);
+        }
+    }
+
+    recordApiUsage(apiKey, endpoint, response.status);
+    return response;
+}
@@ -0,0 +1,70 @@
+/**
+ * Request and response bodies of the public /api/v1 API
+ * The OpenAPI component schemas are generated from these types and the resume types they
+ * reference (npm run generate:openapi), so keep them plain data shapes: no functions, classes or
+ * conditional types.
+ */
+
+import type { AIFeature } from './ai-client';
+import type { JobDescription, ParsedResumeData } from './ai-features';
+import type { AIQuotaUsage } from './ai-rate-limit.server';
+import type { ResumeAnalysisReport } from './resume-analysis';
+
+export const REWRITE_MODES = ['improve', 'quantify', 'stronger', 'shorten', 'humanize'] as const;
+export type RewriteMode = typeof REWRITE_MODES[number];
+
+export interface ParseRequest {
+    resumeText: string;
+    privacyMode?: boolean; // Redact personal details before they reach the AI provider
+}
+
+export interface ParseResponse {
+    parsedResumeData: ParsedResumeData;
+}
+
+export interface ScoreRequest {
+    resumeText: string;
+    jobDescription: JobDescription;
+    privacyMode?: boolean; // Redact personal details before they reach the AI provider
+}
+
+export type ScoreResponse = ResumeAnalysisReport;
+
+export interface RewriteRequest {
+    text: string;
+    mode: RewriteMode;
+    privacyMode?: boolean; // Redact personal details before they reach the AI provider
+}
+
+export interface RewriteResponse {
+    text: string;
+    mode: RewriteMode;
+}
+
+export interface CoverLetterRequest {
+    parsedResumeData?: ParsedResumeData; // Either parsed data or raw text; raw text is parsed first
+    resumeText?: string;
+    jobDescription: JobDescription;
+    privacyMode?: boolean; // Redact personal details before they reach the AI provider
+}
+
+export interface CoverLetterResponse {
+    coverLetter: string;
+}
+
+export interface EndpointUsage {
+    requests: number;
+    errors: number;
+}
+
+export interface UsageResponse {
+    keyId: string;
+    quotas: Record<AIFeature, AIQuotaUsage>; // Today's usage of each daily quota
+    endpoints: Record<string, EndpointUsage>; // All-time counters per endpoint
+}
+
+export interface ApiErrorBody {
+    error: string;
+    code?: string;
+    retryAfter?: number;
+}
@@ -0,0 +1,98 @@
+/**
+ * The full resume analysis pipeline: AI parsing, AI feedback and the local scores
+ * Used by the upload page in the browser and by POST /api/analyze on the server
+ */
+
+import {
+    analyzeResumeWithGemini,
+    calculateATSScore,
+    calculateContentStrength,
+    calculateJDMatch,
+    calculateOverallResumeScore,
+    detectOverusedWords,
+    parseResumeWithGemini,
+    scanQuantifiedMetrics,
+    type ATSScore,
+    type JobDescription,
+    type OverusedWord,
+    type ParsedResumeData,
+    type QuantifiedMetrics,
+} from './ai-features';
+
+// Resume length isn't measured yet, so every resume gets the same length score
+export const DEFAULT_LENGTH_SCORE = 85;
+
+export interface ResumeScores {
+    atsScore: ATSScore;
+    jdMatch: ReturnType<typeof calculateJDMatch>;
+    contentStrength: number;
+    overallScore: number;
+    overusedWords: OverusedWord[];
+    metricsScan: QuantifiedMetrics;
+}
+
+export interface ResumeAnalysisReport extends ResumeScores {
+    parsedResumeData: ParsedResumeData;
+    feedback: Feedback;
+}
+
+/**
+ * Error thrown by analyzeResume; `step` is the AI call that produced no usable result
+ */
+export class ResumeAnalysisError extends Error {
+    step: 'parse' | 'analyze';
+
+    constructor(message: string, step: 'parse' | 'analyze') {
+        super(message);
+        this.name = 'ResumeAnalysisError';
+        this.step = step;
+    }
+}
+
+/**
+ * Rule-based scores for a parsed resume against a job description (no AI calls)
+ */
+export function scoreResume(
+    parsedResumeData: ParsedResumeData,
+    resumeText: string,
+    jobDescription: JobDescription
+): ResumeScores {
+    const atsScore = calculateATSScore(parsedResumeData);
+    const jdMatch = calculateJDMatch(parsedResumeData, jobDescription);
+    const contentStrength = calculateContentStrength(parsedResumeData);
+
+    return {
+        atsScore,
+        jdMatch,
+        contentStrength,
+        overallScore: calculateOverallResumeScore(atsScore, jdMatch.score, contentStrength, DEFAULT_LENGTH_SCORE),
+        overusedWords: detectOverusedWords(resumeText),
+        metricsScan: scanQuantifiedMetrics(parsedResumeData.experience),
+    };
+}
+
+/**
+ * Parse the resume text, get AI feedback for the job and compute the local scores
+ * Throws a ResumeAnalysisError when parsing or feedback fails, and an AbortError when `signal` is aborted
+ */
+export async function analyzeResume(
+    resumeText: string,
+    jobDescription: JobDescription,
+    signal?: AbortSignal
+): Promise<ResumeAnalysisReport> {
+    const parsedResumeData = await parseResumeWithGemini(resumeText, signal);
+    if (!parsedResumeData) {
+        throw new ResumeAnalysisError('Failed to parse resume with AI', 'parse');
+    }
+
+    const feedback = await analyzeResumeWithGemini(resumeText, jobDescription, parsedResumeData, signal);
+    if (!feedback) {
+        throw new ResumeAnalysisError('Failed to analyze resume with AI', 'analyze');
+    }
+
+    return {
+        parsedResumeData,
+        feedback,
+        ...scoreResume(parsedResumeData, resumeText, jobDescription),
+    };
+}
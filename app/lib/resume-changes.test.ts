@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedResumeData } from './gemini';
+import { applyResumeChanges, hasUnfilledPlaceholders, type ResumeChange } from './resume-changes';
+
+function resume(): ParsedResumeData {
+    return {
+        personalInfo: { fullName: 'Jane Smith', email: '', phone: '', location: '', linkedin: '', portfolio: '' },
+        summary: 'Engineer.',
+        experience: [
+            { company: 'Acme', position: 'Engineer', startDate: '2020', endDate: '', current: true, description: ['Built APIs', 'Ran on-call'] },
+        ],
+        education: [],
+        skills: { technical: ['React'], soft: [] },
+        projects: [],
+        certifications: [],
+        achievements: [],
+    };
+}
+
+function change(target: ResumeChange['target'], before: string, after: string): ResumeChange {
+    return { id: JSON.stringify(target), target, label: 'test', before, after, warnings: [] };
+}
+
+describe('applyResumeChanges', () => {
+    it('applies summary, skill and bullet changes to a copy', () => {
+        const original = resume();
+
+        const { resume: updated, stale } = applyResumeChanges(original, [
+            change({ kind: 'summary' }, 'Engineer.', 'Backend engineer.'),
+            change({ kind: 'skill', category: 'technical' }, '', 'TypeScript'),
+            change({ kind: 'skill', category: 'technical' }, '', 'React'),
+            change({ kind: 'bullet', expIndex: 0, descIndex: 1 }, 'Ran on-call', 'Led the on-call rotation'),
+        ]);
+
+        expect(stale).toEqual([]);
+        expect(updated.summary).toBe('Backend engineer.');
+        expect(updated.skills.technical).toEqual(['React', 'TypeScript']);
+        expect(updated.experience[0].description).toEqual(['Built APIs', 'Led the on-call rotation']);
+        expect(original).toEqual(resume());
+    });
+
+    it('skips changes whose text was edited after they were proposed', () => {
+        const edited = resume();
+        edited.summary = 'Engineer who likes databases.';
+        edited.experience[0].description[0] = 'Built REST APIs';
+
+        const summary = change({ kind: 'summary' }, 'Engineer.', 'Backend engineer.');
+        const bullet = change({ kind: 'bullet', expIndex: 0, descIndex: 0 }, 'Built APIs', 'Designed APIs');
+        const { resume: updated, stale } = applyResumeChanges(edited, [summary, bullet]);
+
+        expect(stale).toEqual([summary, bullet]);
+        expect(updated.summary).toBe('Engineer who likes databases.');
+        expect(updated.experience[0].description[0]).toBe('Built REST APIs');
+    });
+
+    it('skips bullets that no longer exist', () => {
+        const bullet = change({ kind: 'bullet', expIndex: 1, descIndex: 0 }, 'Gone', 'Still gone');
+
+        expect(applyResumeChanges(resume(), [bullet]).stale).toEqual([bullet]);
+    });
+});
+
+describe('hasUnfilledPlaceholders', () => {
+    it('is true while a placeholder is left', () => {
+        expect(hasUnfilledPlaceholders({ after: 'Cut costs [X%]' })).toBe(true);
+        expect(hasUnfilledPlaceholders({ after: 'Cut costs 20%' })).toBe(false);
+    });
+});
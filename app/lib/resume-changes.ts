@@ -0,0 +1,77 @@
+/**
+ * Proposed edits to a resume that the user reviews one by one before they are applied
+ * "Fix My Resume" and the role-wide bullet rewrites return these instead of a rewritten
+ * resume, so nothing the AI wrote lands in the resume without being accepted first.
+ */
+
+import type { ParsedResumeData } from './gemini';
+import { findPlaceholders } from './fact-guard';
+
+export type ResumeChangeTarget =
+    | { kind: 'summary' }
+    | { kind: 'skill'; category: 'technical' | 'soft' }
+    | { kind: 'bullet'; expIndex: number; descIndex: number };
+
+export interface ResumeChange {
+    id: string;
+    target: ResumeChangeTarget;
+    label: string; // Where the change goes, e.g. "Summary" or "Engineer at Acme, bullet 2"
+    before: string; // Empty for additions
+    after: string;
+    warnings: string[]; // Facts the reviewer should check (see fact-guard.ts)
+}
+
+/**
+ * True when the change still has placeholders such as `[X%]` the user has to fill in
+ */
+export function hasUnfilledPlaceholders(change: Pick<ResumeChange, 'after'>): boolean {
+    return findPlaceholders(change.after).length > 0;
+}
+
+export interface AppliedResumeChanges {
+    resume: ParsedResumeData;
+    stale: ResumeChange[]; // Skipped: the text they replace was edited after they were proposed
+}
+
+/**
+ * Apply accepted changes to a copy of the resume; the original is left untouched
+ * A summary or bullet change is only applied while the text still equals its `before`, so edits
+ * made while the changes were being reviewed are kept
+ */
+export function applyResumeChanges(resume: ParsedResumeData, changes: ResumeChange[]): AppliedResumeChanges {
+    const updated: ParsedResumeData = {
+        ...resume,
+        skills: { technical: [...resume.skills.technical], soft: [...resume.skills.soft] },
+        experience: resume.experience.map(exp => ({ ...exp, description: [...exp.description] })),
+    };
+    const stale: ResumeChange[] = [];
+
+    for (const change of changes) {
+        const { target } = change;
+        switch (target.kind) {
+            case 'summary':
+                if (updated.summary !== change.before) {
+                    stale.push(change);
+                    break;
+                }
+                updated.summary = change.after;
+                break;
+            case 'skill':
+                if (!updated.skills[target.category].includes(change.after)) {
+                    updated.skills[target.category].push(change.after);
+                }
+                break;
+            case 'bullet': {
+                const description = updated.experience[target.expIndex]?.description;
+                if (description?.[target.descIndex] !== change.before) {
+                    stale.push(change);
+                    break;
+                }
+                description[target.descIndex] = change.after;
+                break;
+            }
+        }
+    }
+
+    return { resume: updated, stale };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedResumeData } from './gemini';
+import { mergeParsedResumes, splitResumeText } from './resume-chunking';
+
+type Experience = ParsedResumeData['experience'][number];
+
+function part(overrides: Partial<ParsedResumeData>): ParsedResumeData {
+    return {
+        personalInfo: { fullName: '', email: '', phone: '', location: '', linkedin: '', portfolio: '' },
+        summary: '',
+        experience: [],
+        education: [],
+        skills: { technical: [], soft: [] },
+        projects: [],
+        certifications: [],
+        achievements: [],
+        ...overrides,
+    };
+}
+
+function role(company: string, position: string, description: string[], extra: Partial<Experience> = {}): Experience {
+    return { company, position, startDate: '', endDate: '', current: false, description, ...extra };
+}
+
+const bullets = (count: number, prefix: string) =>
+    Array.from({ length: count }, (_, index) => `- ${prefix} delivered project number ${index} for the platform team`).join('\n');
+
+describe('splitResumeText', () => {
+    it('keeps a short resume in one chunk', () => {
+        const chunks = splitResumeText('Jane Smith\nEXPERIENCE\nAcme, Engineer\nEDUCATION\nMIT', 1000);
+
+        // Sections packed together are separated by a blank line
+        expect(chunks).toEqual([{
+            label: 'HEADER + EXPERIENCE + EDUCATION',
+            text: 'Jane Smith\n\nEXPERIENCE\nAcme, Engineer\n\nEDUCATION\nMIT',
+        }]);
+    });
+
+    it('packs whole sections into chunks without splitting them', () => {
+        const experience = `EXPERIENCE\n${bullets(5, 'Acme')}`;
+        const education = `EDUCATION\n${bullets(5, 'MIT')}`;
+
+        const chunks = splitResumeText(`Jane Smith\n${experience}\n${education}`, experience.length + 20);
+
+        expect(chunks.map(chunk => chunk.label)).toEqual(['HEADER + EXPERIENCE', 'EDUCATION']);
+        expect(chunks[1].text).toBe(education);
+    });
+
+    it('splits an oversized section and repeats its heading', () => {
+        const text = `Jane Smith\nEXPERIENCE\n${bullets(30, 'Acme')}`;
+
+        const chunks = splitResumeText(text, 600);
+
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks.every(chunk => chunk.text.length <= 600)).toBe(true);
+        expect(chunks[1].label).toBe('EXPERIENCE');
+        expect(chunks.slice(2).every(chunk => chunk.label === 'EXPERIENCE (continued)' && chunk.text.startsWith('EXPERIENCE (continued)\n'))).toBe(true);
+        // No bullet is lost or cut
+        const joined = chunks.map(chunk => chunk.text).join('\n');
+        for (const line of text.split('\n')) expect(joined).toContain(line);
+    });
+});
+
+describe('mergeParsedResumes', () => {
+    it('takes personal details and the summary from the first chunk that has them', () => {
+        const merged = mergeParsedResumes([
+            part({ personalInfo: { fullName: 'Jane Smith', email: '', phone: '', location: '', linkedin: '', portfolio: '' } }),
+            part({ personalInfo: { fullName: 'J. Smith', email: 'jane@example.com', phone: '', location: '', linkedin: '', portfolio: '' }, summary: 'Engineer.' }),
+        ]);
+
+        expect(merged.personalInfo.fullName).toBe('Jane Smith');
+        expect(merged.personalInfo.email).toBe('jane@example.com');
+        expect(merged.summary).toBe('Engineer.');
+    });
+
+    it('merges a role repeated across chunks and unions its bullets and skills', () => {
+        const merged = mergeParsedResumes([
+            part({ experience: [role('Acme', 'Engineer', ['Built APIs'])], skills: { technical: ['React', 'Go'], soft: [] } }),
+            part({ experience: [role('ACME', 'Engineer', ['Built APIs', 'Ran on-call'], { current: true })], skills: { technical: ['react', 'SQL'], soft: ['Mentoring'] } }),
+        ]);
+
+        expect(merged.experience).toEqual([role('Acme', 'Engineer', ['Built APIs', 'Ran on-call'], { current: true })]);
+        expect(merged.skills).toEqual({ technical: ['React', 'Go', 'SQL'], soft: ['Mentoring'] });
+    });
+
+    it('attaches bullets from a continuation chunk to the role before it', () => {
+        const merged = mergeParsedResumes([
+            part({ experience: [role('Globex', 'Lead', ['Hired 4 engineers']), role('Acme', 'Engineer', ['Built APIs'])] }),
+            part({ experience: [role('', '', ['Ran on-call', 'Cut costs']), role('Initech', 'Intern', ['Wrote tests'])] }),
+        ]);
+
+        expect(merged.experience.map(entry => [entry.company, entry.description])).toEqual([
+            ['Globex', ['Hired 4 engineers']],
+            ['Acme', ['Built APIs', 'Ran on-call', 'Cut costs']],
+            ['Initech', ['Wrote tests']],
+        ]);
+    });
+
+    it('deduplicates education, projects and certifications', () => {
+        const merged = mergeParsedResumes([
+            part({
+                education: [{ degree: 'BSc Computer Science', school: 'MIT', gpa: '', graduationDate: '' }],
+                projects: [{ name: 'Resume AI', description: 'Short' }],
+                certifications: [{ name: 'AWS SAA' }],
+            }),
+            part({
+                education: [{ degree: 'BSc Computer Science', school: 'MIT', gpa: '3.9', graduationDate: '2019' }],
+                projects: [{ name: 'resume ai', description: 'A longer description of the project' }],
+                certifications: [{ name: 'AWS SAA' }, { name: 'CKA' }],
+            }),
+        ]);
+
+        expect(merged.education).toEqual([{ degree: 'BSc Computer Science', school: 'MIT', gpa: '3.9', graduationDate: '2019' }]);
+        expect(merged.projects).toEqual([{ name: 'Resume AI', description: 'A longer description of the project' }]);
+        expect(merged.certifications).toEqual([{ name: 'AWS SAA' }, { name: 'CKA' }]);
+    });
+});
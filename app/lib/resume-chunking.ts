@@ -0,0 +1,252 @@
+/**
+ * Chunked parsing support for long resumes
+ * Splits resume text at section headings (falling back to pages, then to plain size limits)
+ * and merges the partial ParsedResumeData results back together deterministically.
+ */
+
+import type { ParsedResumeData } from './gemini';
+
+export interface ResumeChunk {
+    label: string; // e.g. "EXPERIENCE (continued)", used in logs
+    text: string;
+}
+
+// Common section headings; matched in UPPER CASE anywhere (PDF text has no line breaks
+// inside a page) or in any case when they start a line
+const SECTION_HEADINGS = [
+    'PROFESSIONAL SUMMARY', 'SUMMARY', 'PROFILE', 'OBJECTIVE', 'ABOUT ME',
+    'PROFESSIONAL EXPERIENCE', 'WORK EXPERIENCE', 'EMPLOYMENT HISTORY', 'EXPERIENCE', 'RESEARCH EXPERIENCE', 'TEACHING EXPERIENCE',
+    'EDUCATION', 'ACADEMIC BACKGROUND',
+    'TECHNICAL SKILLS', 'SKILLS', 'CORE COMPETENCIES',
+    'PROJECTS', 'PUBLICATIONS', 'PRESENTATIONS', 'GRANTS', 'AWARDS', 'HONORS',
+    'CERTIFICATIONS', 'LICENSES', 'ACHIEVEMENTS', 'VOLUNTEER EXPERIENCE', 'LANGUAGES', 'REFERENCES',
+];
+
+const headingAlternatives = SECTION_HEADINGS.map(heading => heading.replace(/ /g, '\\s+')).join('|');
+const INLINE_HEADING_PATTERN = new RegExp(`(?<![A-Za-z])(?:${headingAlternatives})(?![A-Za-z])`, 'g');
+const LINE_HEADING_PATTERN = new RegExp(`^[ \\t]*(?:${headingAlternatives})[ \\t]*:?[ \\t]*$`, 'gim');
+
+/**
+ * Start offsets and names of the section headings in the text, in order
+ */
+function findSectionHeadings(text: string): Array<{ index: number; heading: string }> {
+    const found = new Map<number, string>();
+    for (const pattern of [INLINE_HEADING_PATTERN, LINE_HEADING_PATTERN]) {
+        for (const match of text.matchAll(pattern)) {
+            const offset = match.index + match[0].search(/\S/);
+            found.set(offset, match[0].trim().replace(/\s+/g, ' ').replace(/:$/, '').toUpperCase());
+        }
+    }
+    return [...found.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, heading]) => ({ index, heading }));
+}
+
+/**
+ * Split an oversized section at page breaks (newlines), then at whitespace near the limit
+ */
+function splitOversized(text: string, maxChars: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const line of text.split('\n')) {
+        if (current && current.length + line.length + 1 > maxChars) {
+            pieces.push(current);
+            current = '';
+        }
+        let remaining = line;
+        while (remaining.length > maxChars) {
+            const cut = remaining.lastIndexOf(' ', maxChars);
+            const at = cut > maxChars / 2 ? cut : maxChars;
+            pieces.push(remaining.slice(0, at));
+            remaining = remaining.slice(at).trimStart();
+        }
+        current = current ? `${current}\n${remaining}` : remaining;
+    }
+    if (current.trim()) pieces.push(current);
+
+    return pieces;
+}
+
+/**
+ * Split resume text into chunks of at most `maxChars`, keeping sections together where possible
+ * A section that has to be split repeats its heading as "HEADING (continued)" so the model
+ * still knows what it is reading
+ */
+export function splitResumeText(text: string, maxChars: number): ResumeChunk[] {
+    const headings = findSectionHeadings(text);
+    const sections: Array<{ heading: string; text: string }> = [];
+
+    let start = 0;
+    let heading = 'HEADER';
+    for (const next of headings) {
+        if (next.index > start) {
+            sections.push({ heading, text: text.slice(start, next.index).trim() });
+        }
+        start = next.index;
+        heading = next.heading;
+    }
+    sections.push({ heading, text: text.slice(start).trim() });
+
+    // Pack whole sections greedily; oversized sections are split on their own
+    const chunks: ResumeChunk[] = [];
+    let packed: { labels: string[]; text: string } | null = null;
+
+    const flush = () => {
+        if (packed) chunks.push({ label: packed.labels.join(' + '), text: packed.text });
+        packed = null;
+    };
+
+    for (const section of sections.filter(section => section.text)) {
+        if (section.text.length > maxChars) {
+            flush();
+            const continuedPrefix = `${section.heading} (continued)\n`;
+            splitOversized(section.text, maxChars - continuedPrefix.length).forEach((piece, index) => {
+                chunks.push(index === 0
+                    ? { label: section.heading, text: piece }
+                    : { label: `${section.heading} (continued)`, text: continuedPrefix + piece });
+            });
+        } else if (packed && packed.text.length + section.text.length + 2 <= maxChars) {
+            packed.labels.push(section.heading);
+            packed.text += `\n\n${section.text}`;
+        } else {
+            flush();
+            packed = { labels: [section.heading], text: section.text };
+        }
+    }
+    flush();
+
+    return chunks;
+}
+
+// ---- Merging ----
+
+function normalize(value: string | undefined): string {
+    return (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/** Order-preserving, case-insensitive union */
+function unionStrings(...lists: string[][]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const value of lists.flat()) {
+        const key = normalize(value);
+        if (key && !seen.has(key)) {
+            seen.add(key);
+            result.push(value);
+        }
+    }
+    return result;
+}
+
+/**
+ * Merge entries that share a key: the first occurrence wins, empty fields are filled
+ * from later duplicates, and `combine` merges anything else
+ */
+function mergeBy<T extends object>(entries: T[], keyOf: (entry: T) => string, combine?: (a: T, b: T) => T): T[] {
+    const merged = new Map<string, T>();
+    const unkeyed: T[] = [];
+
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        if (!key) {
+            unkeyed.push(entry);
+            continue;
+        }
+
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { ...entry });
+            continue;
+        }
+
+        const filled = { ...existing } as Record<string, unknown>;
+        for (const [field, value] of Object.entries(entry)) {
+            if (!filled[field] && value) filled[field] = value;
+        }
+        merged.set(key, combine ? combine(filled as T, entry) : filled as T);
+    }
+
+    return [...merged.values(), ...unkeyed];
+}
+
+type ExperienceEntry = ParsedResumeData['experience'][number];
+
+const experienceKey = (entry: ExperienceEntry) => normalize(entry.company) || normalize(entry.position)
+    ? `${normalize(entry.company)}|${normalize(entry.position)}`
+    : '';
+
+/**
+ * Attach entries without a company or position to the role before them
+ * An "EXPERIENCE (continued)" chunk starts in the middle of a role, so the model returns its
+ * bullets as an entry with no header; they belong to the last role of the previous chunk.
+ */
+function attachContinuations(entries: ExperienceEntry[]): ExperienceEntry[] {
+    const attached: ExperienceEntry[] = [];
+    for (const entry of entries) {
+        const previous = attached[attached.length - 1];
+        if (experienceKey(entry) || !previous) {
+            attached.push(entry);
+            continue;
+        }
+        attached[attached.length - 1] = {
+            ...previous,
+            current: previous.current || entry.current,
+            endDate: previous.endDate || entry.endDate,
+            description: unionStrings(previous.description, entry.description),
+        };
+    }
+    return attached;
+}
+
+/**
+ * Merge partial parses (in chunk order) into one ParsedResumeData
+ * Personal info and summary come from the first chunk that has them; experience,
+ * education, projects and certifications are deduplicated; bullets are concatenated
+ * (continuation bullets joining the role before them) and skills unioned
+ */
+export function mergeParsedResumes(parts: ParsedResumeData[]): ParsedResumeData {
+    const firstNonEmpty = (pick: (part: ParsedResumeData) => string) =>
+        parts.map(pick).find(value => value && value.trim()) || '';
+
+    return {
+        personalInfo: {
+            fullName: firstNonEmpty(part => part.personalInfo.fullName),
+            email: firstNonEmpty(part => part.personalInfo.email),
+            phone: firstNonEmpty(part => part.personalInfo.phone),
+            location: firstNonEmpty(part => part.personalInfo.location),
+            linkedin: firstNonEmpty(part => part.personalInfo.linkedin),
+            portfolio: firstNonEmpty(part => part.personalInfo.portfolio),
+        },
+        summary: firstNonEmpty(part => part.summary),
+        experience: mergeBy(
+            attachContinuations(parts.flatMap(part => part.experience)),
+            experienceKey,
+            (merged, duplicate) => ({
+                ...merged,
+                current: merged.current || duplicate.current,
+                description: unionStrings(merged.description, duplicate.description),
+            })
+        ),
+        education: mergeBy(
+            parts.flatMap(part => part.education),
+            entry => normalize(entry.degree) || normalize(entry.school)
+                ? `${normalize(entry.degree)}|${normalize(entry.school)}`
+                : ''
+        ),
+        skills: {
+            technical: unionStrings(...parts.map(part => part.skills.technical)),
+            soft: unionStrings(...parts.map(part => part.skills.soft)),
+        },
+        projects: mergeBy(
+            parts.flatMap(part => part.projects),
+            entry => normalize(entry.name),
+            (merged, duplicate) => ({
+                ...merged,
+                description: duplicate.description.length > merged.description.length ? duplicate.description : merged.description,
+            })
+        ),
+        certifications: mergeBy(parts.flatMap(part => part.certifications), entry => normalize(entry.name)),
+        achievements: mergeBy(parts.flatMap(part => part.achievements), entry => normalize(entry.name)),
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * Uploaded resume files: the formats the uploaders accept, and text extraction and preview
+ * images for each of them (PDF through pdf.js, Word through docx.ts, scans and photos through
+ * OCR in ocr.ts)
+ */
+
+import { convertDocxToImage, DOCX_MIME_TYPE, extractTextFromDocx, isDocxFile } from './docx';
+import { isImageFile, OCR_IMAGE_ACCEPT, recognizePages, type OcrProgress, type OcrResult } from './ocr';
+import { convertPdfToImage, extractTextFromPdf, renderPdfPages, type PdfConversionResult } from './pdf2img';
+
+/** `accept` for every FileUploader that takes a resume */
+export const RESUME_FILE_ACCEPT = `.pdf,.docx,${OCR_IMAGE_ACCEPT}`;
+
+/** A PDF with less text than this is treated as a scan and read with OCR */
+const MIN_TEXT_LAYER_LENGTH = 50;
+
+export interface ResumeText {
+    text: string;
+    ocr?: OcrResult; // Set when the text came from OCR
+}
+
+/**
+ * MIME type to store or re-open a resume file with; browsers leave `type` empty for some uploads
+ */
+export function resumeMimeType(fileName: string): string {
+    if (/\.docx$/i.test(fileName)) return DOCX_MIME_TYPE;
+    if (/\.png$/i.test(fileName)) return 'image/png';
+    if (/\.jpe?g$/i.test(fileName)) return 'image/jpeg';
+    return 'application/pdf';
+}
+
+async function recognizeResume(file: File, onOcrProgress?: OcrProgress): Promise<OcrResult | null> {
+    try {
+        if (isImageFile(file)) return await recognizePages([file], 1, onOcrProgress);
+        const { pageCount, pages } = await renderPdfPages(file);
+        return await recognizePages(pages, pageCount, onOcrProgress);
+    } catch (err) {
+        console.error('❌ Error reading resume with OCR:', err);
+
+        try {
+            const { saveErrorLog } = await import('./firebase');
+            await saveErrorLog(err instanceof Error ? err : new Error(String(err)), {
+                errorType: 'OCR_TEXT_EXTRACTION',
+                fileName: file.name,
+                fileSize: file.size,
+            });
+        } catch (logError) {
+            console.error('Failed to log error to Firebase:', logError);
+        }
+
+        return null;
+    }
+}
+
+/**
+ * Text of a resume and how it was read: the text layer of a PDF or Word file, or OCR for
+ * PNG/JPG photos and PDFs without a text layer (every page is recognized)
+ */
+export async function readResumeText(file: File, onOcrProgress?: OcrProgress): Promise<ResumeText> {
+    if (isDocxFile(file)) return { text: await extractTextFromDocx(file) };
+
+    const text = isImageFile(file) ? '' : await extractTextFromPdf(file);
+    if (text.length >= MIN_TEXT_LAYER_LENGTH) return { text };
+
+    console.log('🔎 No usable text layer, reading the resume with OCR...');
+    const ocr = await recognizeResume(file, onOcrProgress);
+    return ocr && ocr.text.length > text.length ? { text: ocr.text, ocr } : { text };
+}
+
+/**
+ * Plain text of a resume, one line per paragraph; empty when nothing could be read
+ */
+export async function extractResumeText(file: File): Promise<string> {
+    return (await readResumeText(file)).text;
+}
+
+/**
+ * PNG preview of the resume's first page; a photo is its own preview
+ */
+export async function convertResumeToImage(file: File): Promise<PdfConversionResult> {
+    if (isImageFile(file)) return { imageUrl: URL.createObjectURL(file), file };
+    return isDocxFile(file) ? convertDocxToImage(file) : convertPdfToImage(file);
+}
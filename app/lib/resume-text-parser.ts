@@ -0,0 +1,167 @@
+/**
+ * Rule-based resume parser: regular expressions and section headings, no AI call
+ * Used by the builder when AI parsing fails, and by the CLI when no AI endpoint is configured.
+ * Projects, certifications and achievements are not detected and come back empty.
+ */
+
+import type { ParsedResumeData } from './gemini';
+
+export function parseResumeText(text: string): ParsedResumeData {
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    
+    // Extract email
+    const emailMatch = text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
+    const email = emailMatch ? emailMatch[0] : '';
+
+    // Extract phone (various formats)
+    const phoneMatch = text.match(/(\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}|\d{10}/);
+    const phone = phoneMatch ? phoneMatch[0] : '';
+
+    // Extract LinkedIn URL
+    const linkedinMatch = text.match(/(linkedin\.com\/in\/[\w-]+|linkedin\.com\/pub\/[\w-]+)/i);
+    const linkedin = linkedinMatch ? linkedinMatch[0] : '';
+
+    // Extract GitHub URL
+    const githubMatch = text.match(/(github\.com\/[\w-]+)/i);
+    
+    // Extract portfolio/website (excluding LinkedIn and GitHub)
+    const portfolioMatch = text.match(/(www\.|https?:\/\/)?([\w-]+\.)+[\w-]+(\/[\w-]*)?/i);
+    let portfolio = '';
+    if (portfolioMatch && !linkedinMatch && !githubMatch) {
+        portfolio = portfolioMatch[0];
+    } else if (githubMatch) {
+        portfolio = githubMatch[0];
+    }
+
+    // Extract name (usually first line or before email)
+    let fullName = '';
+    if (lines.length > 0) {
+        const firstLine = lines[0];
+        // If first line doesn't contain email/phone, it's likely the name
+        if (!firstLine.includes('@') && !firstLine.match(/\d{3}/) && firstLine.length < 50) {
+            fullName = firstLine;
+        } else {
+            // Look for name pattern (2-4 words, capitalized)
+            const namePattern = /^[A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,3}$/;
+            for (const line of lines.slice(0, 5)) {
+                if (namePattern.test(line) && !line.includes('@') && !line.match(/\d/)) {
+                    fullName = line;
+                    break;
+                }
+            }
+        }
+    }
+
+    // Extract location (common patterns)
+    const locationMatch = text.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z]{2})|([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z][a-z]+)/);
+    const location = locationMatch ? locationMatch[0] : '';
+
+    // Extract summary (text after name/contact, before experience/education)
+    let summary = '';
+    const summaryKeywords = ['summary', 'objective', 'profile', 'about'];
+    const experienceKeywords = ['experience', 'employment', 'work history', 'professional experience'];
+    const educationKeywords = ['education', 'academic', 'university', 'degree'];
+    
+    let summaryStart = -1;
+    let summaryEnd = text.length;
+    
+    for (let i = 0; i < lines.length; i++) {
+        const lowerLine = lines[i].toLowerCase();
+        if (summaryKeywords.some(kw => lowerLine.includes(kw)) && summaryStart === -1) {
+            summaryStart = i + 1;
+        }
+        if (experienceKeywords.some(kw => lowerLine.includes(kw)) || 
+            educationKeywords.some(kw => lowerLine.includes(kw))) {
+            if (summaryStart !== -1 && summaryEnd === text.length) {
+                summaryEnd = i;
+            }
+        }
+    }
+    
+    if (summaryStart !== -1) {
+        summary = lines.slice(summaryStart, summaryEnd).join(' ').substring(0, 500);
+    }
+
+    // Extract experience
+    const experience: ParsedResumeData['experience'] = [];
+    
+    const expSectionMatch = text.match(/(experience|employment|work history|professional experience)[\s\S]*?(?=(education|skills|projects|$))/i);
+    if (expSectionMatch) {
+        const expText = expSectionMatch[0];
+        // Simple extraction - look for company names and positions
+        const expEntries = expText.split(/\n(?=[A-Z])/).slice(1); // Skip header
+        expEntries.slice(0, 5).forEach(entry => {
+            const entryLines = entry.split('\n').filter(l => l.trim());
+            if (entryLines.length >= 2) {
+                const position = entryLines[0].trim();
+                const companyLine = entryLines[1].trim();
+                const dateMatch = entry.match(/(\w+\s+\d{4})\s*[-–]\s*(\w+\s+\d{4}|present|current)/i);
+                experience.push({
+                    company: companyLine.split('•')[0].trim(),
+                    position: position,
+                    startDate: dateMatch ? dateMatch[1] : '',
+                    endDate: dateMatch ? (dateMatch[2].toLowerCase().includes('present') || dateMatch[2].toLowerCase().includes('current') ? 'Present' : dateMatch[2]) : '',
+                    current: dateMatch ? (dateMatch[2].toLowerCase().includes('present') || dateMatch[2].toLowerCase().includes('current')) : false,
+                    description: entryLines.slice(2).filter(l => l.trim().startsWith('•') || l.trim().startsWith('-')).map(l => l.replace(/^[•\-]\s*/, '').trim()).filter(l => l.length > 0)
+                });
+            }
+        });
+    }
+
+    // Extract education
+    const education: ParsedResumeData['education'] = [];
+    
+    const eduSectionMatch = text.match(/(education|academic background)[\s\S]*?(?=(experience|skills|projects|$))/i);
+    if (eduSectionMatch) {
+        const eduText = eduSectionMatch[0];
+        const eduEntries = eduText.split(/\n(?=[A-Z])/).slice(1);
+        eduEntries.slice(0, 3).forEach(entry => {
+            const entryLines = entry.split('\n').filter(l => l.trim());
+            if (entryLines.length >= 1) {
+                const degreeMatch = entry.match(/(bachelor|master|phd|doctorate|associate|degree)[\s\S]*?in[\s\S]*?([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i);
+                const gpaMatch = entry.match(/gpa[:\s]*([\d.]+)/i);
+                const dateMatch = entry.match(/(\w+\s+\d{4}|\d{4})/);
+                education.push({
+                    degree: degreeMatch ? degreeMatch[0].substring(0, 100) : entryLines[0],
+                    school: entryLines.find(l => l.includes('university') || l.includes('college') || l.includes('institute')) || entryLines[1] || '',
+                    gpa: gpaMatch ? gpaMatch[1] : '',
+                    graduationDate: dateMatch ? dateMatch[1] : ''
+                });
+            }
+        });
+    }
+
+    // Extract skills
+    const skillsSectionMatch = text.match(/(technical\s+skills?|skills?|competencies)[\s\S]*?(?=(experience|education|projects|$))/i);
+    const technical: string[] = [];
+    const soft: string[] = [];
+    
+    if (skillsSectionMatch) {
+        const skillsText = skillsSectionMatch[0];
+        // Common technical skills keywords
+        const techKeywords = ['javascript', 'python', 'java', 'react', 'node', 'sql', 'html', 'css', 'typescript', 'angular', 'vue', 'aws', 'docker', 'kubernetes', 'git', 'mongodb', 'postgresql', 'linux', 'api', 'rest', 'graphql'];
+        const softKeywords = ['leadership', 'communication', 'teamwork', 'problem solving', 'analytical', 'creative', 'time management', 'collaboration'];
+        
+        const skillWords = skillsText.toLowerCase().split(/[,;•\n]/).map(s => s.trim()).filter(s => s.length > 0);
+        skillWords.forEach(skill => {
+            if (techKeywords.some(kw => skill.includes(kw))) {
+                technical.push(skill);
+            } else if (softKeywords.some(kw => skill.includes(kw))) {
+                soft.push(skill);
+            } else if (skill.length > 2 && skill.length < 30) {
+                technical.push(skill);
+            }
+        });
+    }
+
+    return {
+        personalInfo: { fullName, email, phone, location, linkedin, portfolio },
+        summary,
+        experience,
+        education,
+        skills: { technical, soft },
+        projects: [],
+        certifications: [],
+        achievements: [],
+    };
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal server-sent events helpers
+ * Used by the streaming providers on the server and by the streaming client helper in the browser
+ */
+
+export interface SSEEvent {
+    event: string; // "message" unless the stream names the event
+    data: string;
+}
+
+/**
+ * Read a text/event-stream body and yield each complete event
+ */
+export async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events are separated by a blank line
+            let boundary = buffer.search(/\r?\n\r?\n/);
+            while (boundary !== -1) {
+                const rawEvent = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+                const parsed = parseSSEEvent(rawEvent);
+                if (parsed) yield parsed;
+
+                boundary = buffer.search(/\r?\n\r?\n/);
+            }
+        }
+
+        const parsed = parseSSEEvent(buffer);
+        if (parsed) yield parsed;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function parseSSEEvent(rawEvent: string): SSEEvent | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of rawEvent.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+    }
+
+    if (dataLines.length === 0) return null;
+    return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Serialize one event in text/event-stream format
+ */
+export function formatSSEEvent(data: unknown, event?: string): string {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    return `${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`;
+}
@@ -0,0 +1,69 @@
+/**
+ * ZIP archives for tests of the readers built on openZip
+ * Entries are deflated unless `store` is set; the archive has a local header for each entry,
+ * a central directory and the end record, as written by Word or LinkedIn's export.
+ */
+
+import { crc32, deflateRawSync } from 'node:zlib';
+
+export function createZip(files: Record<string, string | Uint8Array>, { store = false } = {}): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const nameBytes = encoder.encode(name);
+        const raw = typeof content === 'string' ? encoder.encode(content) : content;
+        const data = store ? raw : new Uint8Array(deflateRawSync(raw));
+        const method = store ? 0 : 8;
+        const crc = crc32(raw);
+
+        const local = new Uint8Array(30 + nameBytes.length + data.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(4, 20, true);
+        localView.setUint16(8, method, true);
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, raw.length, true);
+        localView.setUint16(26, nameBytes.length, true);
+        local.set(nameBytes, 30);
+        local.set(data, 30 + nameBytes.length);
+
+        const central = new Uint8Array(46 + nameBytes.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, 20, true);
+        centralView.setUint16(6, 20, true);
+        centralView.setUint16(10, method, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, raw.length, true);
+        centralView.setUint16(28, nameBytes.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(nameBytes, 46);
+
+        locals.push(local);
+        centrals.push(central);
+        offset += local.length;
+    }
+
+    const directorySize = centrals.reduce((size, central) => size + central.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, centrals.length, true);
+    endView.setUint16(10, centrals.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    const parts = [...locals, ...centrals, end];
+    const archive = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        archive.set(part, position);
+        position += part.length;
+    }
+    return archive.buffer;
+}
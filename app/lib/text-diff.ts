@@ -0,0 +1,54 @@
+/**
+ * Word-level diff for showing what an AI rewrite changed
+ */
+
+export interface DiffSegment {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Diff two texts word by word (longest common subsequence); whitespace stays attached to words
+ * Adjacent segments of the same type are merged
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = before.match(/\S+\s*/g) ?? [];
+    const b = after.match(/\S+\s*/g) ?? [];
+    const same = (x: string, y: string) => x.trimEnd() === y.trimEnd();
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (same(a[i], b[j])) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+
+    return segments;
+}
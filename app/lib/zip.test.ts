@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './test-zip';
+import { openZip } from './zip';
+
+describe('openZip', () => {
+    it.each([
+        ['deflated', false],
+        ['stored', true],
+    ])('reads %s entries', async (_, store) => {
+        const zip = openZip(createZip({ 'word/document.xml': '<w:document>Jane Smith</w:document>', 'README.txt': 'Hello' }, { store }));
+
+        expect(zip.names).toEqual(['word/document.xml', 'README.txt']);
+        expect(await zip.readText('word/document.xml')).toBe('<w:document>Jane Smith</w:document>');
+        expect(await zip.readBytes('README.txt')).toEqual(new TextEncoder().encode('Hello'));
+    });
+
+    it('leaves directories out and returns null for a missing entry', async () => {
+        const zip = openZip(createZip({ 'export/': '', 'export/Profile.csv': 'First Name\nJane' }));
+
+        expect(zip.names).toEqual(['export/Profile.csv']);
+        expect(zip.has('export/')).toBe(false);
+        expect(await zip.readText('Positions.csv')).toBeNull();
+    });
+
+    it('throws for data that is not a ZIP file', () => {
+        expect(() => openZip(new TextEncoder().encode('%PDF-1.7 not a zip file at all'))).toThrow('Not a ZIP file');
+    });
+
+    it('throws for an encrypted entry', () => {
+        const bytes = new Uint8Array(createZip({ 'secret.txt': 'hidden' }));
+        const view = new DataView(bytes.buffer);
+        const directory = view.getUint32(bytes.length - 22 + 16, true);
+        view.setUint16(directory + 8, 0x1, true);
+
+        expect(() => openZip(bytes)).toThrow('Encrypted ZIP files are not supported');
+    });
+});
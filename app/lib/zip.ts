@@ -0,0 +1,99 @@
+/**
+ * Minimal ZIP reader for documents opened in the browser (DOCX packages, data-export archives)
+ * Reads the central directory and inflates entries with the built-in DecompressionStream, so no
+ * library is needed. Stored and deflated entries are supported; ZIP64 and encrypted archives are not.
+ */
+
+export interface ZipArchive {
+    /** Entry paths, e.g. "word/document.xml"; directories are left out */
+    names: string[];
+    has(name: string): boolean;
+    /** Entry contents, or null when the archive has no such entry */
+    readBytes(name: string): Promise<Uint8Array | null>;
+    readText(name: string): Promise<string | null>;
+}
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Open a ZIP archive; throws when the data isn't a ZIP file this reader can handle
+ */
+export function openZip(data: ArrayBuffer | Uint8Array): ZipArchive {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end record is at most 22 bytes + a 64 KB comment from the end of the file
+    let end = -1;
+    for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+            end = offset;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Not a ZIP file');
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    if (entryCount === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+    for (let index = 0; index < entryCount; index++) {
+        if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('The ZIP file is damaged');
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        if (flags & 0x1) throw new Error('Encrypted ZIP files are not supported');
+        if (!name.endsWith('/')) {
+            entries.set(name, {
+                method: view.getUint16(offset + 10, true),
+                compressedSize: view.getUint32(offset + 20, true),
+                localHeaderOffset: view.getUint32(offset + 42, true),
+            });
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const readBytes = async (name: string): Promise<Uint8Array | null> => {
+        const entry = entries.get(name);
+        if (!entry) return null;
+
+        const header = entry.localHeaderOffset;
+        if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error(`The ZIP entry ${name} is damaged`);
+        // The local header has its own name/extra lengths, which may differ from the central directory's
+        const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+        const compressed = bytes.subarray(start, start + entry.compressedSize);
+
+        if (entry.method === 0) return compressed;
+        if (entry.method === 8) return inflateRaw(compressed);
+        throw new Error(`The ZIP entry ${name} uses an unsupported compression method (${entry.method})`);
+    };
+
+    return {
+        names: [...entries.keys()],
+        has: name => entries.has(name),
+        readBytes,
+        async readText(name) {
+            const content = await readBytes(name);
+            return content ? new TextDecoder().decode(content) : null;
+        },
+    };
+}
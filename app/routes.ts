@@ -10,4 +10,14 @@ export default [
     route('/tradmin', 'routes/tradmin.tsx'),
     route('/wipe', 'routes/wipe.tsx'),
     route('/api/ai', 'routes/api.ai.ts'),
+    route('/api/ai/batch', 'routes/api.ai-batch.ts'),
+    route('/api/analyze', 'routes/api.analyze.ts'),
+    route('/api/ai-usage', 'routes/api.ai-usage.ts'),
+    route('/api/ai-routing', 'routes/api.ai-routing.ts'),
+    route('/api/v1/parse', 'routes/api.v1.parse.ts'),
+    route('/api/v1/score', 'routes/api.v1.score.ts'),
+    route('/api/v1/rewrite', 'routes/api.v1.rewrite.ts'),
+    route('/api/v1/cover-letter', 'routes/api.v1.cover-letter.ts'),
+    route('/api/v1/usage', 'routes/api.v1.usage.ts'),
+    route('/api/v1/openapi.json', 'routes/api.v1.openapi.ts'),
 ] satisfies RouteConfig;
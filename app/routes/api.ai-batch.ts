@@ -0,0 +1,81 @@
+import type { ActionFunctionArgs } from "react-router";
+import { AI_BATCH_MAX_ITEMS, isRewriteMode, type AIBatchResponse } from "~/lib/ai-batch";
+import { prepareRewriteBatch, runRewriteBatch } from "~/lib/ai-batch.server";
+import { AIProviderError } from "~/lib/ai-errors";
+import { errorResponse } from "~/lib/ai-gateway.server";
+import { checkAILimits } from "~/lib/ai-rate-limit.server";
+import { REWRITE_MODES } from "~/lib/public-api";
+
+function invalidRequest(message: string): AIProviderError {
+    return new AIProviderError(message, 400, 'INVALID_REQUEST');
+}
+
+/**
+ * Batched rewrite API
+ * { operation, items: string[] } -> { operation, results: [{ ok, text } | { ok, error, code }], failed }
+ * Runs one rewrite template (improve, quantify, stronger, shorten, humanize) over up to
+ * AI_BATCH_MAX_ITEMS texts, a few at a time, instead of one /api/ai request per bullet
+ * Counts once against the per-minute rate limit and once per item against the daily `rewrite` quota
+ * Responds 200 when some items failed; each failure is reported in its own slot
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+    let limitHeaders: Record<string, string> = {};
+
+    try {
+        const body = await request.json().catch(() => {
+            throw invalidRequest("Body must be JSON");
+        });
+
+        if (!isRewriteMode(body?.operation)) {
+            throw invalidRequest(`\`operation\` must be one of: ${REWRITE_MODES.join(', ')}`);
+        }
+        const items: unknown = body.items;
+        if (!Array.isArray(items) || items.length === 0 || items.length > AI_BATCH_MAX_ITEMS) {
+            throw invalidRequest(`\`items\` must be a list of 1-${AI_BATCH_MAX_ITEMS} texts`);
+        }
+        if (items.some(item => typeof item !== "string" || !item.trim())) {
+            throw invalidRequest("Every item must be a non-empty string");
+        }
+        const texts = items as string[];
+
+        const bypassCache = Boolean(body.noCache) || /no-cache/i.test(request.headers.get("Cache-Control") || "");
+        const batch = prepareRewriteBatch(body.operation, texts, bypassCache);
+
+        // Every item is sent as its own prompt, so the size limit applies to the longest rendered one
+        const longest = batch
+            .map(item => item.resolved.prompt)
+            .reduce((a, b) => (b.length > a.length ? b : a));
+        const limits = checkAILimits({ request, context }, 'rewrite', longest, undefined, texts.length);
+        limitHeaders = limits.headers;
+        if (limits.error) {
+            return errorResponse(limits.error, limitHeaders);
+        }
+
+        const results = await runRewriteBatch(body.operation, batch, request.signal);
+
+        if (request.signal.aborted) {
+            return errorResponse(new AIProviderError('Batch was cancelled by the client', 499, 'ABORTED'), limitHeaders);
+        }
+
+        const response: AIBatchResponse = {
+            operation: body.operation,
+            results,
+            failed: results.filter(result => !result.ok).length,
+        };
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: {
+                ...limitHeaders,
+                "Content-Type": "application/json",
+            },
+        });
+
+    } catch (error: any) {
+        if (request.signal.aborted) {
+            console.log('⏹️ Client cancelled the AI batch');
+        } else {
+            console.error('Error in AI batch API:', error);
+        }
+        return errorResponse(error, limitHeaders);
+    }
+}
@@ -0,0 +1,76 @@
+import type { ActionFunctionArgs } from "react-router";
+import { isAdminRequest } from "~/lib/admin.server";
+import { AI_ROUTE_NAMES, resolveNamedAIRoute, type AIRoutingState } from "~/lib/ai-routing";
+import {
+    checkAIRoutingConfig,
+    getAIRoutingConfig,
+    getAIRoutingFile,
+    getAIRoutingOverrides,
+    saveAIRoutingOverrides,
+} from "~/lib/ai-routing.server";
+
+function json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function routingState(): AIRoutingState {
+    const config = getAIRoutingConfig();
+    return {
+        file: getAIRoutingFile(),
+        overrides: getAIRoutingOverrides().overrides,
+        routes: AI_ROUTE_NAMES.map(name => ({ name, ...resolveNamedAIRoute(config, name) })),
+        problems: checkAIRoutingConfig(),
+        editable: Boolean(process.env.ADMIN_TOKEN),
+    };
+}
+
+/**
+ * Effective AI model routing for the admin page
+ * GET /api/ai-routing -> per-route targets and parameters, the file overrides and any problems
+ */
+export async function loader() {
+    try {
+        return json(routingState());
+    } catch (error: any) {
+        console.error('Error reading AI routing:', error);
+        return json({ error: error.message || 'Internal server error' }, 500);
+    }
+}
+
+/**
+ * Replace the routing overrides file
+ * PUT /api/ai-routing with `Authorization: Bearer $ADMIN_TOKEN` and the overrides as the JSON body
+ */
+export async function action({ request }: ActionFunctionArgs) {
+    if (request.method !== "PUT" && request.method !== "POST") {
+        return json({ error: 'Method not allowed' }, 405);
+    }
+
+    if (!process.env.ADMIN_TOKEN) {
+        return json({ error: 'Editing the AI routing is disabled; set ADMIN_TOKEN on the server to enable it' }, 403);
+    }
+    if (!isAdminRequest(request)) {
+        return json({ error: 'Invalid admin token', code: 'UNAUTHORIZED' }, 401);
+    }
+
+    let overrides: unknown;
+    try {
+        overrides = await request.json();
+    } catch {
+        return json({ error: 'Request body must be JSON', code: 'INVALID_REQUEST' }, 400);
+    }
+
+    try {
+        const errors = saveAIRoutingOverrides(overrides);
+        if (errors.length > 0) {
+            return json({ error: 'The routing config is invalid', code: 'INVALID_REQUEST', errors }, 400);
+        }
+        return json(routingState());
+    } catch (error: any) {
+        console.error('Error saving AI routing:', error);
+        return json({ error: error.message || 'Internal server error' }, 500);
+    }
+}
@@ -0,0 +1,39 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { getAITelemetrySink, readAIUsage } from "~/lib/ai-telemetry.server";
+import { summarizeAIUsage, usageWindowStart, type AIUsageResponse, type AIUsageSummary } from "~/lib/ai-usage";
+
+const MAX_DAYS = 90;
+
+/**
+ * AI usage summary for the admin dashboard
+ * GET /api/ai-usage?days=14 -> per-day, per-feature and per-template call counts, errors, latency and size
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+    const requestedDays = parseInt(new URL(request.url).searchParams.get("days") || "", 10);
+    const days = Number.isInteger(requestedDays) ? Math.min(Math.max(requestedDays, 1), MAX_DAYS) : 14;
+
+    const now = new Date();
+    const since = usageWindowStart(days, now);
+
+    try {
+        const records = await readAIUsage(since);
+        let summary: AIUsageSummary | null = null;
+        if (records) {
+            summary = summarizeAIUsage(records, days, now);
+            const costPer1kTokens = parseFloat(process.env.AI_COST_PER_1K_TOKENS || "");
+            if (costPer1kTokens >= 0) summary.costPer1kTokens = costPer1kTokens;
+        }
+
+        const body: AIUsageResponse = { sink: getAITelemetrySink()?.name ?? null, summary };
+        return new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    } catch (error: any) {
+        console.error('Error reading AI usage:', error);
+        return new Response(JSON.stringify({ error: error.message || 'Internal server error' }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+}
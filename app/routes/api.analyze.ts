@@ -0,0 +1,158 @@
+import type { ActionFunctionArgs } from "react-router";
+import { setAITransport } from "~/lib/ai-client";
+import { AIProviderError } from "~/lib/ai-errors";
+import type { JobDescription } from "~/lib/ai-features";
+import { errorResponse, serverAITransport } from "~/lib/ai-gateway.server";
+import { checkAILimitCharges } from "~/lib/ai-rate-limit.server";
+import { readIntEnv } from "~/lib/env.server";
+import { extractTextFromPdfBuffer } from "~/lib/pdf-text.server";
+import { requestsPrivacyMode, withPrivacyMode } from "~/lib/privacy-mode.server";
+import { analyzeResume, ResumeAnalysisError } from "~/lib/resume-analysis";
+
+interface AnalyzeInput {
+    resumeText: string;
+    jobDescription: JobDescription;
+    privacyMode: boolean;
+}
+
+function invalidRequest(message: string, status: number = 400): AIProviderError {
+    return new AIProviderError(message, status, 'INVALID_REQUEST');
+}
+
+/**
+ * Refuse bodies over `maxBytes` before they are read: up front when Content-Length says so,
+ * otherwise (chunked uploads) as soon as the streamed body passes the limit
+ */
+function limitBodySize(request: Request, maxBytes: number): Request {
+    const tooLarge = (size: string) => invalidRequest(`Request body is ${size} bytes; the limit is ${maxBytes}`, 413);
+
+    const declared = Number(request.headers.get("Content-Length"));
+    if (declared > maxBytes) {
+        throw tooLarge(String(declared));
+    }
+    if (!request.body) return request;
+
+    let received = 0;
+    const body = request.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.byteLength;
+            if (received > maxBytes) {
+                controller.error(tooLarge(`over ${received}`));
+                return;
+            }
+            controller.enqueue(chunk);
+        },
+    }));
+    return new Request(request, { body, duplex: "half" } as RequestInit);
+}
+
+/**
+ * Read the resume (PDF upload or plain text) and the job description from a
+ * multipart form or a JSON body
+ */
+async function readAnalyzeInput(request: Request): Promise<AnalyzeInput> {
+    let fields: Record<string, unknown>;
+    let resumeFile: File | null = null;
+
+    // The PDF limit plus room for the text fields and multipart framing
+    const maxPdfBytes = readIntEnv("ANALYZE_MAX_PDF_BYTES", 10 * 1024 * 1024);
+    const body = limitBodySize(request, maxPdfBytes + 1024 * 1024);
+
+    if ((request.headers.get("Content-Type") || "").includes("multipart/form-data")) {
+        const formData = await body.formData();
+        fields = Object.fromEntries(formData.entries());
+        const resume = formData.get("resume");
+        resumeFile = resume instanceof File ? resume : null;
+    } else {
+        fields = await body.json().catch((error) => {
+            if (error instanceof AIProviderError) throw error;
+            throw invalidRequest("Body must be JSON or multipart/form-data");
+        });
+    }
+
+    const text = (name: string) => typeof fields[name] === "string" ? (fields[name] as string).trim() : "";
+
+    let resumeText = text("resumeText");
+    if (resumeFile) {
+        if (resumeFile.size > maxPdfBytes) {
+            throw invalidRequest(`Resume PDF is ${resumeFile.size} bytes; the limit is ${maxPdfBytes}`, 413);
+        }
+        try {
+            resumeText = await extractTextFromPdfBuffer(new Uint8Array(await resumeFile.arrayBuffer()));
+        } catch (error: any) {
+            throw invalidRequest(`Could not read the resume PDF: ${error?.message || error}`);
+        }
+    }
+
+    if (resumeText.length < 10) {
+        throw invalidRequest(resumeFile
+            ? "No text could be extracted from the resume PDF (it may be a scanned image)"
+            : "Send a `resume` PDF file or `resumeText`", 422);
+    }
+
+    const description = text("jobDescription");
+    if (!description) {
+        throw invalidRequest("`jobDescription` is required");
+    }
+
+    return {
+        resumeText,
+        jobDescription: {
+            title: text("jobTitle"),
+            company: text("companyName"),
+            description,
+        },
+        privacyMode: requestsPrivacyMode(request, fields.privacyMode),
+    };
+}
+
+/**
+ * Resume analysis API
+ * Runs the same pipeline as the upload page (parse, AI feedback, local scores) and returns one report:
+ * { parsedResumeData, feedback, atsScore, jdMatch, contentStrength, overallScore, overusedWords, metricsScan }
+ * Accepts multipart/form-data with a `resume` PDF, or JSON with `resumeText`; both take
+ * `jobDescription` plus optional `jobTitle`, `companyName` and `privacyMode`
+ * Counts against the caller's daily `parse` and `analyze` quotas
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+    let limitHeaders: Record<string, string> = {};
+
+    // The pipeline uses the same AI helpers as the browser; on the server they call the providers in-process
+    setAITransport(serverAITransport);
+
+    try {
+        const { resumeText, jobDescription, privacyMode } = await readAnalyzeInput(request);
+
+        const limits = checkAILimitCharges({ request, context }, [
+            { feature: 'parse', prompt: resumeText },
+            { feature: 'analyze', prompt: `${resumeText}\n${jobDescription.description}` },
+        ]);
+        limitHeaders = limits.headers;
+        if (limits.error) {
+            return errorResponse(limits.error, limitHeaders);
+        }
+
+        console.log(`📊 Server-side analysis: ${resumeText.length} characters of resume text`);
+        const report = await withPrivacyMode(privacyMode, () => analyzeResume(resumeText, jobDescription, request.signal));
+
+        return new Response(JSON.stringify(report), {
+            status: 200,
+            headers: {
+                ...limitHeaders,
+                "Content-Type": "application/json",
+            },
+        });
+
+    } catch (error: any) {
+        if (request.signal.aborted) {
+            console.log('⏹️ Client cancelled the analysis');
+            return errorResponse(new AIProviderError('Analysis was cancelled by the client', 499, 'ABORTED'), limitHeaders);
+        }
+        if (error instanceof ResumeAnalysisError) {
+            console.error(`❌ Server-side analysis failed at the ${error.step} step`);
+            return errorResponse(new AIProviderError(error.message, 502, 'ANALYSIS_FAILED'), limitHeaders);
+        }
+        console.error('Error in analysis API:', error);
+        return errorResponse(error, limitHeaders);
+    }
+}
@@ -0,0 +1,46 @@
+import type { ActionFunctionArgs } from "react-router";
+import { generateCoverLetter, parseResumeWithGemini } from "~/lib/ai-features";
+import type { CoverLetterResponse } from "~/lib/public-api";
+import {
+    analysisFailed,
+    handlePublicApiRequest,
+    invalidRequest,
+    readParsedResume,
+    requireJobDescription,
+} from "~/lib/public-api.server";
+
+/**
+ * POST /api/v1/cover-letter
+ * { parsedResumeData | resumeText, jobDescription } -> { coverLetter }
+ * Counts against the key's `cover-letter` quota, and its `parse` quota when raw text is sent
+ */
+export async function action({ request }: ActionFunctionArgs) {
+    return handlePublicApiRequest(request, 'cover-letter', async ({ body, signal, limit }): Promise<CoverLetterResponse> => {
+        const jobDescription = requireJobDescription(body);
+
+        let parsedResumeData;
+        const resumeText = typeof body.resumeText === 'string' ? body.resumeText.trim() : '';
+        if (body.parsedResumeData !== undefined) {
+            parsedResumeData = readParsedResume(body.parsedResumeData);
+            limit({ feature: 'cover-letter', prompt: jobDescription.description });
+        } else if (resumeText) {
+            // Both quotas are checked before either is counted
+            limit(
+                { feature: 'parse', prompt: body.resumeText },
+                { feature: 'cover-letter', prompt: jobDescription.description }
+            );
+            parsedResumeData = await parseResumeWithGemini(resumeText, signal);
+            if (!parsedResumeData) {
+                throw analysisFailed('Failed to parse resume with AI');
+            }
+        } else {
+            throw invalidRequest('Send `parsedResumeData` or `resumeText`');
+        }
+
+        const coverLetter = await generateCoverLetter(parsedResumeData, jobDescription, signal);
+        if (!coverLetter) {
+            throw analysisFailed('Failed to generate a cover letter');
+        }
+        return { coverLetter };
+    });
+}
@@ -0,0 +1,15 @@
+import { buildOpenAPIDocument } from "~/lib/openapi";
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 description of the public API; no key needed
+ */
+export async function loader() {
+    return new Response(JSON.stringify(buildOpenAPIDocument(), null, 2), {
+        status: 200,
+        headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "public, max-age=300",
+        },
+    });
+}
@@ -0,0 +1,21 @@
+import type { ActionFunctionArgs } from "react-router";
+import { parseResumeWithGemini } from "~/lib/ai-features";
+import type { ParseResponse } from "~/lib/public-api";
+import { analysisFailed, handlePublicApiRequest, requireString } from "~/lib/public-api.server";
+
+/**
+ * POST /api/v1/parse
+ * { resumeText } -> { parsedResumeData }; counts against the key's `parse` quota
+ */
+export async function action({ request }: ActionFunctionArgs) {
+    return handlePublicApiRequest(request, 'parse', async ({ body, signal, limit }): Promise<ParseResponse> => {
+        const resumeText = requireString(body, 'resumeText');
+        limit({ feature: 'parse', prompt: resumeText });
+
+        const parsedResumeData = await parseResumeWithGemini(resumeText, signal);
+        if (!parsedResumeData) {
+            throw analysisFailed('Failed to parse resume with AI');
+        }
+        return { parsedResumeData };
+    });
+}
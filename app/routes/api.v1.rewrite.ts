@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "react-router";
+import { humanizeText, improveText, makeStronger, quantifyAchievement, shortenText } from "~/lib/ai-features";
+import { REWRITE_MODES, type RewriteMode, type RewriteResponse } from "~/lib/public-api";
+import { handlePublicApiRequest, invalidRequest, requireString } from "~/lib/public-api.server";
+
+const REWRITERS: Record<RewriteMode, (text: string, signal?: AbortSignal) => Promise<string>> = {
+    improve: improveText,
+    quantify: quantifyAchievement,
+    stronger: makeStronger,
+    shorten: shortenText,
+    humanize: humanizeText,
+};
+
+/**
+ * POST /api/v1/rewrite
+ * { text, mode } -> { text, mode }; counts against the key's `rewrite` quota
+ * Like the builder's bullet buttons, the original text comes back if the AI gives no usable reply
+ */
+export async function action({ request }: ActionFunctionArgs) {
+    return handlePublicApiRequest(request, 'rewrite', async ({ body, signal, limit }): Promise<RewriteResponse> => {
+        const text = requireString(body, 'text');
+        const mode = body.mode as RewriteMode;
+        if (!REWRITE_MODES.includes(mode)) {
+            throw invalidRequest(`\`mode\` must be one of: ${REWRITE_MODES.join(', ')}`);
+        }
+        limit({ feature: 'rewrite', prompt: text });
+
+        return { text: await REWRITERS[mode](text, signal), mode };
+    });
+}
@@ -0,0 +1,27 @@
+import type { ActionFunctionArgs } from "react-router";
+import type { ScoreResponse } from "~/lib/public-api";
+import { analysisFailed, handlePublicApiRequest, requireJobDescription, requireString } from "~/lib/public-api.server";
+import { analyzeResume, ResumeAnalysisError } from "~/lib/resume-analysis";
+
+/**
+ * POST /api/v1/score
+ * { resumeText, jobDescription } -> the full analysis report (parsed data, AI feedback and local scores)
+ * Counts against the key's `parse` and `analyze` quotas
+ */
+export async function action({ request }: ActionFunctionArgs) {
+    return handlePublicApiRequest(request, 'score', async ({ body, signal, limit }): Promise<ScoreResponse> => {
+        const resumeText = requireString(body, 'resumeText');
+        const jobDescription = requireJobDescription(body);
+        limit(
+            { feature: 'parse', prompt: resumeText },
+            { feature: 'analyze', prompt: `${resumeText}\n${jobDescription.description}` }
+        );
+
+        try {
+            return await analyzeResume(resumeText, jobDescription, signal);
+        } catch (error) {
+            if (error instanceof ResumeAnalysisError) throw analysisFailed(error.message);
+            throw error;
+        }
+    });
+}
@@ -0,0 +1,29 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { errorResponse } from "~/lib/ai-gateway.server";
+import { getQuotaUsage } from "~/lib/ai-rate-limit.server";
+import { authenticateApiKey, getApiUsage, toClientIdentity } from "~/lib/api-keys.server";
+import type { UsageResponse } from "~/lib/public-api";
+import { PUBLIC_API_ENDPOINTS } from "~/lib/public-api.server";
+
+/**
+ * GET /api/v1/usage
+ * Today's quota usage and the all-time request/error counters of the calling key
+ * Does not count against any quota
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+    try {
+        const apiKey = authenticateApiKey(request);
+        const usage: UsageResponse = {
+            keyId: apiKey.id,
+            quotas: getQuotaUsage(toClientIdentity(apiKey)),
+            endpoints: getApiUsage(apiKey, PUBLIC_API_ENDPOINTS),
+        };
+
+        return new Response(JSON.stringify(usage), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+        });
+    } catch (error) {
+        return errorResponse(error, {});
+    }
+}
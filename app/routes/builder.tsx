@@ -1,13 +1,21 @@
 import {Link, useNavigate} from "react-router";
 import {useState, useEffect, useRef} from "react";
 import FileUploader from "~/components/FileUploader";
-import {convertPdfToImage, extractTextFromPdf} from "~/lib/pdf2img";
+import {convertPdfToImage} from "~/lib/pdf2img";
+import {convertResumeToImage, readResumeText, RESUME_FILE_ACCEPT, resumeMimeType} from "~/lib/resume-file";
+import type {OcrResult} from "~/lib/ocr";
+import OcrNotice from "~/components/OcrNotice";
 import {parseResumeWithGemini} from "~/lib/gemini";
-import AIFeatures, { AIBulletButtons } from "~/components/AIFeatures";
-import {generateSummary, generateBulletPoints, improveText, quantifyAchievement} from "~/lib/ai-features";
+import {parseResumeText} from "~/lib/resume-text-parser";
+import AIFeatures, { AIBulletButtons, AIRoleBulletsButton } from "~/components/AIFeatures";
+import PrivacyModeToggle from "~/components/PrivacyModeToggle";
+import {streamSummary, generateBulletPoints, improveText, quantifyAchievement, isAbortError} from "~/lib/ai-features";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
 import {saveResumeRecord} from "~/lib/firebase";
+import {exportJsonResume, importJsonResume, type JsonResume} from "~/lib/json-resume";
+import {mergeImportedResume, readLinkedInExport, type LinkedInImport} from "~/lib/linkedin-import";
+import LinkedInImportPreview from "~/components/LinkedInImportPreview";
 import {Timestamp} from "firebase/firestore";
 
 export const meta = () => ([
@@ -56,6 +64,66 @@ interface ResumeData {
     }>;
 }
 
+// Blank form: one empty row per section so every section shows its inputs
+const createEmptyResumeData = (): ResumeData => ({
+    personalInfo: {
+        fullName: '',
+        email: '',
+        phone: '',
+        location: '',
+        linkedin: '',
+        portfolio: ''
+    },
+    summary: '',
+    experience: [{
+        company: '',
+        position: '',
+        startDate: '',
+        endDate: '',
+        location: '',
+        current: false,
+        description: ['']
+    }],
+    education: [{
+        degree: '',
+        school: '',
+        gpa: '',
+        graduationDate: ''
+    }],
+    skills: {
+        technical: [''],
+        soft: ['']
+    },
+    projects: [{
+        name: '',
+        description: ''
+    }],
+    certifications: [{
+        name: ''
+    }],
+    achievements: [{
+        name: ''
+    }]
+});
+
+// Imported data with the blank row createEmptyResumeData has in every section the import left empty
+const withBlankRows = (data: ResumeData): ResumeData => {
+    const empty = createEmptyResumeData();
+    return {
+        personalInfo: data.personalInfo,
+        summary: data.summary,
+        experience: data.experience.length > 0 ? data.experience : empty.experience,
+        education: data.education.length > 0 ? data.education : empty.education,
+        skills: {
+            technical: data.skills.technical.length > 0 ? data.skills.technical : empty.skills.technical,
+            soft: data.skills.soft.length > 0 ? data.skills.soft : empty.skills.soft
+        },
+        projects: data.projects.length > 0 ? data.projects : empty.projects,
+        certifications: data.certifications.length > 0 ? data.certifications : empty.certifications,
+        achievements: data.achievements.length > 0 ? data.achievements : empty.achievements
+    };
+};
+
 const Builder = () => {
     const navigate = useNavigate();
     const resumePreviewRef = useRef<HTMLDivElement>(null);
@@ -64,51 +132,21 @@ const Builder = () => {
     const [resumePdfUrl, setResumePdfUrl] = useState<string>('');
     const [isConvertingPdf, setIsConvertingPdf] = useState(false);
     const [isParsing, setIsParsing] = useState(false);
+    const [uploadOcr, setUploadOcr] = useState<OcrResult | null>(null); // Set when the upload was a scan read with OCR
     const [professionalResumeImageUrl, setProfessionalResumeImageUrl] = useState<string>('');
     const [selectedTemplate, setSelectedTemplate] = useState<string>('modern-classic');
     const [activeSection, setActiveSection] = useState<string>('personal');
     const [isExporting, setIsExporting] = useState(false);
     const [resumeRecordId, setResumeRecordId] = useState<string | null>(null); // Track Firebase document ID
-    const [resumeData, setResumeData] = useState<ResumeData>({
-        personalInfo: {
-            fullName: '',
-            email: '',
-            phone: '',
-            location: '',
-            linkedin: '',
-            portfolio: ''
-        },
-        summary: '',
-        experience: [{
-            company: '',
-            position: '',
-            startDate: '',
-            endDate: '',
-            location: '',
-            current: false,
-            description: ['']
-        }],
-        education: [{
-            degree: '',
-            school: '',
-            gpa: '',
-            graduationDate: ''
-        }],
-        skills: {
-            technical: [''],
-            soft: ['']
-        },
-        projects: [{
-            name: '',
-            description: ''
-        }],
-        certifications: [{
-            name: ''
-        }],
-        achievements: [{
-            name: ''
-        }]
-    });
+    const [isStreamingSummary, setIsStreamingSummary] = useState(false);
+    const summaryAbortRef = useRef<AbortController | null>(null);
+    const bulletsAbortRef = useRef<AbortController | null>(null);
+    const [resumeData, setResumeData] = useState<ResumeData>(createEmptyResumeData);
+    // The JSON Resume document last imported; exports merge into it so fields the form lacks survive
+    const [jsonResumeSource, setJsonResumeSource] = useState<JsonResume | undefined>(undefined);
+    const jsonInputRef = useRef<HTMLInputElement>(null);
+    const [linkedInImport, setLinkedInImport] = useState<LinkedInImport | null>(null);
+    const linkedInInputRef = useRef<HTMLInputElement>(null);
 
     // ---- Demo/Sample content for "Modern Professional" template ----
     const getModernProfessionalSample = (): ResumeData => ({
@@ -173,167 +211,15 @@ const Builder = () => {
         ]
     });
 
-    // Parse extracted text and populate form fields
-    const parseResumeText = (text: string) => {
-        const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-        
-        // Extract email
-        const emailMatch = text.match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/);
-        const email = emailMatch ? emailMatch[0] : '';
-
-        // Extract phone (various formats)
-        const phoneMatch = text.match(/(\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}|\d{10}/);
-        const phone = phoneMatch ? phoneMatch[0] : '';
-
-        // Extract LinkedIn URL
-        const linkedinMatch = text.match(/(linkedin\.com\/in\/[\w-]+|linkedin\.com\/pub\/[\w-]+)/i);
-        const linkedin = linkedinMatch ? linkedinMatch[0] : '';
-
-        // Extract GitHub URL
-        const githubMatch = text.match(/(github\.com\/[\w-]+)/i);
-        
-        // Extract portfolio/website (excluding LinkedIn and GitHub)
-        const portfolioMatch = text.match(/(www\.|https?:\/\/)?([\w-]+\.)+[\w-]+(\/[\w-]*)?/i);
-        let portfolio = '';
-        if (portfolioMatch && !linkedinMatch && !githubMatch) {
-            portfolio = portfolioMatch[0];
-        } else if (githubMatch) {
-            portfolio = githubMatch[0];
-        }
-
-        // Extract name (usually first line or before email)
-        let fullName = '';
-        if (lines.length > 0) {
-            const firstLine = lines[0];
-            // If first line doesn't contain email/phone, it's likely the name
-            if (!firstLine.includes('@') && !firstLine.match(/\d{3}/) && firstLine.length < 50) {
-                fullName = firstLine;
-            } else {
-                // Look for name pattern (2-4 words, capitalized)
-                const namePattern = /^[A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,3}$/;
-                for (const line of lines.slice(0, 5)) {
-                    if (namePattern.test(line) && !line.includes('@') && !line.match(/\d/)) {
-                        fullName = line;
-                        break;
-                    }
-                }
-            }
-        }
-
-        // Extract location (common patterns)
-        const locationMatch = text.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z]{2})|([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*,\s*[A-Z][a-z]+)/);
-        const location = locationMatch ? locationMatch[0] : '';
-
-        // Extract summary (text after name/contact, before experience/education)
-        let summary = '';
-        const summaryKeywords = ['summary', 'objective', 'profile', 'about'];
-        const experienceKeywords = ['experience', 'employment', 'work history', 'professional experience'];
-        const educationKeywords = ['education', 'academic', 'university', 'degree'];
-        
-        let summaryStart = -1;
-        let summaryEnd = text.length;
-        
-        for (let i = 0; i < lines.length; i++) {
-            const lowerLine = lines[i].toLowerCase();
-            if (summaryKeywords.some(kw => lowerLine.includes(kw)) && summaryStart === -1) {
-                summaryStart = i + 1;
-            }
-            if (experienceKeywords.some(kw => lowerLine.includes(kw)) || 
-                educationKeywords.some(kw => lowerLine.includes(kw))) {
-                if (summaryStart !== -1 && summaryEnd === text.length) {
-                    summaryEnd = i;
-                }
-            }
-        }
-        
-        if (summaryStart !== -1) {
-            summary = lines.slice(summaryStart, summaryEnd).join(' ').substring(0, 500);
-        }
-
-        // Extract experience
-        const experience: Array<{
-            company: string;
-            position: string;
-            startDate: string;
-            endDate: string;
-            location?: string;
-            current: boolean;
-            description: string[];
-        }> = [];
-        
-        const expSectionMatch = text.match(/(experience|employment|work history|professional experience)[\s\S]*?(?=(education|skills|projects|$))/i);
-        if (expSectionMatch) {
-            const expText = expSectionMatch[0];
-            // Simple extraction - look for company names and positions
-            const expEntries = expText.split(/\n(?=[A-Z])/).slice(1); // Skip header
-            expEntries.slice(0, 5).forEach(entry => {
-                const entryLines = entry.split('\n').filter(l => l.trim());
-                if (entryLines.length >= 2) {
-                    const position = entryLines[0].trim();
-                    const companyLine = entryLines[1].trim();
-                    const dateMatch = entry.match(/(\w+\s+\d{4})\s*[-–]\s*(\w+\s+\d{4}|present|current)/i);
-                    experience.push({
-                        company: companyLine.split('•')[0].trim(),
-                        position: position,
-                        startDate: dateMatch ? dateMatch[1] : '',
-                        endDate: dateMatch ? (dateMatch[2].toLowerCase().includes('present') || dateMatch[2].toLowerCase().includes('current') ? 'Present' : dateMatch[2]) : '',
-                        current: dateMatch ? (dateMatch[2].toLowerCase().includes('present') || dateMatch[2].toLowerCase().includes('current')) : false,
-                        description: entryLines.slice(2).filter(l => l.trim().startsWith('•') || l.trim().startsWith('-')).map(l => l.replace(/^[•\-]\s*/, '').trim()).filter(l => l.length > 0)
-                    });
-                }
-            });
-        }
-
-        // Extract education
-        const education: Array<{
-            degree: string;
-            school: string;
-            gpa: string;
-            graduationDate: string;
-        }> = [];
-        
-        const eduSectionMatch = text.match(/(education|academic background)[\s\S]*?(?=(experience|skills|projects|$))/i);
-        if (eduSectionMatch) {
-            const eduText = eduSectionMatch[0];
-            const eduEntries = eduText.split(/\n(?=[A-Z])/).slice(1);
-            eduEntries.slice(0, 3).forEach(entry => {
-                const entryLines = entry.split('\n').filter(l => l.trim());
-                if (entryLines.length >= 1) {
-                    const degreeMatch = entry.match(/(bachelor|master|phd|doctorate|associate|degree)[\s\S]*?in[\s\S]*?([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i);
-                    const gpaMatch = entry.match(/gpa[:\s]*([\d.]+)/i);
-                    const dateMatch = entry.match(/(\w+\s+\d{4}|\d{4})/);
-                    education.push({
-                        degree: degreeMatch ? degreeMatch[0].substring(0, 100) : entryLines[0],
-                        school: entryLines.find(l => l.includes('university') || l.includes('college') || l.includes('institute')) || entryLines[1] || '',
-                        gpa: gpaMatch ? gpaMatch[1] : '',
-                        graduationDate: dateMatch ? dateMatch[1] : ''
-                    });
-                }
-            });
-        }
-
-        // Extract skills
-        const skillsSectionMatch = text.match(/(technical\s+skills?|skills?|competencies)[\s\S]*?(?=(experience|education|projects|$))/i);
-        const technical: string[] = [];
-        const soft: string[] = [];
-        
-        if (skillsSectionMatch) {
-            const skillsText = skillsSectionMatch[0];
-            // Common technical skills keywords
-            const techKeywords = ['javascript', 'python', 'java', 'react', 'node', 'sql', 'html', 'css', 'typescript', 'angular', 'vue', 'aws', 'docker', 'kubernetes', 'git', 'mongodb', 'postgresql', 'linux', 'api', 'rest', 'graphql'];
-            const softKeywords = ['leadership', 'communication', 'teamwork', 'problem solving', 'analytical', 'creative', 'time management', 'collaboration'];
-            
-            const skillWords = skillsText.toLowerCase().split(/[,;•\n]/).map(s => s.trim()).filter(s => s.length > 0);
-            skillWords.forEach(skill => {
-                if (techKeywords.some(kw => skill.includes(kw))) {
-                    technical.push(skill);
-                } else if (softKeywords.some(kw => skill.includes(kw))) {
-                    soft.push(skill);
-                } else if (skill.length > 2 && skill.length < 30) {
-                    technical.push(skill);
-                }
-            });
-        }
+    // Parse extracted text with the regex parser and populate form fields, keeping values it couldn't find
+    const fillFormFromText = (text: string) => {
+        const {
+            personalInfo: { fullName, email, phone, location, linkedin, portfolio },
+            summary,
+            experience,
+            education,
+            skills: { technical, soft },
+        } = parseResumeText(text);
 
         // Update resume data
         setResumeData(prev => ({
@@ -357,21 +243,25 @@ const Builder = () => {
     };
 
     // Convert PDF to image and extract text when file is uploaded
+    // A newer upload (or leaving the builder) cancels the AI parse of the previous file
     useEffect(() => {
+        const controller = new AbortController();
+
         const convertPdf = async () => {
             console.log('🔄 useEffect triggered, uploadedFile:', uploadedFile?.name || 'null');
             if (uploadedFile) {
+                setJsonResumeSource(undefined);
                 console.log('📁 Processing uploaded file:', uploadedFile.name, uploadedFile.size, 'bytes');
                 setIsConvertingPdf(true);
                 try {
-                    // Create PDF URL for download
-                    const pdfBlob = new Blob([uploadedFile], { type: 'application/pdf' });
+                    // Create a URL for opening the original file
+                    const pdfBlob = new Blob([uploadedFile], { type: resumeMimeType(uploadedFile.name) });
                     const pdfUrl = URL.createObjectURL(pdfBlob);
                     setResumePdfUrl(pdfUrl);
                     console.log('✅ PDF URL created');
 
                     // Convert to image for display
-                    const result = await convertPdfToImage(uploadedFile);
+                    const result = await convertResumeToImage(uploadedFile);
                     if (result.imageUrl) {
                         setResumeImageUrl(result.imageUrl);
                         console.log('✅ PDF converted to image');
@@ -380,7 +270,8 @@ const Builder = () => {
                     // Extract text and populate form using Gemini AI
                     console.log('📝 Starting text extraction...');
                     setIsParsing(true);
-                    const extractedText = await extractTextFromPdf(uploadedFile);
+                    const { text: extractedText, ocr } = await readResumeText(uploadedFile);
+                    setUploadOcr(ocr ?? null);
                     console.log('📄 Extracted resume text length:', extractedText?.length || 0);
                     console.log('📄 First 300 chars of extracted text:', extractedText?.substring(0, 300));
                     
@@ -390,7 +281,7 @@ const Builder = () => {
                         console.log('🤖 Calling AI to parse resume...');
                         console.log('📤 Sending to parseResumeWithGemini, text length:', extractedText.length);
                         try {
-                            const geminiParsed = await parseResumeWithGemini(extractedText);
+                            const geminiParsed = await parseResumeWithGemini(extractedText, controller.signal);
                             console.log('📥 Received response from parseResumeWithGemini:', geminiParsed ? 'SUCCESS' : 'NULL');
                             if (geminiParsed) {
                                 console.log('✅ AI parsing successful:', {
@@ -473,9 +364,10 @@ const Builder = () => {
                             } else {
                                 console.warn('⚠️ AI parsing returned null, falling back to regex parsing');
                                 // Fallback to regex parsing if Gemini fails
-                                parseResumeText(extractedText);
+                                fillFormFromText(extractedText);
                             }
                         } catch (aiError) {
+                            if (isAbortError(aiError)) throw aiError;
                             console.error('❌ Error calling AI parsing:', aiError);
                             
                             // Save error to Firebase
@@ -493,7 +385,7 @@ const Builder = () => {
                             }
                             
                             // Fallback to regex parsing if AI call fails
-                            parseResumeText(extractedText);
+                            fillFormFromText(extractedText);
                         }
                     } else {
                         const textLength = extractedText?.trim().length || 0;
@@ -505,12 +397,17 @@ const Builder = () => {
                         // Still try regex parsing as fallback even with minimal text
                         if (extractedText && textLength > 0) {
                             console.log('🔄 Attempting regex parsing as fallback...');
-                            parseResumeText(extractedText);
+                            fillFormFromText(extractedText);
                         }
                     }
                     setIsParsing(false);
                     console.log('✅ Finished processing PDF');
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        // Superseded by a newer upload; that run owns the loading state now
+                        console.log('⏹️ Resume parsing cancelled');
+                        return;
+                    }
                     console.error('❌ Error processing PDF:', error);
                     console.error('Error details:', error instanceof Error ? error.message : error);
                     setIsParsing(false);
@@ -529,16 +426,21 @@ const Builder = () => {
                         console.error('Failed to log error to Firebase:', logError);
                     }
                 } finally {
-                    setIsConvertingPdf(false);
+                    if (!controller.signal.aborted) {
+                        setIsConvertingPdf(false);
+                    }
                 }
             } else {
                 console.log('ℹ️ No file uploaded yet');
                 setResumeImageUrl('');
                 setResumePdfUrl('');
+                setIsConvertingPdf(false);
+                setIsParsing(false);
             }
         };
 
         convertPdf();
+        return () => controller.abort();
     }, [uploadedFile]);
 
     // When user selects "Modern Professional" and form is empty (no user/parsed data and no upload),
@@ -580,6 +482,14 @@ const Builder = () => {
         loadProfessionalResume();
     }, []);
 
+    // Cancel AI requests that are still running when leaving the builder
+    useEffect(() => {
+        return () => {
+            summaryAbortRef.current?.abort();
+            bulletsAbortRef.current?.abort();
+        };
+    }, []);
+
     const updatePersonalInfo = (field: string, value: string) => {
         setResumeData(prev => ({
             ...prev,
@@ -591,6 +501,37 @@ const Builder = () => {
         setResumeData(prev => ({ ...prev, summary: value }));
     };
 
+    // Stream an AI summary into the summary field; clicking again while streaming cancels it
+    const handleGenerateSummary = async () => {
+        if (summaryAbortRef.current) {
+            summaryAbortRef.current.abort();
+            return;
+        }
+
+        const controller = new AbortController();
+        summaryAbortRef.current = controller;
+        setIsStreamingSummary(true);
+
+        const previousSummary = resumeData.summary;
+        let streamed = '';
+        try {
+            const summary = await streamSummary(resumeData, 'classic', (token) => {
+                streamed += token;
+                updateSummary(streamed);
+            }, controller.signal);
+            // A cancelled stream keeps the summary the user had, not the partial text
+            updateSummary(!controller.signal.aborted && summary ? summary : previousSummary);
+        } catch (error) {
+            if (!isAbortError(error)) {
+                console.error('Error generating summary:', error);
+            }
+            updateSummary(previousSummary);
+        } finally {
+            summaryAbortRef.current = null;
+            setIsStreamingSummary(false);
+        }
+    };
+
     const addExperience = () => {
         setResumeData(prev => ({
             ...prev,
@@ -1606,6 +1547,62 @@ const Builder = () => {
         }
     };
 
+    // Replace the form with a JSON Resume file
+    const handleImportJson = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            const json = JSON.parse(await file.text());
+            setResumeData(withBlankRows(importJsonResume(json)));
+            setJsonResumeSource(json);
+            console.log('✅ JSON Resume imported:', file.name);
+        } catch (error) {
+            console.error('Error importing JSON Resume:', error);
+            alert(`Could not import ${file.name}: ${error instanceof SyntaxError ? 'the file is not valid JSON' : (error as Error).message}`);
+        }
+    };
+
+    // Read a LinkedIn data export ZIP in the browser and show what it contains before touching the form
+    const handleImportLinkedIn = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            const data = await readLinkedInExport(await file.arrayBuffer());
+            console.log('✅ LinkedIn export read:', data.files.join(', '));
+            setLinkedInImport(data);
+        } catch (error) {
+            console.error('Error reading LinkedIn export:', error);
+            alert(`Could not import ${file.name}: ${(error as Error).message}`);
+        }
+    };
+
+    const applyLinkedInImport = (mode: 'replace' | 'merge') => {
+        if (!linkedInImport) return;
+        const imported = linkedInImport.resume;
+        setResumeData(prev => withBlankRows(mode === 'replace' ? imported : mergeImportedResume(prev, imported)));
+        if (mode === 'replace') setJsonResumeSource(undefined);
+        setLinkedInImport(null);
+    };
+
+    const handleExportJson = () => {
+        const json = exportJsonResume(resumeData, jsonResumeSource);
+        const fileName = resumeData.personalInfo.fullName
+            ? `${resumeData.personalInfo.fullName.replace(/\s+/g, '_')}_Resume.json`
+            : 'Resume.json';
+
+        const blob = new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     return (
         <main className="!pt-0 min-h-screen bg-white">
             {/* Navigation */}
@@ -1614,24 +1611,61 @@ const Builder = () => {
                     <img src="/icons/back.svg" alt="back" className="w-2.5 h-2.5" />
                     <span className="text-gray-800 text-sm font-semibold">Back to Homepage</span>
                 </Link>
-                <button 
-                    onClick={handleExportPdf}
-                    disabled={isExporting || !hasFormData()}
-                    className="primary-button w-fit flex items-center gap-2"
-                >
-                    {isExporting ? 'Exporting...' : 'Download PDF'}
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                    </svg>
-                </button>
+                <div className="flex items-center gap-2">
+                    <input ref={linkedInInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportLinkedIn} />
+                    <button
+                        onClick={() => linkedInInputRef.current?.click()}
+                        disabled={isExporting}
+                        className="px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50"
+                        title="Load the ZIP from LinkedIn's Settings > Data privacy > Get a copy of your data"
+                    >
+                        Import LinkedIn
+                    </button>
+                    <input ref={jsonInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportJson} />
+                    <button
+                        onClick={() => jsonInputRef.current?.click()}
+                        disabled={isExporting}
+                        className="px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50"
+                        title="Load a JSON Resume (jsonresume.org) file into the form"
+                    >
+                        Import JSON
+                    </button>
+                    <button
+                        onClick={handleExportJson}
+                        disabled={isExporting || !hasFormData()}
+                        className="px-4 py-2 text-sm font-semibold text-gray-700 border border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50"
+                        title="Download the resume as a JSON Resume (jsonresume.org) file"
+                    >
+                        Export JSON
+                    </button>
+                    <button 
+                        onClick={handleExportPdf}
+                        disabled={isExporting || !hasFormData()}
+                        className="primary-button w-fit flex items-center gap-2"
+                    >
+                        {isExporting ? 'Exporting...' : 'Download PDF'}
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                        </svg>
+                    </button>
+                </div>
             </nav>
 
+            {linkedInImport && (
+                <LinkedInImportPreview
+                    data={linkedInImport}
+                    onReplace={() => applyLinkedInImport('replace')}
+                    onMerge={() => applyLinkedInImport('merge')}
+                    onCancel={() => setLinkedInImport(null)}
+                />
+            )}
+
             <div className="flex flex-col lg:flex-row w-full lg:h-[calc(100vh-60px)] -mt-2">
                 {/* Mobile: Upload Section */}
                 <section className="lg:hidden bg-white border-b border-gray-200 p-6">
                     <div className="mb-8">
                         <h2 className="text-2xl font-bold text-gray-900 mb-4 text-center">Upload Resume</h2>
-                        <FileUploader key={uploadedFile ? 'has-file' : 'no-file'} onFileSelect={setUploadedFile} />
+                        <FileUploader key={uploadedFile ? 'has-file' : 'no-file'} onFileSelect={setUploadedFile} accept={RESUME_FILE_ACCEPT} />
                         {uploadedFile && (
                             <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
                                 <p className="text-sm text-green-700">
@@ -1639,6 +1673,7 @@ const Builder = () => {
                                 </p>
                         </div>
                         )}
+                        {uploadedFile && uploadOcr && <div className="mt-4"><OcrNotice ocr={uploadOcr} /></div>}
                     </div>
                 </section>
 
@@ -1681,7 +1716,7 @@ const Builder = () => {
                         {/* Upload Resume Section */}
                     <div className="mb-8">
                             <h2 className="text-2xl font-bold text-gray-900 mb-4 text-center">Upload Resume</h2>
-                            <FileUploader key={uploadedFile ? 'has-file' : 'no-file'} onFileSelect={setUploadedFile} />
+                            <FileUploader key={uploadedFile ? 'has-file' : 'no-file'} onFileSelect={setUploadedFile} accept={RESUME_FILE_ACCEPT} />
                         {uploadedFile && (
                                 <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
                                     <p className="text-sm text-green-700">
@@ -1689,6 +1724,7 @@ const Builder = () => {
                                     </p>
                                 </div>
                             )}
+                        {uploadedFile && uploadOcr && <div className="mt-4"><OcrNotice ocr={uploadOcr} /></div>}
                     </div>
 
                     {/* Choose Template Section */}
@@ -1806,13 +1842,10 @@ const Builder = () => {
                                 <div className="flex items-center justify-between">
                                 <h2 className="text-2xl font-bold text-gray-900">Professional Summary</h2>
                                     <button
-                                        onClick={async () => {
-                                            const summary = await generateSummary(resumeData);
-                                            if (summary) updateSummary(summary);
-                                        }}
-                                        className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+                                        onClick={handleGenerateSummary}
+                                        className={`px-4 py-2 text-white rounded-lg text-sm font-medium ${isStreamingSummary ? 'bg-gray-600 hover:bg-gray-700' : 'bg-blue-600 hover:bg-blue-700'}`}
                                     >
-                                        ✨ AI Generate
+                                        {isStreamingSummary ? '⏹️ Cancel' : '✨ AI Generate'}
                                     </button>
                                 </div>
                                 <div className="form-div">
@@ -1893,18 +1926,33 @@ const Builder = () => {
                                                 <label>Description</label>
                                                 <button
                                                     onClick={async () => {
-                                                        const bullets = await generateBulletPoints(
-                                                            exp.position,
-                                                            exp.company,
-                                                            exp.description.filter(d => d.trim())
-                                                        );
-                                                        if (bullets.length > 0) {
-                                                            setResumeData(prev => ({
-                                                                ...prev,
-                                                                experience: prev.experience.map((e, i) =>
-                                                                    i === index ? { ...e, description: bullets } : e
-                                                                )
-                                                            }));
+                                                        // A newer bullet request replaces the previous one
+                                                        bulletsAbortRef.current?.abort();
+                                                        const controller = new AbortController();
+                                                        bulletsAbortRef.current = controller;
+                                                        try {
+                                                            const bullets = await generateBulletPoints(
+                                                                exp.position,
+                                                                exp.company,
+                                                                exp.description.filter(d => d.trim()),
+                                                                controller.signal
+                                                            );
+                                                            if (bullets.length > 0) {
+                                                                setResumeData(prev => ({
+                                                                    ...prev,
+                                                                    experience: prev.experience.map((e, i) =>
+                                                                        i === index ? { ...e, description: bullets } : e
+                                                                    )
+                                                                }));
+                                                            }
+                                                        } catch (error) {
+                                                            if (!isAbortError(error)) {
+                                                                console.error('Error generating bullets:', error);
+                                                            }
+                                                        } finally {
+                                                            if (bulletsAbortRef.current === controller) {
+                                                                bulletsAbortRef.current = null;
+                                                            }
                                                         }
                                                     }}
                                                     className="px-3 py-1 bg-blue-600 text-white rounded text-xs font-medium hover:bg-blue-700"
@@ -1912,6 +1960,11 @@ const Builder = () => {
                                                     ✨ AI Generate Bullets
                                                 </button>
                                             </div>
+                                            <AIRoleBulletsButton
+                                                expIndex={index}
+                                                bullets={exp.description}
+                                                onUpdate={(descIndex, newText) => updateExperienceDescription(index, descIndex, newText)}
+                                            />
                                             {exp.description.map((desc, descIndex) => (
                                                 <div key={descIndex} className="mb-2">
                                                     <textarea
@@ -2151,6 +2204,7 @@ const Builder = () => {
                         {activeSection === 'ai-tools' && (
                             <div className="space-y-6">
                                 <h2 className="text-2xl font-bold text-gray-900">✨ AI-Powered Tools</h2>
+                                <PrivacyModeToggle />
                                 <AIFeatures
                                     resumeData={resumeData}
                                     onSummaryUpdate={updateSummary}
@@ -2369,6 +2423,11 @@ const Builder = () => {
                                         </div>
                                         <div className="form-div">
                                             <label>Description</label>
+                                            <AIRoleBulletsButton
+                                                expIndex={index}
+                                                bullets={exp.description}
+                                                onUpdate={(descIndex, newText) => updateExperienceDescription(index, descIndex, newText)}
+                                            />
                                             {exp.description.map((desc, descIndex) => (
                                                 <div key={descIndex} className="mb-3">
                                                     <textarea
@@ -1,8 +1,8 @@
-import { useState, type FormEvent } from 'react';
+import { useEffect, useRef, useState, type FormEvent } from 'react';
 import { useNavigate } from 'react-router';
 import Navbar from '~/components/Navbar';
-import { generateCoverLetter, parseResumeWithGemini, type ParsedResumeData, type JobDescription } from '~/lib/ai-features';
-import { extractTextFromPdf } from '~/lib/pdf2img';
+import { streamCoverLetter, parseResumeWithGemini, isAbortError, type ParsedResumeData, type JobDescription } from '~/lib/ai-features';
+import { extractResumeText, RESUME_FILE_ACCEPT } from '~/lib/resume-file';
 import FileUploader from '~/components/FileUploader';
 import { saveCoverLetterRecord } from '~/lib/firebase';
 import { Timestamp } from 'firebase/firestore';
@@ -18,6 +18,16 @@ const CoverLetter = () => {
     const [coverLetter, setCoverLetter] = useState<string>('');
     const [resumeFile, setResumeFile] = useState<File | null>(null);
     const [resumeData, setResumeData] = useState<ParsedResumeData | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Stop any in-flight generation when leaving the page
+    useEffect(() => {
+        return () => abortControllerRef.current?.abort();
+    }, []);
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
 
     const handleResumeUpload = (file: File | null) => {
         setResumeFile(file);
@@ -46,11 +56,16 @@ const CoverLetter = () => {
         }
 
         setIsGenerating(true);
+        setCoverLetter('');
+        // A new submission replaces any generation that is still running
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         try {
             // Step 1: Parse resume (API call)
-            const resumeText = await extractTextFromPdf(resumeFile);
-            const parsed = await parseResumeWithGemini(resumeText);
+            const resumeText = await extractResumeText(resumeFile);
+            const parsed = await parseResumeWithGemini(resumeText, controller.signal);
             
             if (!parsed) {
                 alert('Error parsing resume. Please try again.');
@@ -65,7 +80,13 @@ const CoverLetter = () => {
                 company: companyName,
             };
 
-            const letter = await generateCoverLetter(parsed, jobDesc);
+            // Fill the result pane token by token as the letter streams in
+            const letter = await streamCoverLetter(
+                parsed,
+                jobDesc,
+                (token) => setCoverLetter(prev => prev + token),
+                controller.signal
+            );
             if (letter) {
                 setCoverLetter(letter);
                 setResumeData(parsed); // Store parsed data for future use
@@ -85,10 +106,18 @@ const CoverLetter = () => {
                 alert('Error generating cover letter. Please check your API key and try again.');
             }
         } catch (error) {
+            if (isAbortError(error)) {
+                // Cancelled by the user - keep whatever was generated so far
+                console.log('⏹️ Cover letter generation cancelled');
+                return;
+            }
             console.error('Error generating cover letter:', error);
             alert('Error generating cover letter. Please try again.');
         } finally {
-            setIsGenerating(false);
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsGenerating(false);
+            }
         }
     };
 
@@ -117,11 +146,19 @@ const CoverLetter = () => {
             <section className="main-section">
                 <div className="page-heading py-8 md:py-16 px-4">
                     <h1 className="text-3xl sm:text-4xl md:text-5xl lg:text-6xl break-words">Create a Cover Letter with AI in Minutes</h1>
-                    {isGenerating ? (
+                    {isGenerating && !coverLetter ? (
                         <>
                             <h2 className="text-base sm:text-lg md:text-xl mt-4 px-2">Generating your personalized cover letter...</h2>
                             <img src="/images/resume-scan-2.gif" className="w-full max-w-md mx-auto mt-8" alt="Generating cover letter" />
+                            <button
+                                onClick={handleCancel}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-4 py-2 rounded-lg transition-colors mt-4"
+                            >
+                                Cancel
+                            </button>
                         </>
+                    ) : isGenerating ? (
+                        <h2 className="text-base sm:text-lg md:text-xl mt-4 px-2">Writing your cover letter...</h2>
                     ) : coverLetter ? (
                         <h2 className="text-base sm:text-lg md:text-xl mt-4 px-2">Your personalized cover letter is ready</h2>
                     ) : (
@@ -187,9 +224,9 @@ const CoverLetter = () => {
                             {/* Resume Upload - Moved to end */}
                             <div className="form-div">
                                 <label htmlFor="resume-upload">
-                                    Upload Your Resume (PDF)
+                                    Upload Your Resume (PDF or Word)
                                 </label>
-                                <FileUploader onFileSelect={handleResumeUpload} accept=".pdf" />
+                                <FileUploader onFileSelect={handleResumeUpload} accept={RESUME_FILE_ACCEPT} />
                             </div>
 
                             {/* Submit Button */}
@@ -209,6 +246,14 @@ const CoverLetter = () => {
                             <div className="bg-white rounded-2xl shadow-lg p-4 md:p-8">
                                 <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
                                     <h2 className="text-xl md:text-2xl font-bold text-gray-900">Your Cover Letter</h2>
+                                    {isGenerating ? (
+                                        <button
+                                            onClick={handleCancel}
+                                            className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold px-4 py-2 rounded-lg transition-colors w-full sm:w-auto"
+                                        >
+                                            Cancel
+                                        </button>
+                                    ) : (
                                     <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
                                         <button
                                             onClick={handleDownload}
@@ -223,6 +268,7 @@ const CoverLetter = () => {
                                             Generate New
                                         </button>
                                     </div>
+                                    )}
                                 </div>
                                 <div className="prose max-w-none">
                                     <div className="whitespace-pre-wrap text-gray-700 leading-relaxed p-4 md:p-6 bg-gray-50 rounded-lg border-2 border-gray-200 text-sm md:text-base">
@@ -1,13 +1,17 @@
 import {Link, useNavigate, useParams} from "react-router";
-import {useEffect, useState, type FormEvent} from "react";
+import {useEffect, useRef, useState, type FormEvent} from "react";
 import {fileStorage, storage, auth} from "~/lib/storage";
 import Summary from "~/components/Summary";
 import ATS from "~/components/ATS";
 import Details from "~/components/Details";
 import EnhancedATS from "~/components/EnhancedATS";
 import FileUploader from "~/components/FileUploader";
+import OcrNotice from "~/components/OcrNotice";
 import {extractTextFromPdf} from "~/lib/pdf2img";
-import {analyzeResumeWithGemini, calculateATSScore, calculateJDMatch, calculateContentStrength, calculateOverallResumeScore, detectOverusedWords, scanQuantifiedMetrics, type ParsedResumeData, type JobDescription} from "~/lib/ai-features";
+import {extractResumeText, resumeMimeType} from "~/lib/resume-file";
+import {extractTextFromDocx, isDocxFile} from "~/lib/docx";
+import type {OcrResult} from "~/lib/ocr";
+import {analyzeResumeWithGemini, isAbortError, calculateATSScore, calculateJDMatch, calculateContentStrength, calculateOverallResumeScore, detectOverusedWords, scanQuantifiedMetrics, type ParsedResumeData, type JobDescription} from "~/lib/ai-features";
 import {saveATSAnalysisRecord} from "~/lib/firebase";
 import {Timestamp} from "firebase/firestore";
 
@@ -28,11 +32,16 @@ const Resume = () => {
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [jdFile, setJdFile] = useState<File | null>(null);
     const [resumeText, setResumeText] = useState<string>('');
+    const [ocr, setOcr] = useState<OcrResult | null>(null);
+    const analyzeAbortRef = useRef<AbortController | null>(null);
     const navigate = useNavigate();
 
     // Auth is already set in storage.ts
 
     useEffect(() => {
+        // Cancels the automatic analysis when leaving the page or switching to another resume
+        const controller = new AbortController();
+
         const loadResume = async () => {
             setIsLoadingResume(true);
             const resume = await storage.get(`resume:${id}`);
@@ -50,7 +59,7 @@ const Resume = () => {
                 return;
             }
 
-            const pdfBlob = new Blob([resumeBlob], { type: 'application/pdf' });
+            const pdfBlob = new Blob([resumeBlob], { type: resumeMimeType(data.resumePath) });
             const resumeUrl = URL.createObjectURL(pdfBlob);
             setResumeUrl(resumeUrl);
 
@@ -64,6 +73,7 @@ const Resume = () => {
 
             setFeedback(data.feedback);
             setParsedResumeData(data.parsedResumeData || null);
+            setOcr(data.ocr || null);
             const jobDesc = data.jobDescription || {
                 title: data.jobTitle || '',
                 description: data.jobDescriptionText || data.jobDescription || '',
@@ -76,15 +86,18 @@ const Resume = () => {
                 try {
                     const resumeBlob = await fileStorage.read(data.resumePath);
                     if (resumeBlob) {
-                        const pdfFile = new File([resumeBlob], 'resume.pdf', { type: 'application/pdf' });
-                        const text = await extractTextFromPdf(pdfFile);
+                        // Stored paths end with the uploaded file's name, so they keep its extension
+                        const fileName = data.resumePath.split('/').pop() || 'resume.pdf';
+                        const resumeFile = new File([resumeBlob], fileName, { type: resumeMimeType(fileName) });
+                        // Scans were read with OCR on upload; reuse that text instead of recognizing every page again
+                        const text = data.ocr?.text || await extractResumeText(resumeFile);
                         setResumeText(text);
                         
                         // If we have resume text, parsed data, and job description but no feedback, run analysis
                         if (text && data.parsedResumeData && jobDesc.description && jobDesc.description.trim() !== '' && !data.feedback) {
                             console.log('🔄 Running analysis automatically...');
                             try {
-                                const newFeedback = await analyzeResumeWithGemini(text, jobDesc);
+                                const newFeedback = await analyzeResumeWithGemini(text, jobDesc, data.parsedResumeData, controller.signal);
                                 if (newFeedback) {
                                     setFeedback(newFeedback);
                                     // Save updated feedback
@@ -92,6 +105,7 @@ const Resume = () => {
                                     await storage.set(`resume:${id}`, JSON.stringify(updatedData));
                                 }
                             } catch (err) {
+                                if (isAbortError(err)) return;
                                 console.error('Error running automatic analysis:', err);
                             }
                         }
@@ -106,13 +120,21 @@ const Resume = () => {
         }
 
         loadResume();
+        return () => controller.abort();
     }, [id]);
 
+    // Stop a re-analysis that is still running when leaving the page
+    useEffect(() => {
+        return () => analyzeAbortRef.current?.abort();
+    }, []);
+
     const extractJobDescriptionText = async (jdFile: File | null, jdText: string): Promise<string> => {
         if (jdFile) {
             const fileName = jdFile.name.toLowerCase();
             if (fileName.endsWith('.pdf')) {
                 return await extractTextFromPdf(jdFile);
+            } else if (isDocxFile(jdFile)) {
+                return await extractTextFromDocx(jdFile);
             } else {
                 try {
                     return await jdFile.text();
@@ -135,6 +157,9 @@ const Resume = () => {
         const jobDescriptionText = formData.get('job-description') as string;
 
         setIsAnalyzing(true);
+        analyzeAbortRef.current?.abort();
+        const controller = new AbortController();
+        analyzeAbortRef.current = controller;
 
         try {
             const jdText = await extractJobDescriptionText(jdFile, jobDescriptionText);
@@ -150,7 +175,7 @@ const Resume = () => {
             // Re-analyze with new job description if we have resume text
             if (resumeText && parsedResumeData) {
                 console.log('🔍 Re-analyzing resume - Using Hugging Face API (NOT puter.com)');
-                const newFeedback = await analyzeResumeWithGemini(resumeText, jobDesc);
+                const newFeedback = await analyzeResumeWithGemini(resumeText, jobDesc, parsedResumeData, controller.signal);
                 if (newFeedback) {
                     setFeedback(newFeedback);
                     
@@ -195,10 +220,14 @@ const Resume = () => {
 
             setShowJDForm(false);
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Error analyzing with job description:', error);
             alert('Error analyzing resume. Please try again.');
         } finally {
-            setIsAnalyzing(false);
+            if (analyzeAbortRef.current === controller) {
+                analyzeAbortRef.current = null;
+                setIsAnalyzing(false);
+            }
         }
     };
 
@@ -314,6 +343,7 @@ const Resume = () => {
                                 </button>
                             )}
                         </div>
+                        {ocr && <OcrNotice ocr={ocr} />}
                         {feedback && <Summary feedback={feedback} />}
                         {parsedResumeData ? (
                             <>
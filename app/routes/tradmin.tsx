@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import Navbar from '~/components/Navbar';
+import AIUsageDashboard from '~/components/AIUsageDashboard';
+import AIRoutingEditor from '~/components/AIRoutingEditor';
 import { getResumeRecords, getATSAnalysisRecords, getCoverLetterRecords, getErrorLogs, type ResumeRecord, type ATSAnalysisRecord, type CoverLetterRecord, type ErrorLogRecord } from '~/lib/firebase';
 
 export const meta = () => ([
@@ -7,7 +9,7 @@ export const meta = () => ([
     { name: 'description', content: 'Admin dashboard for viewing all records' },
 ]);
 
-type ViewType = 'home' | 'resumes' | 'ats' | 'cover-letters' | 'error-logs';
+type ViewType = 'home' | 'resumes' | 'ats' | 'cover-letters' | 'error-logs' | 'ai-usage' | 'ai-routing';
 
 const Tradmin = () => {
     const [currentView, setCurrentView] = useState<ViewType>('home');
@@ -63,6 +65,16 @@ const Tradmin = () => {
         }
     };
 
+    const handleViewAIUsage = () => {
+        setCurrentView('ai-usage');
+        setCurrentPage(1);
+    };
+
+    const handleViewAIRouting = () => {
+        setCurrentView('ai-routing');
+        setCurrentPage(1);
+    };
+
     const formatDate = (timestamp: any) => {
         if (!timestamp) return 'N/A';
         if (timestamp.toDate) {
@@ -104,7 +116,8 @@ const Tradmin = () => {
             currentView === 'resumes' ? resumeRecords.length :
             currentView === 'ats' ? atsRecords.length :
             currentView === 'cover-letters' ? coverLetterRecords.length :
-            errorLogs.length;
+            currentView === 'error-logs' ? errorLogs.length :
+            0;
         return Math.ceil(totalRecords / recordsPerPage);
     };
 
@@ -127,7 +140,7 @@ const Tradmin = () => {
                                 <span className="text-black">Admin Dashboard</span>
                             </h1>
                             <p className="text-xl md:text-2xl text-gray-600 mb-10 max-w-3xl mx-auto leading-relaxed">
-                                View and manage all resume, ATS analysis, and cover letter records
+                                View and manage all resume, ATS analysis, and cover letter records, and monitor AI usage
                             </p>
                         </div>
                     </div>
@@ -136,7 +149,7 @@ const Tradmin = () => {
                 {/* Feature Cards */}
                 <section className="py-20 px-4 sm:px-6 lg:px-8">
                     <div className="max-w-7xl mx-auto">
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                             {/* Check AI Resume Records Card */}
                             <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-2xl p-8 shadow-lg hover:shadow-xl transition-shadow">
                                 <div className="flex items-center justify-center w-16 h-16 bg-blue-500 rounded-full mb-6">
@@ -193,6 +206,44 @@ const Tradmin = () => {
                                     View Records
                                 </button>
                             </div>
+
+                            {/* AI Usage Card */}
+                            <div className="bg-gradient-to-br from-orange-50 to-orange-100 rounded-2xl p-8 shadow-lg hover:shadow-xl transition-shadow">
+                                <div className="flex items-center justify-center w-16 h-16 bg-orange-500 rounded-full mb-6">
+                                    <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                                    </svg>
+                                </div>
+                                <h3 className="text-2xl font-bold text-gray-900 mb-4">AI Usage</h3>
+                                <p className="text-gray-600 mb-6">
+                                    View AI calls per day and per feature, latency, cache hits and the error-rate trend.
+                                </p>
+                                <button
+                                    onClick={handleViewAIUsage}
+                                    className="w-full bg-orange-600 hover:bg-orange-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                                >
+                                    View Usage
+                                </button>
+                            </div>
+
+                            {/* AI Routing Card */}
+                            <div className="bg-gradient-to-br from-teal-50 to-teal-100 rounded-2xl p-8 shadow-lg hover:shadow-xl transition-shadow">
+                                <div className="flex items-center justify-center w-16 h-16 bg-teal-500 rounded-full mb-6">
+                                    <svg className="w-8 h-8 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                                    </svg>
+                                </div>
+                                <h3 className="text-2xl font-bold text-gray-900 mb-4">AI Routing</h3>
+                                <p className="text-gray-600 mb-6">
+                                    See and edit which model, temperature and token limit each AI feature uses, and its fallbacks.
+                                </p>
+                                <button
+                                    onClick={handleViewAIRouting}
+                                    className="w-full bg-teal-600 hover:bg-teal-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+                                >
+                                    View Routing
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </section>
@@ -232,6 +283,8 @@ const Tradmin = () => {
                             {currentView === 'ats' && 'ATS Analysis Records'}
                             {currentView === 'cover-letters' && 'Cover Letter Records'}
                             {currentView === 'error-logs' && 'Error Logs'}
+                            {currentView === 'ai-usage' && 'AI Usage'}
+                            {currentView === 'ai-routing' && 'AI Routing'}
                         </h2>
                     </div>
 
@@ -373,6 +426,10 @@ const Tradmin = () => {
                                     </>
                                 )}
 
+                                {currentView === 'ai-usage' && <AIUsageDashboard />}
+
+                                {currentView === 'ai-routing' && <AIRoutingEditor />}
+
                                 {currentView === 'error-logs' && (
                                     <>
                                         <div className="mb-4 text-sm text-gray-600">
@@ -1,11 +1,13 @@
-import {type FormEvent, useState} from 'react'
+import {type FormEvent, useEffect, useRef, useState} from 'react'
 import Navbar from "~/components/Navbar";
 import FileUploader from "~/components/FileUploader";
+import PrivacyModeToggle from "~/components/PrivacyModeToggle";
 import {fileStorage, storage} from "~/lib/storage";
 import {useNavigate} from "react-router";
-import {convertPdfToImage, extractTextFromPdf} from "~/lib/pdf2img";
+import {convertResumeToImage, readResumeText, RESUME_FILE_ACCEPT} from "~/lib/resume-file";
 import {generateUUID} from "~/lib/utils";
-import {analyzeResumeWithGemini, parseResumeWithGemini, calculateATSScore, calculateJDMatch, calculateContentStrength, calculateOverallResumeScore, detectOverusedWords, type JobDescription} from "~/lib/ai-features";
+import {analyzeResumeWithGemini, isAbortError, parseResumeWithGemini, type JobDescription} from "~/lib/ai-features";
+import {DEFAULT_LENGTH_SCORE, scoreResume} from "~/lib/resume-analysis";
 import {saveATSAnalysisRecord} from "~/lib/firebase";
 import {Timestamp} from "firebase/firestore";
 
@@ -20,6 +22,12 @@ const Upload = () => {
         jobDescription?: string;
         file?: string;
     }>({});
+    const analyzeAbortRef = useRef<AbortController | null>(null);
+
+    // Leaving the page cancels the AI calls so they can't update state afterwards
+    useEffect(() => {
+        return () => analyzeAbortRef.current?.abort();
+    }, []);
 
     const handleFileSelect = (file: File | null) => {
         setFile(file);
@@ -31,6 +39,9 @@ const Upload = () => {
 
     const handleAnalyze = async ({ companyName, jobTitle, jobDescription, file }: { companyName: string, jobTitle: string, jobDescription: string, file: File }) => {
         setIsProcessing(true);
+        analyzeAbortRef.current?.abort();
+        const controller = new AbortController();
+        analyzeAbortRef.current = controller;
 
         try {
             setStatusText('Uploading the file...');
@@ -50,19 +61,19 @@ const Upload = () => {
             }
 
             setStatusText('Converting to image...');
-            const imageFile = await convertPdfToImage(file);
+            const imageFile = await convertResumeToImage(file);
             if(!imageFile.file) {
-                const error = new Error('Failed to convert PDF to image');
+                const error = new Error('Failed to convert resume to image');
                 const { saveErrorLog } = await import('~/lib/firebase');
                 await saveErrorLog(error, {
                     errorType: 'PDF_TO_IMAGE_CONVERSION',
                     fileName: file.name,
                     fileSize: file.size,
                     page: 'upload',
-                    action: 'convertPdfToImage',
+                    action: 'convertResumeToImage',
                 });
                 setIsProcessing(false);
-                return setStatusText('Error: Failed to convert PDF to image');
+                return setStatusText('Error: Failed to convert resume to image');
             }
 
             setStatusText('Uploading the image...');
@@ -81,7 +92,9 @@ const Upload = () => {
             }
 
             setStatusText('Extracting resume text...');
-            const resumeText = await extractTextFromPdf(file);
+            const { text: resumeText, ocr } = await readResumeText(file, (page, pageCount, progress) =>
+                setStatusText(`Reading scanned page ${page}/${pageCount} with OCR (${Math.round(progress * 100)}%)...`)
+            );
             if (!resumeText || resumeText.trim().length < 10) {
                 const error = new Error('Failed to extract text from resume or text too short');
                 const { saveErrorLog } = await import('~/lib/firebase');
@@ -90,15 +103,18 @@ const Upload = () => {
                     fileName: file.name,
                     fileSize: file.size,
                     textLength: resumeText?.length || 0,
+                    ocrConfidence: ocr?.confidence,
                     page: 'upload',
-                    action: 'extractTextFromPdf',
+                    action: 'readResumeText',
                 });
                 setIsProcessing(false);
-                return setStatusText('Error: Failed to extract text from resume');
+                return setStatusText(ocr
+                    ? 'Error: No readable text was found in the resume, even with OCR'
+                    : 'Error: Failed to extract text from resume');
             }
 
             setStatusText('Parsing resume data...');
-            const parsedResumeData = await parseResumeWithGemini(resumeText);
+            const parsedResumeData = await parseResumeWithGemini(resumeText, controller.signal);
             if (!parsedResumeData) {
                 const error = new Error('Failed to parse resume with AI');
                 const { saveErrorLog } = await import('~/lib/firebase');
@@ -134,13 +150,14 @@ const Upload = () => {
             feedback: null as Feedback | null,
             parsedResumeData: parsedResumeData,
             jobDescription: jobDesc,
+            ocr, // Set for scans and photos; the resume page warns about them and reuses the text
         }
         await storage.set(`resume:${uuid}`, JSON.stringify(data));
 
         setStatusText('Analyzing with AI...');
         console.log('🔍 Starting ATS analysis - Using Hugging Face API (NOT puter.com)');
 
-        const feedback = await analyzeResumeWithGemini(resumeText, jobDesc);
+        const feedback = await analyzeResumeWithGemini(resumeText, jobDesc, parsedResumeData, controller.signal);
         if (!feedback) {
             setIsProcessing(false);
             return setStatusText('Error: Failed to analyze resume. Please check your Gemini API key.');
@@ -151,11 +168,7 @@ const Upload = () => {
 
         // Calculate ATS scores and save to Firebase
         if (parsedResumeData) {
-            const atsScore = calculateATSScore(parsedResumeData);
-            const keywordMatch = calculateJDMatch(parsedResumeData, jobDesc);
-            const contentStrength = calculateContentStrength(parsedResumeData);
-            const overallScore = calculateOverallResumeScore(atsScore, keywordMatch.score, contentStrength, 85);
-            const overusedWords = detectOverusedWords(resumeText);
+            const { atsScore, jdMatch: keywordMatch, contentStrength, overallScore, overusedWords } = scoreResume(parsedResumeData, resumeText, jobDesc);
             const missingSkills = keywordMatch.missing || [];
 
             // Save ATS analysis record to Firebase
@@ -169,17 +182,23 @@ const Upload = () => {
                 keywordMatch: keywordMatch.score,
                 atsCompatibility: atsScore.overall,
                 contentStrength: contentStrength,
-                lengthScore: 85,
+                lengthScore: DEFAULT_LENGTH_SCORE,
                 missingSkills: missingSkills,
                 overusedWords: overusedWords.map(w => w.word),
                 analyzedAt: Timestamp.now()
             });
         }
 
+            // Don't pull the user back here if they navigated away meanwhile
+            if (controller.signal.aborted) return;
             setStatusText('Analysis complete, redirecting...');
             console.log(data);
             navigate(`/resume/${uuid}`);
         } catch (error) {
+            if (isAbortError(error)) {
+                console.log('⏹️ Resume analysis cancelled');
+                return;
+            }
             console.error('❌ Error in handleAnalyze:', error);
             const { saveErrorLog } = await import('~/lib/firebase');
             await saveErrorLog(error instanceof Error ? error : new Error(String(error)), {
@@ -322,14 +341,16 @@ const Upload = () => {
 
                             <div className="form-div">
                                 <label htmlFor="uploader" className={errors.file ? 'text-red-500' : ''}>
-                                    Upload Resume (PDF) {errors.file && <span className="text-red-400 text-sm">*</span>}
+                                    Upload Resume (PDF or Word) {errors.file && <span className="text-red-400 text-sm">*</span>}
                                 </label>
-                                <FileUploader onFileSelect={handleFileSelect} accept=".pdf" hasError={!!errors.file} />
+                                <FileUploader onFileSelect={handleFileSelect} accept={RESUME_FILE_ACCEPT} hasError={!!errors.file} />
                                 {errors.file && (
                                     <p className="text-red-400 text-sm mt-1">{errors.file}</p>
                                 )}
                             </div>
 
+                            <PrivacyModeToggle />
+
                             <button 
                                 className={`primary-button ${!file ? 'opacity-50 cursor-not-allowed' : ''}`} 
                                 type="submit"
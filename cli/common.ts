@@ -0,0 +1,69 @@
+/**
+ * Helpers shared by the resume-ai commands
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { setAITransport, type AITransport } from '~/lib/ai-client';
+import { extractTextFromPdfBuffer } from '~/lib/pdf-text.server';
+
+export const RESUME_EXTENSIONS = ['.pdf', '.txt'];
+
+/** Bad arguments; reported with the usage text and exit code 2 */
+export class UsageError extends Error {}
+
+/**
+ * Resume files named on the command line; directories are expanded to the resumes they contain
+ */
+export async function collectResumeFiles(inputs: string[], recursive: boolean): Promise<string[]> {
+    const files: string[] = [];
+
+    const visit = async (target: string, fromDirectory: boolean) => {
+        const info = await stat(target).catch(() => null);
+        if (!info) throw new UsageError(`No such file or directory: ${target}`);
+
+        if (info.isDirectory()) {
+            if (fromDirectory && !recursive) return;
+            const entries = (await readdir(target)).sort();
+            for (const entry of entries) await visit(path.join(target, entry), true);
+        } else if (RESUME_EXTENSIONS.includes(path.extname(target).toLowerCase())) {
+            files.push(target);
+        } else if (!fromDirectory) {
+            throw new UsageError(`Unsupported file type: ${target} (expected ${RESUME_EXTENSIONS.join(' or ')})`);
+        }
+    };
+
+    for (const input of inputs) await visit(input, false);
+    return files;
+}
+
+export async function readResumeText(file: string): Promise<string> {
+    if (path.extname(file).toLowerCase() === '.pdf') {
+        return extractTextFromPdfBuffer(new Uint8Array(await readFile(file)));
+    }
+    return (await readFile(file, 'utf8')).trim();
+}
+
+/**
+ * Transport that posts the AI helpers' requests to a remote /api/ai-compatible endpoint
+ * ADMIN_TOKEN, when set, is sent so the server accepts `--provider` / `--model` overrides
+ */
+export function aiEndpointTransport(endpoint: string): AITransport {
+    const adminToken = process.env.ADMIN_TOKEN;
+    return (body, signal) => fetch(endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(adminToken && { 'Authorization': `Bearer ${adminToken}` }),
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+}
+
+/**
+ * Send the AI helpers' requests to a remote /api/ai-compatible endpoint
+ */
+export function useAIEndpoint(endpoint: string): void {
+    setAITransport(aiEndpointTransport(endpoint));
+}
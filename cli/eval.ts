@@ -0,0 +1,503 @@
+/**
+ * resume-ai eval: measure the resume parsers and the ATS analysis against a hand-labelled corpus
+ *
+ * The corpus is a directory of resumes (`name.pdf` or `name.txt`), each next to its label
+ * `name.expected.json`: the ParsedResumeData a perfect parser would return. Fields left out of a
+ * label aren't scored for that resume. Both parsers are scored field by field (precision and
+ * recall), and with --jd every resume is analysed --runs times to show how much the AI's scores
+ * vary between identical requests. Save the report with --out and pass it to a later run with
+ * --baseline to see what a prompt or parser change did.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { setAITransport, type AITransport } from '~/lib/ai-client';
+import { analyzeResumeWithGemini, parseResumeWithGemini, type JobDescription, type ParsedResumeData } from '~/lib/ai-features';
+import { serverAITransport } from '~/lib/ai-gateway.server';
+import { parseResumeText } from '~/lib/resume-text-parser';
+import { aiEndpointTransport, readResumeText, RESUME_EXTENSIONS, UsageError } from './common';
+
+export const EVAL_USAGE = `Usage: resume-ai eval <corpus-directory> [options]
+
+The corpus holds resumes (name.pdf or name.txt) with hand-labelled
+ParsedResumeData next to them (name.expected.json).
+
+Options:
+  --parsers <list>       Parsers to score: ai, regex or ai,regex (default: ai,regex)
+  --jd <file>            Job description; also measure how much the AI analysis varies
+  --runs <n>             Analyses per resume when --jd is given (default: 3)
+  --ai-endpoint <url>    Send AI requests to an /api/ai-compatible endpoint instead of
+                         calling the configured provider directly (env: RESUME_AI_ENDPOINT)
+  --provider <name>      Provider for every AI request (default: AI_PROVIDER / routing)
+  --model <name>         Model for every AI request
+  --out <file>           Save the report as JSON
+  --baseline <file>      Compare with a report saved by an earlier run
+  --format table|json    Output format (default: table)
+  --verbose              Show progress logs on stderr
+  -h, --help             Show this help`;
+
+const EVAL_FIELDS = ['name', 'email', 'experience', 'dates', 'skills'] as const;
+type EvalField = typeof EVAL_FIELDS[number];
+
+const ANALYSIS_SCORES = ['overall', 'ATS', 'toneAndStyle', 'content', 'structure', 'skills'] as const;
+type AnalysisScore = typeof ANALYSIS_SCORES[number];
+
+type ParserName = 'ai' | 'regex';
+const PARSERS: ParserName[] = ['ai', 'regex'];
+
+/** Matches between a parse and its label; precision = matched / predicted, recall = matched / expected */
+interface FieldCounts {
+    matched: number;
+    predicted: number;
+    expected: number;
+}
+
+interface FieldScore extends FieldCounts {
+    precision: number | null; // null when nothing was predicted
+    recall: number | null; // null when nothing was labelled
+    f1: number | null;
+}
+
+interface ParsedResumeEvaluation {
+    file: string;
+    parser: ParserName;
+    error?: string; // The parser returned nothing; its fields count as empty
+    fields: Partial<Record<EvalField, FieldCounts>>;
+}
+
+interface ScoreSpread {
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+}
+
+interface AnalysisVariance {
+    file: string;
+    runs: number;
+    failures: number;
+    scores: Partial<Record<AnalysisScore, ScoreSpread>>;
+}
+
+interface EvalReport {
+    createdAt: string;
+    corpus: string;
+    ai: { endpoint?: string; provider?: string; model?: string };
+    promptTemplates: string[]; // Template versions the AI replies reported, e.g. "resume-parse@2"
+    parsers: Partial<Record<ParserName, { resumes: number; failures: number; fields: Record<EvalField, FieldScore> }>>;
+    analysis: {
+        runs: number;
+        meanStdDev: Record<AnalysisScore, number | null>; // Average over resumes of each score's standard deviation
+        resumes: AnalysisVariance[];
+    } | null;
+    resumes: ParsedResumeEvaluation[];
+    skipped: Array<{ file: string; error: string }>;
+}
+
+interface CorpusEntry {
+    file: string;
+    text: string;
+    label: Partial<ParsedResumeData>;
+}
+
+/** A hand-written label: any subset of ParsedResumeData */
+type ResumeLabel = CorpusEntry['label'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function normalizeText(value: string | undefined): string {
+    return (value ?? '').toLowerCase().replace(/[^a-z0-9+#@.]+/g, ' ').trim();
+}
+
+/**
+ * "Jan 2020", "01/2020", "2020-01" -> "2020-01"; "2020" -> "2020"; "Present" -> "present"
+ */
+function normalizeDate(value: string | undefined): string {
+    const text = (value ?? '').toLowerCase().trim();
+    if (!text) return '';
+    if (/present|current|now|today/.test(text)) return 'present';
+
+    const year = text.match(/\b(19|20)\d{2}\b/)?.[0];
+    if (!year) return normalizeText(text);
+
+    const monthName = MONTHS.findIndex(month => new RegExp(`\\b${month}`).test(text));
+    const monthNumber = text.match(/\b(\d{1,2})[/.-](?:19|20)\d{2}\b/)?.[1] ?? text.match(/\b(?:19|20)\d{2}[/.-](\d{1,2})\b/)?.[1];
+    const month = monthName >= 0 ? monthName + 1 : monthNumber ? parseInt(monthNumber, 10) : 0;
+    return month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : year;
+}
+
+/**
+ * Dates match when equal, or when one side only gives the year and the years agree
+ */
+function datesMatch(a: string, b: string): boolean {
+    return a === b || (a.length === 4 || b.length === 4) && a.slice(0, 4) === b.slice(0, 4);
+}
+
+/**
+ * Loose match for company and position names: equal once normalized, or one contains the other
+ */
+function similar(a: string | undefined, b: string | undefined): boolean {
+    const x = normalizeText(a);
+    const y = normalizeText(b);
+    if (!x || !y) return x === y;
+    return x === y || x.includes(y) || y.includes(x);
+}
+
+function scalarCounts(predicted: string | undefined, expected: string, normalize = normalizeText): FieldCounts {
+    const p = normalize(predicted);
+    const e = normalize(expected);
+    return { matched: p && e && p === e ? 1 : 0, predicted: p ? 1 : 0, expected: e ? 1 : 0 };
+}
+
+type Experience = ParsedResumeData['experience'][number];
+
+function entryDates(entry: Experience): string[] {
+    const end = entry.endDate || (entry.current ? 'present' : '');
+    return [normalizeDate(entry.startDate), normalizeDate(end)];
+}
+
+/**
+ * Score one parse against its label; only labelled fields are counted
+ */
+function compareParse(parsed: ParsedResumeData | null, label: ResumeLabel): Partial<Record<EvalField, FieldCounts>> {
+    const fields: Partial<Record<EvalField, FieldCounts>> = {};
+
+    if (label.personalInfo?.fullName !== undefined) {
+        fields.name = scalarCounts(parsed?.personalInfo?.fullName, label.personalInfo.fullName);
+    }
+    if (label.personalInfo?.email !== undefined) {
+        fields.email = scalarCounts(parsed?.personalInfo?.email, label.personalInfo.email, value => (value ?? '').trim().toLowerCase());
+    }
+
+    if (label.experience) {
+        const predicted = parsed?.experience ?? [];
+        const unmatched = new Set(predicted.map((_, index) => index));
+        const pairs: Array<[Experience, Experience]> = [];
+
+        for (const expected of label.experience) {
+            const index = [...unmatched].find(i => similar(predicted[i].company, expected.company) && similar(predicted[i].position, expected.position));
+            if (index !== undefined) {
+                unmatched.delete(index);
+                pairs.push([predicted[index], expected]);
+            }
+        }
+
+        fields.experience = { matched: pairs.length, predicted: predicted.length, expected: label.experience.length };
+
+        // Dates are compared within matched entries; a date in an unmatched entry can't be right
+        const countDates = (entries: Experience[]) => entries.flatMap(entryDates).filter(Boolean).length;
+        const matchedDates = pairs.reduce((sum, [p, e]) => {
+            const [pStart, pEnd] = entryDates(p);
+            const [eStart, eEnd] = entryDates(e);
+            return sum
+                + (pStart && eStart && datesMatch(pStart, eStart) ? 1 : 0)
+                + (pEnd && eEnd && datesMatch(pEnd, eEnd) ? 1 : 0);
+        }, 0);
+        fields.dates = { matched: matchedDates, predicted: countDates(predicted), expected: countDates(label.experience) };
+    }
+
+    if (label.skills) {
+        const skillSet = (skills?: Partial<ParsedResumeData['skills']>) =>
+            new Set([...(skills?.technical ?? []), ...(skills?.soft ?? [])].map(skill => normalizeText(skill)).filter(Boolean));
+        const predicted = skillSet(parsed?.skills);
+        const expected = skillSet(label.skills);
+        fields.skills = {
+            matched: [...expected].filter(skill => predicted.has(skill)).length,
+            predicted: predicted.size,
+            expected: expected.size,
+        };
+    }
+
+    return fields;
+}
+
+function toFieldScore(counts: FieldCounts): FieldScore {
+    const precision = counts.predicted > 0 ? counts.matched / counts.predicted : null;
+    const recall = counts.expected > 0 ? counts.matched / counts.expected : null;
+    const f1 = precision !== null && recall !== null
+        ? (precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0)
+        : null;
+    return { ...counts, precision, recall, f1 };
+}
+
+/**
+ * Micro-averaged scores: counts are summed over the corpus before dividing
+ */
+function summarizeParser(evaluations: ParsedResumeEvaluation[]): NonNullable<EvalReport['parsers'][ParserName]> {
+    const fields = Object.fromEntries(EVAL_FIELDS.map(field => {
+        const total: FieldCounts = { matched: 0, predicted: 0, expected: 0 };
+        for (const evaluation of evaluations) {
+            const counts = evaluation.fields[field];
+            if (!counts) continue;
+            total.matched += counts.matched;
+            total.predicted += counts.predicted;
+            total.expected += counts.expected;
+        }
+        return [field, toFieldScore(total)];
+    })) as Record<EvalField, FieldScore>;
+
+    return { resumes: evaluations.length, failures: evaluations.filter(evaluation => evaluation.error).length, fields };
+}
+
+function spread(values: number[]): ScoreSpread {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    return { mean, stdDev: Math.sqrt(variance), min: Math.min(...values), max: Math.max(...values) };
+}
+
+async function measureAnalysis(entry: CorpusEntry, jobDescription: JobDescription, runs: number): Promise<AnalysisVariance> {
+    const samples: Record<AnalysisScore, number[]> = Object.fromEntries(ANALYSIS_SCORES.map(score => [score, []])) as any;
+    let failures = 0;
+
+    // No parsed resume is passed, so the plausibility check can't swap in the local score
+    // and the spread is the model's own
+    for (let run = 0; run < runs; run++) {
+        const feedback = await analyzeResumeWithGemini(entry.text, jobDescription);
+        if (!feedback) {
+            failures++;
+            continue;
+        }
+        samples.overall.push(feedback.overallScore);
+        for (const score of ANALYSIS_SCORES.slice(1) as Exclude<AnalysisScore, 'overall'>[]) {
+            const value = feedback[score]?.score;
+            if (typeof value === 'number') samples[score].push(value);
+        }
+    }
+
+    const scores: AnalysisVariance['scores'] = {};
+    for (const score of ANALYSIS_SCORES) {
+        if (samples[score].length > 0) scores[score] = spread(samples[score]);
+    }
+    return { file: entry.file, runs, failures, scores };
+}
+
+/**
+ * Resumes in the corpus directory with their labels; unreadable or unlabelled ones are skipped
+ */
+async function loadCorpus(directory: string, exclude: string[]): Promise<{ entries: CorpusEntry[]; skipped: EvalReport['skipped'] }> {
+    const names = await readdir(directory).catch(() => {
+        throw new UsageError(`Cannot read the corpus directory: ${directory}`);
+    });
+    const entries: CorpusEntry[] = [];
+    const skipped: EvalReport['skipped'] = [];
+
+    for (const name of names.sort()) {
+        const file = path.join(directory, name);
+        if (!RESUME_EXTENSIONS.includes(path.extname(name).toLowerCase()) || exclude.includes(path.resolve(file))) continue;
+
+        const labelFile = path.join(directory, `${path.parse(name).name}.expected.json`);
+        try {
+            const label = JSON.parse(await readFile(labelFile, 'utf8').catch(() => {
+                throw new Error(`No label file ${path.basename(labelFile)}`);
+            }));
+            if (!label || typeof label !== 'object' || Array.isArray(label)) {
+                throw new Error(`${path.basename(labelFile)} must hold a ParsedResumeData object`);
+            }
+            const text = await readResumeText(file);
+            if (text.length < 50) throw new Error('No text could be extracted (it may be a scanned image)');
+            entries.push({ file, text, label });
+        } catch (error: any) {
+            skipped.push({ file, error: error?.message || String(error) });
+        }
+    }
+
+    return { entries, skipped };
+}
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? '-' : `${(value * 100).toFixed(1)}%`);
+
+function delta(current: number | null | undefined, previous: number | null | undefined, scale = 100, unit = ''): string {
+    if (current === null || current === undefined || previous === null || previous === undefined) return '';
+    const change = (current - previous) * scale;
+    return `${change >= 0 ? '+' : ''}${change.toFixed(1)}${unit}`;
+}
+
+function formatTable(rows: string[][]): string {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+    return [line(rows[0]), line(widths.map(width => '-'.repeat(width))), ...rows.slice(1).map(line)].join('\n');
+}
+
+function formatReport(report: EvalReport, baseline?: EvalReport): string {
+    const sections: string[] = [];
+
+    const parserRows = [['Parser', 'Field', 'Precision', 'Recall', 'F1', 'Matched/Pred/Exp', ...(baseline ? ['ΔF1'] : [])]];
+    for (const parser of PARSERS) {
+        const summary = report.parsers[parser];
+        if (!summary) continue;
+        for (const field of EVAL_FIELDS) {
+            const score = summary.fields[field];
+            parserRows.push([
+                parser,
+                field,
+                percent(score.precision),
+                percent(score.recall),
+                percent(score.f1),
+                `${score.matched}/${score.predicted}/${score.expected}`,
+                ...(baseline ? [delta(score.f1, baseline.parsers[parser]?.fields[field]?.f1, 100, ' pts')] : []),
+            ]);
+        }
+    }
+    sections.push(formatTable(parserRows));
+
+    const failures = PARSERS.map(parser => report.parsers[parser]?.failures ? `${parser}: ${report.parsers[parser]!.failures} parses failed` : '').filter(Boolean);
+    if (failures.length > 0) sections.push(failures.join('\n'));
+
+    if (report.analysis) {
+        const analysisRows = [['Score', 'Mean σ', ...(baseline?.analysis ? ['Δσ'] : [])]];
+        for (const score of ANALYSIS_SCORES) {
+            const stdDev = report.analysis.meanStdDev[score];
+            analysisRows.push([
+                score,
+                stdDev === null ? '-' : stdDev.toFixed(2),
+                ...(baseline?.analysis ? [delta(stdDev, baseline.analysis.meanStdDev[score], 1)] : []),
+            ]);
+        }
+        sections.push(`Analysis variance over ${report.analysis.runs} runs per resume:\n${formatTable(analysisRows)}`);
+    }
+
+    if (report.promptTemplates.length > 0) {
+        const previous = baseline?.promptTemplates.join(', ');
+        sections.push(`Prompt templates: ${report.promptTemplates.join(', ')}${previous ? ` (baseline: ${previous})` : ''}`);
+    }
+    if (report.skipped.length > 0) {
+        sections.push(`Skipped:\n${report.skipped.map(entry => `  ${entry.file}: ${entry.error}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+}
+
+/**
+ * Transport for the evaluation's AI requests: never served from the reply cache (repeated
+ * analyses must reach the model), optionally pinned to one provider/model, and noting which
+ * template versions replied
+ */
+function evalTransport(base: AITransport, provider: string | undefined, model: string | undefined, templates: Set<string>): AITransport {
+    return async (body, signal) => {
+        const response = await base({
+            ...body,
+            noCache: true,
+            ...(provider && { provider }),
+            ...(model && { model }),
+        }, signal);
+        const template = response.headers.get('X-AI-Prompt-Template');
+        if (template) templates.add(template);
+        return response;
+    };
+}
+
+export async function runEval(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'parsers': { type: 'string', default: 'ai,regex' },
+            'jd': { type: 'string' },
+            'runs': { type: 'string', default: '3' },
+            'ai-endpoint': { type: 'string' },
+            'provider': { type: 'string' },
+            'model': { type: 'string' },
+            'out': { type: 'string' },
+            'baseline': { type: 'string' },
+            'format': { type: 'string', default: 'table' },
+            'verbose': { type: 'boolean', default: false },
+            'help': { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.info(EVAL_USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) throw new UsageError('Name one corpus directory');
+    if (values.format !== 'table' && values.format !== 'json') throw new UsageError('--format must be table or json');
+
+    const parsers = values.parsers.split(',').map(parser => parser.trim()).filter(Boolean);
+    if (parsers.length === 0 || parsers.some(parser => !PARSERS.includes(parser as ParserName))) {
+        throw new UsageError('--parsers must list ai and/or regex');
+    }
+    const runs = Number(values.runs);
+    if (!Number.isInteger(runs) || runs < 1) throw new UsageError('--runs must be a positive whole number');
+
+    const baseline: EvalReport | undefined = values.baseline
+        ? JSON.parse(await readFile(values.baseline, 'utf8').catch(() => {
+            throw new UsageError(`Cannot read the baseline report: ${values.baseline}`);
+        }))
+        : undefined;
+
+    // Library code logs progress with console.log; keep stdout for the results
+    console.log = values.verbose ? console.error : () => {};
+
+    let jobDescription: JobDescription | null = null;
+    if (values.jd) {
+        const description = (await readFile(values.jd, 'utf8').catch(() => {
+            throw new UsageError(`Cannot read the job description: ${values.jd}`);
+        })).trim();
+        if (!description) throw new UsageError(`The job description file is empty: ${values.jd}`);
+        jobDescription = { title: '', company: '', description };
+    }
+
+    const endpoint = values['ai-endpoint'] || process.env.RESUME_AI_ENDPOINT;
+    const templates = new Set<string>();
+    setAITransport(evalTransport(endpoint ? aiEndpointTransport(endpoint) : serverAITransport, values.provider, values.model, templates));
+
+    const corpus = positionals[0];
+    const { entries, skipped } = await loadCorpus(corpus, values.jd ? [path.resolve(values.jd)] : []);
+    if (entries.length === 0 && skipped.length === 0) {
+        throw new UsageError(`No ${RESUME_EXTENSIONS.join(' or ')} resumes found in ${corpus}`);
+    }
+
+    // One request at a time, like the score command, so a remote endpoint's rate limit isn't tripped
+    const resumes: ParsedResumeEvaluation[] = [];
+    for (const [index, entry] of entries.entries()) {
+        console.error(`[${index + 1}/${entries.length}] ${entry.file}`);
+        for (const parser of parsers as ParserName[]) {
+            const parsed = parser === 'ai' ? await parseResumeWithGemini(entry.text) : parseResumeText(entry.text);
+            resumes.push({
+                file: entry.file,
+                parser,
+                ...(!parsed && { error: 'The parser returned no result' }),
+                fields: compareParse(parsed, entry.label),
+            });
+        }
+    }
+
+    let analysis: EvalReport['analysis'] = null;
+    if (jobDescription) {
+        const variances: AnalysisVariance[] = [];
+        for (const [index, entry] of entries.entries()) {
+            console.error(`[analysis ${index + 1}/${entries.length}] ${entry.file} × ${runs}`);
+            variances.push(await measureAnalysis(entry, jobDescription, runs));
+        }
+        const meanStdDev = Object.fromEntries(ANALYSIS_SCORES.map(score => {
+            const stdDevs = variances.flatMap(variance => variance.scores[score] ? [variance.scores[score]!.stdDev] : []);
+            return [score, stdDevs.length > 0 ? stdDevs.reduce((sum, value) => sum + value, 0) / stdDevs.length : null];
+        })) as Record<AnalysisScore, number | null>;
+        analysis = { runs, meanStdDev, resumes: variances };
+    }
+
+    const report: EvalReport = {
+        createdAt: new Date().toISOString(),
+        corpus,
+        ai: {
+            ...(endpoint && { endpoint }),
+            ...(values.provider && { provider: values.provider }),
+            ...(values.model && { model: values.model }),
+        },
+        promptTemplates: [...templates].sort(),
+        parsers: Object.fromEntries((parsers as ParserName[]).map(parser =>
+            [parser, summarizeParser(resumes.filter(resume => resume.parser === parser))]
+        )),
+        analysis,
+        resumes,
+        skipped,
+    };
+
+    if (values.out) {
+        await writeFile(values.out, JSON.stringify(report, null, 2) + '\n');
+        console.error(`💾 Report saved to ${values.out}`);
+    }
+    process.stdout.write((values.format === 'json' ? JSON.stringify(report, null, 2) : formatReport(report, baseline)) + '\n');
+    return skipped.length > 0 ? 1 : 0;
+}
@@ -0,0 +1,174 @@
+/**
+ * resume-ai: score resumes against a job description from the terminal
+ *
+ *   resume-ai score <resume.pdf|resume.txt|directory>... --jd jd.txt [--format table|json]
+ *   resume-ai eval <corpus-directory> [--jd jd.txt] [--out report.json]   (see eval.ts)
+ *
+ * Uses the same rule-based scorers as the web app. Resumes are parsed with the regex parser, or by
+ * the AI when --ai-endpoint (or RESUME_AI_ENDPOINT) points at an /api/ai-compatible endpoint.
+ * Build with `npm run build:cli`, then run `node dist/cli/resume-ai.js`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { parseResumeWithGemini, type JobDescription, type ParsedResumeData } from '~/lib/ai-features';
+import { scoreResume, type ResumeScores } from '~/lib/resume-analysis';
+import { parseResumeText } from '~/lib/resume-text-parser';
+import { collectResumeFiles, readResumeText, RESUME_EXTENSIONS, useAIEndpoint, UsageError } from './common';
+import { EVAL_USAGE, runEval } from './eval';
+
+const USAGE = `Usage: resume-ai score <resume.pdf|resume.txt|directory>... --jd <jd.txt> [options]
+
+Options:
+  --jd <file>            Job description text (required)
+  --title <text>         Job title
+  --company <text>       Company name
+  --format table|json    Output format (default: table)
+  --ai-endpoint <url>    Parse resumes with an /api/ai-compatible endpoint,
+                         e.g. http://localhost:5173/api/ai (env: RESUME_AI_ENDPOINT)
+  --recursive            Also score resumes in subdirectories
+  --verbose              Show progress logs on stderr
+  -h, --help             Show this help`;
+
+type ParsedWith = 'ai' | 'regex';
+
+interface ScoredResume extends ResumeScores {
+    file: string;
+    parsedWith: ParsedWith;
+    parsedResumeData: ParsedResumeData;
+}
+
+interface FailedResume {
+    file: string;
+    error: string;
+}
+
+type ResumeResult = ScoredResume | FailedResume;
+
+async function scoreFile(file: string, jobDescription: JobDescription, useAI: boolean): Promise<ResumeResult> {
+    try {
+        const text = await readResumeText(file);
+        if (text.length < 50) {
+            return { file, error: 'No text could be extracted (it may be a scanned image)' };
+        }
+
+        let parsedResumeData: ParsedResumeData | null = null;
+        let parsedWith: ParsedWith = 'regex';
+        if (useAI) {
+            parsedResumeData = await parseResumeWithGemini(text);
+            if (parsedResumeData) {
+                parsedWith = 'ai';
+            } else {
+                console.warn(`⚠️ AI parsing failed for ${file}; using the regex parser`);
+            }
+        }
+        parsedResumeData ??= parseResumeText(text);
+
+        return { file, parsedWith, parsedResumeData, ...scoreResume(parsedResumeData, text, jobDescription) };
+    } catch (error: any) {
+        return { file, error: error?.message || String(error) };
+    }
+}
+
+function formatTable(results: ResumeResult[]): string {
+    const header = ['File', 'Overall', 'ATS', 'JD match', 'Content', 'Metrics', 'Overused', 'Parser'];
+    const rows = results.map(result => 'error' in result
+        ? [result.file, 'error', '', '', '', '', '', result.error]
+        : [
+            result.file,
+            String(Math.round(result.overallScore)),
+            String(Math.round(result.atsScore.overall)),
+            String(Math.round(result.jdMatch.score)),
+            String(Math.round(result.contentStrength)),
+            String(result.metricsScan.metricCount),
+            result.overusedWords.slice(0, 3).map(word => `${word.word}×${word.count}`).join(', ') || '-',
+            result.parsedWith,
+        ]);
+
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+    const scored = results.filter((result): result is ScoredResume => !('error' in result));
+    const missing = scored.length === 1 && scored[0].jdMatch.missing.length > 0
+        ? `\nMissing JD keywords: ${scored[0].jdMatch.missing.join(', ')}`
+        : '';
+
+    return [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n') + missing;
+}
+
+async function runScore(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'jd': { type: 'string' },
+            'title': { type: 'string' },
+            'company': { type: 'string' },
+            'format': { type: 'string', default: 'table' },
+            'ai-endpoint': { type: 'string' },
+            'recursive': { type: 'boolean', default: false },
+            'verbose': { type: 'boolean', default: false },
+            'help': { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        console.info(USAGE);
+        return 0;
+    }
+    if (positionals.length === 0) throw new UsageError('Name at least one resume file or directory');
+    if (!values.jd) throw new UsageError('--jd <file> is required');
+    if (values.format !== 'table' && values.format !== 'json') throw new UsageError('--format must be table or json');
+
+    // Library code logs progress with console.log; keep stdout for the results
+    console.log = values.verbose ? console.error : () => {};
+
+    const jobDescription: JobDescription = {
+        title: values.title || '',
+        company: values.company || '',
+        description: (await readFile(values.jd, 'utf8').catch(() => {
+            throw new UsageError(`Cannot read the job description: ${values.jd}`);
+        })).trim(),
+    };
+    if (!jobDescription.description) throw new UsageError(`The job description file is empty: ${values.jd}`);
+
+    const aiEndpoint = values['ai-endpoint'] || process.env.RESUME_AI_ENDPOINT;
+    if (aiEndpoint) useAIEndpoint(aiEndpoint);
+
+    const files = await collectResumeFiles(positionals, values.recursive);
+    if (files.length === 0) throw new UsageError(`No ${RESUME_EXTENSIONS.join(' or ')} resumes found`);
+
+    // One at a time, so a batch doesn't trip the AI endpoint's per-minute rate limit
+    const results: ResumeResult[] = [];
+    for (const [index, file] of files.entries()) {
+        if (files.length > 1) console.error(`[${index + 1}/${files.length}] ${file}`);
+        results.push(await scoreFile(file, jobDescription, Boolean(aiEndpoint)));
+    }
+
+    process.stdout.write((values.format === 'json' ? JSON.stringify(results, null, 2) : formatTable(results)) + '\n');
+    return results.some(result => 'error' in result) ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const [command, ...rest] = argv;
+    try {
+        if (command === 'score') return await runScore(rest);
+        if (command === 'eval') return await runEval(rest);
+        if (!command || command === '--help' || command === '-h') {
+            console.info(`${USAGE}\n\n${EVAL_USAGE}`);
+            return command ? 0 : 2;
+        }
+        throw new UsageError(`Unknown command: ${command}`);
+    } catch (error: any) {
+        if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+            console.error(`resume-ai: ${error.message}\n\n${command === 'eval' ? EVAL_USAGE : USAGE}`);
+            return 2;
+        }
+        console.error('resume-ai:', error);
+        return 1;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,38 @@
+/**
+ * Copy the OCR engine and its English language data into public/ocr so scanned resumes are read
+ * without any CDN request
+ * Usage: node scripts/copy-ocr-assets.mjs (run automatically after npm install and before npm run build)
+ *
+ * public/ocr gets the tesseract.js worker, the LSTM builds of the WASM core (the worker picks the
+ * relaxed-SIMD, SIMD or plain build for the browser) and eng.traineddata.gz; see app/lib/ocr.ts.
+ */
+
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = path.join(ROOT, 'public/ocr');
+
+const ASSETS = [
+    'tesseract.js/dist/worker.min.js',
+    'tesseract.js-core/tesseract-core-lstm.wasm.js',
+    'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+    'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+    '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+];
+
+mkdirSync(OUTPUT, { recursive: true });
+
+let missing = 0;
+for (const asset of ASSETS) {
+    const source = path.join(ROOT, 'node_modules', asset);
+    if (!existsSync(source)) {
+        console.warn(`⚠️ ${asset} is not installed; OCR will not work until it is`);
+        missing++;
+        continue;
+    }
+    copyFileSync(source, path.join(OUTPUT, path.basename(asset)));
+}
+
+console.log(`📦 OCR assets copied to public/ocr (${ASSETS.length - missing}/${ASSETS.length})`);
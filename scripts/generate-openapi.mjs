@@ -0,0 +1,200 @@
+/**
+ * Generate the OpenAPI component schemas of the public /api/v1 API from the TypeScript types
+ * Usage: npm run generate:openapi [-- --check]
+ *
+ * Every interface (or named type alias) declared in this repo that the root types reference becomes
+ * its own component and is linked with $ref; library types such as Record<K, V> are expanded inline.
+ * A trailing `// comment` on a property becomes its description.
+ * With --check the script only reports whether the committed file is up to date (exit code 1 if not).
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = path.join(ROOT, 'app/lib/openapi-schemas.generated.json');
+
+// Types that are always emitted, with the file that declares them
+const ROOT_TYPES = [
+    ['ParsedResumeData', 'app/lib/gemini.ts'],
+    ['Feedback', 'types/index.d.ts'],
+    ['ATSScore', 'app/lib/ai-features.ts'],
+    ['JobDescription', 'app/lib/ai-features.ts'],
+    ['ResumeAnalysisReport', 'app/lib/resume-analysis.ts'],
+    ['AIQuotaUsage', 'app/lib/ai-rate-limit.server.ts'],
+    ['ParseRequest', 'app/lib/public-api.ts'],
+    ['ParseResponse', 'app/lib/public-api.ts'],
+    ['ScoreRequest', 'app/lib/public-api.ts'],
+    ['ScoreResponse', 'app/lib/public-api.ts'],
+    ['RewriteRequest', 'app/lib/public-api.ts'],
+    ['RewriteResponse', 'app/lib/public-api.ts'],
+    ['CoverLetterRequest', 'app/lib/public-api.ts'],
+    ['CoverLetterResponse', 'app/lib/public-api.ts'],
+    ['UsageResponse', 'app/lib/public-api.ts'],
+    ['ApiErrorBody', 'app/lib/public-api.ts'],
+];
+
+function createProgram() {
+    const configPath = path.join(ROOT, 'tsconfig.json');
+    const config = ts.readConfigFile(configPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config.config, ts.sys, ROOT);
+    return ts.createProgram({
+        rootNames: [...new Set(ROOT_TYPES.map(([, file]) => path.join(ROOT, file)))],
+        options: parsed.options,
+    });
+}
+
+function isProjectDeclaration(declaration) {
+    const fileName = path.resolve(declaration.getSourceFile().fileName);
+    return fileName.startsWith(ROOT + path.sep) && !fileName.includes(`${path.sep}node_modules${path.sep}`);
+}
+
+function findDeclaredSymbol(checker, sourceFile, name) {
+    let found;
+    const visit = (node) => {
+        if (found) return;
+        if ((ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) && node.name.text === name) {
+            found = checker.getSymbolAtLocation(node.name);
+            return;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    if (!found) throw new Error(`Type ${name} is not declared in ${sourceFile.fileName}`);
+    return found;
+}
+
+function trailingComment(declaration) {
+    const sourceText = declaration.getSourceFile().text;
+    const ranges = ts.getTrailingCommentRanges(sourceText, declaration.end) ?? [];
+    const range = ranges.find(r => r.kind === ts.SyntaxKind.SingleLineCommentTrivia);
+    return range ? sourceText.slice(range.pos + 2, range.end).trim() : undefined;
+}
+
+function generateSchemas() {
+    const program = createProgram();
+    const checker = program.getTypeChecker();
+    const schemas = {};
+    const componentSymbols = new Map(); // component name -> symbol, to catch name clashes
+    const pending = [];
+
+    /** Component name of a type that gets its own schema, or undefined to expand it inline */
+    function componentName(type) {
+        const symbol = type.aliasSymbol && !type.aliasTypeArguments ? type.aliasSymbol : type.symbol;
+        if (!symbol || !(symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias))) return undefined;
+        const declaration = symbol.declarations?.[0];
+        if (!declaration || !isProjectDeclaration(declaration)) return undefined;
+        if (ts.isInterfaceDeclaration(declaration) && declaration.typeParameters) return undefined;
+
+        const existing = componentSymbols.get(symbol.name);
+        if (existing && existing !== symbol) {
+            throw new Error(`Two different types are both named ${symbol.name}; rename one of them`);
+        }
+        if (!existing) {
+            componentSymbols.set(symbol.name, symbol);
+            pending.push([symbol.name, type]);
+        }
+        return symbol.name;
+    }
+
+    function toSchema(type, inlineName) {
+        const name = componentName(type);
+        if (name && name !== inlineName) return { $ref: `#/components/schemas/${name}` };
+
+        if (type.flags & ts.TypeFlags.String) return { type: 'string' };
+        if (type.flags & ts.TypeFlags.Number) return { type: 'number' };
+        if (type.flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+        if (type.flags & ts.TypeFlags.Null) return { type: 'null' };
+        if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+        if (type.isStringLiteral()) return { type: 'string', const: type.value };
+        if (type.isNumberLiteral()) return { type: 'number', const: type.value };
+        if (type.flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean', const: checker.typeToString(type) === 'true' };
+
+        if (type.isUnion()) {
+            const members = type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined));
+            if (members.every(member => member.isStringLiteral())) {
+                return { type: 'string', enum: members.map(member => member.value) };
+            }
+            if (members.every(member => member.flags & ts.TypeFlags.BooleanLiteral)) {
+                return { type: 'boolean' };
+            }
+            if (members.length === 1) return toSchema(members[0]);
+            return { anyOf: members.map(member => toSchema(member)) };
+        }
+
+        if (checker.isArrayType(type) || checker.isTupleType(type)) {
+            return { type: 'array', items: toSchema(checker.getTypeArguments(type)[0]) };
+        }
+
+        if (type.flags & ts.TypeFlags.Object) {
+            return objectSchema(type);
+        }
+
+        throw new Error(`Cannot describe type ${checker.typeToString(type)} in JSON Schema`);
+    }
+
+    function objectSchema(type) {
+        const properties = {};
+        const required = [];
+
+        for (const property of checker.getPropertiesOfType(type)) {
+            const declaration = property.valueDeclaration ?? property.declarations?.[0];
+            const propertyType = declaration
+                ? checker.getTypeOfSymbolAtLocation(property, declaration)
+                : checker.getTypeOfSymbol(property);
+
+            const schema = toSchema(propertyType);
+            const description = declaration && trailingComment(declaration);
+            properties[property.name] = description && !schema.$ref ? { ...schema, description } : schema;
+            if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+        }
+
+        const schema = { type: 'object', properties };
+        if (required.length > 0) schema.required = required;
+
+        const indexType = checker.getIndexInfoOfType(type, ts.IndexKind.String)?.type;
+        if (indexType) schema.additionalProperties = toSchema(indexType);
+        else if (Object.keys(properties).length > 0) schema.additionalProperties = false;
+
+        return schema;
+    }
+
+    for (const [name, file] of ROOT_TYPES) {
+        const sourceFile = program.getSourceFile(path.join(ROOT, file));
+        if (!sourceFile) throw new Error(`Cannot read ${file}`);
+        const symbol = findDeclaredSymbol(checker, sourceFile, name);
+        componentSymbols.set(name, symbol);
+        pending.push([name, checker.getDeclaredTypeOfSymbol(symbol)]);
+    }
+
+    while (pending.length > 0) {
+        const [name, type] = pending.shift();
+        if (!schemas[name]) schemas[name] = toSchema(type, name);
+    }
+
+    return Object.fromEntries(Object.keys(schemas).sort().map(name => [name, schemas[name]]));
+}
+
+const output = JSON.stringify({
+    $comment: 'Generated by scripts/generate-openapi.mjs from the TypeScript types; do not edit',
+    schemas: generateSchemas(),
+}, null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+    let current = '';
+    try {
+        current = readFileSync(OUTPUT, 'utf8');
+    } catch {
+        // Missing file counts as out of date
+    }
+    if (current !== output) {
+        console.error(`❌ ${path.relative(ROOT, OUTPUT)} is out of date; run npm run generate:openapi`);
+        process.exit(1);
+    }
+    console.log(`✅ ${path.relative(ROOT, OUTPUT)} is up to date`);
+} else {
+    writeFileSync(OUTPUT, output);
+    console.log(`📝 Wrote ${path.relative(ROOT, OUTPUT)}`);
+}
@@ -0,0 +1,45 @@
+/**
+ * Production server for the React Router build
+ * Serves the same static files as react-router-serve, and passes each request's socket address
+ * to loaders and actions as `context.clientAddress`, which the AI rate limits identify clients by
+ * (see app/lib/ai-rate-limit.server.ts).
+ * Usage: npm run build && npm start (PORT and HOST are read from the environment)
+ */
+
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import compression from "compression";
+import express from "express";
+import morgan from "morgan";
+
+// Set before React is loaded (through the build and the request handler), so it picks the production build
+process.env.NODE_ENV = process.env.NODE_ENV ?? "production";
+
+const { createRequestHandler } = await import("@react-router/express");
+const build = await import(pathToFileURL(path.resolve("build/server/index.js")).href);
+const port = Number(process.env.PORT) || 3000;
+
+const app = express();
+app.disable("x-powered-by");
+app.use(compression());
+app.use(
+    path.posix.join(build.publicPath, "assets"),
+    express.static(path.join(build.assetsBuildDirectory, "assets"), { immutable: true, maxAge: "1y" })
+);
+app.use(build.publicPath, express.static(build.assetsBuildDirectory));
+app.use(express.static("public", { maxAge: "1h" }));
+app.use(morgan("tiny"));
+app.all(
+    "*",
+    createRequestHandler({
+        build,
+        getLoadContext: (req) => ({ clientAddress: req.socket.remoteAddress }),
+    })
+);
+
+const onListen = () => console.log(`🚀 Server listening on http://${process.env.HOST || "localhost"}:${port}`);
+if (process.env.HOST) {
+    app.listen(port, process.env.HOST, onListen);
+} else {
+    app.listen(port, onListen);
+}
@@ -9,6 +9,9 @@ interface Resume {
 
 interface Feedback {
     overallScore: number;
+    promptVersion?: string; // Prompt template that produced this feedback, e.g. "ats-analysis@1"
+    privacyMode?: boolean; // Personal details were masked before the resume was sent to the AI
+
     ATS: {
         score: number;
         tips: {
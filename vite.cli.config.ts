@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Bundles the resume-ai CLI (cli/resume-ai.ts and its score/eval commands) for Node; dependencies stay external
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  publicDir: false,
+  build: {
+    ssr: "cli/resume-ai.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: "resume-ai.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Unit tests for the pure modules in app/lib (*.test.ts next to the module); runs without the React Router plugin
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});